@@ -6,12 +6,14 @@ import { useAppStore } from "./src/state/appState";
 import { OnboardingScreen } from "./src/screens/OnboardingScreen";
 import { ChatScreen } from "./src/screens/ChatScreen";
 import { SettingsScreen } from "./src/screens/SettingsScreen";
+import { ConversationListScreen } from "./src/screens/ConversationListScreen";
 import { ErrorBoundary } from "./src/components/ErrorBoundary";
 import FeatureFlagService from "./src/services/FeatureFlagService";
 import PerformanceMonitor from "./src/services/PerformanceMonitor";
 
 export default function App() {
   const [showSettings, setShowSettings] = useState(false);
+  const [showConversations, setShowConversations] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
   const { hasCompletedOnboarding } = useAppStore();
 
@@ -53,8 +55,13 @@ export default function App() {
             <OnboardingScreen />
           ) : showSettings ? (
             <SettingsScreen onClose={() => setShowSettings(false)} />
+          ) : showConversations ? (
+            <ConversationListScreen onClose={() => setShowConversations(false)} />
           ) : (
-            <ChatScreen onShowSettings={() => setShowSettings(true)} />
+            <ChatScreen
+              onShowSettings={() => setShowSettings(true)}
+              onShowConversations={() => setShowConversations(true)}
+            />
           )}
         </NavigationContainer>
       </SafeAreaProvider>
@@ -0,0 +1,99 @@
+import { getAnthropicTextResponse, getOpenAITextResponse } from "../chat-service";
+import { getAnthropicClient } from "../anthropic";
+import { getOpenAIClient } from "../openai";
+import { MessageSequenceError } from "../message-format";
+import { AIMessage } from "../../types/ai";
+
+jest.mock("../anthropic", () => ({ getAnthropicClient: jest.fn() }));
+jest.mock("../openai", () => ({ getOpenAIClient: jest.fn() }));
+jest.mock("../grok", () => ({ getGrokClient: jest.fn() }));
+
+const anthropicCreate = jest.fn();
+const openAICreate = jest.fn();
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, "error").mockImplementation(() => {});
+
+  anthropicCreate.mockResolvedValue({
+    content: [{ type: "text", text: "Bonjour" }],
+    usage: { input_tokens: 10, output_tokens: 2 },
+  });
+  openAICreate.mockResolvedValue({
+    choices: [{ message: { role: "assistant", content: "Bonjour" } }],
+    usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+  });
+  (getAnthropicClient as jest.Mock).mockReturnValue({ messages: { create: anthropicCreate } });
+  (getOpenAIClient as jest.Mock).mockReturnValue({ chat: { completions: { create: openAICreate } } });
+});
+
+const conversation: AIMessage[] = [
+  { role: "system", content: "Tu es monVOX." },
+  { role: "user", content: "Salut" },
+  { role: "user", content: "Tu es là ?" },
+  { role: "assistant", content: "Oui." },
+  { role: "system", content: "Réponds brièvement." },
+  { role: "user", content: "Quelle heure est-il ?" },
+];
+
+describe("getAnthropicTextResponse", () => {
+  it("passes system messages through the system parameter", async () => {
+    await getAnthropicTextResponse(conversation, { systemPrompt: "Sois poli." });
+
+    const request = anthropicCreate.mock.calls[0][0];
+    expect(request.system).toBe("Sois poli.\n\nTu es monVOX.\n\nRéponds brièvement.");
+    expect(request.messages.map((msg: { role: string }) => msg.role)).toEqual(["user", "assistant", "user"]);
+  });
+
+  it("merges consecutive turns of the same role", async () => {
+    await getAnthropicTextResponse(conversation);
+
+    expect(anthropicCreate.mock.calls[0][0].messages[0]).toEqual({ role: "user", content: "Salut\n\nTu es là ?" });
+  });
+
+  it("drops an assistant turn opening the conversation", async () => {
+    await getAnthropicTextResponse([
+      { role: "assistant", content: "Bonjour, je suis monVOX." },
+      { role: "user", content: "Salut" },
+    ]);
+
+    expect(anthropicCreate.mock.calls[0][0].messages).toEqual([{ role: "user", content: "Salut" }]);
+  });
+
+  it("rejects a sequence without a user turn before calling the API", async () => {
+    await expect(getAnthropicTextResponse([{ role: "assistant", content: "Bonjour" }])).rejects.toThrow(
+      MessageSequenceError,
+    );
+    expect(anthropicCreate).not.toHaveBeenCalled();
+  });
+});
+
+describe("getOpenAITextResponse", () => {
+  it("sends a single system message before the conversation", async () => {
+    await getOpenAITextResponse(conversation, { systemPrompt: "Sois poli." });
+
+    const { messages } = openAICreate.mock.calls[0][0];
+    expect(messages[0]).toEqual({
+      role: "system",
+      content: "Sois poli.\n\nTu es monVOX.\n\nRéponds brièvement.",
+    });
+    expect(messages.slice(1).some((msg: { role: string }) => msg.role === "system")).toBe(false);
+  });
+
+  it("merges consecutive turns of the same role", async () => {
+    await getOpenAITextResponse(conversation);
+
+    expect(openAICreate.mock.calls[0][0].messages.slice(1)).toEqual([
+      { role: "user", content: "Salut\n\nTu es là ?" },
+      { role: "assistant", content: "Oui." },
+      { role: "user", content: "Quelle heure est-il ?" },
+    ]);
+  });
+
+  it("rejects a sequence with only system messages before calling the API", async () => {
+    await expect(getOpenAITextResponse([{ role: "system", content: "Tu es monVOX." }])).rejects.toThrow(
+      MessageSequenceError,
+    );
+    expect(openAICreate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import { MessageSequenceError, mergeConsecutiveTurns, validateMessageSequence } from "../message-format";
+import { AIMessage } from "../../types/ai";
+
+describe("mergeConsecutiveTurns", () => {
+  it("joins text turns of the same role and drops empty ones", () => {
+    const merged = mergeConsecutiveTurns<AIMessage>([
+      { role: "user", content: "Salut" },
+      { role: "user", content: "  " },
+      { role: "user", content: "Tu es là ?" },
+      { role: "assistant", content: "Oui." },
+    ]);
+
+    expect(merged).toEqual([
+      { role: "user", content: "Salut\n\nTu es là ?" },
+      { role: "assistant", content: "Oui." },
+    ]);
+  });
+
+  it("concatenates the parts when a turn has media", () => {
+    const merged = mergeConsecutiveTurns<AIMessage>([
+      { role: "user", content: [{ type: "image", mediaType: "image/jpeg", base64: "AAAA" }] },
+      { role: "user", content: "Qu'est-ce que c'est ?" },
+    ]);
+
+    expect(merged).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "image", mediaType: "image/jpeg", base64: "AAAA" },
+          { type: "text", text: "Qu'est-ce que c'est ?" },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("validateMessageSequence", () => {
+  const valid: AIMessage[] = [
+    { role: "user", content: "Salut" },
+    { role: "assistant", content: "Bonjour" },
+  ];
+
+  it("accepts alternating turns for both APIs", () => {
+    expect(() => validateMessageSequence(valid, "anthropic")).not.toThrow();
+    expect(() => validateMessageSequence([{ role: "system", content: "Tu es monVOX." }, ...valid], "openai")).not.toThrow();
+  });
+
+  it("rejects an empty conversation or an empty message", () => {
+    expect(() => validateMessageSequence([], "openai")).toThrow(MessageSequenceError);
+    expect(() => validateMessageSequence([...valid, { role: "user", content: "" }], "anthropic")).toThrow(
+      /message 2 is empty/,
+    );
+  });
+
+  it("requires Anthropic turns to start with the user and alternate", () => {
+    expect(() => validateMessageSequence([...valid].reverse(), "anthropic")).toThrow(/first message/);
+    expect(() => validateMessageSequence([...valid, { role: "assistant", content: "Encore" }], "anthropic")).toThrow(
+      /both assistant turns/,
+    );
+  });
+
+  it("rejects system messages in an Anthropic message list", () => {
+    expect(() => validateMessageSequence([...valid, { role: "system", content: "Sois bref." }], "anthropic")).toThrow(
+      /system parameter/,
+    );
+  });
+
+  it("only accepts OpenAI system messages before the conversation", () => {
+    expect(() => validateMessageSequence([...valid, { role: "system", content: "Sois bref." }], "openai")).toThrow(
+      /before the conversation/,
+    );
+  });
+});
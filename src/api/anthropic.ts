@@ -7,14 +7,19 @@ claude-sonnet-4-20250514
 claude-3-7-sonnet-latest
 claude-3-5-haiku-latest
 */
+import { fetch } from "expo/fetch";
 import Anthropic from "@anthropic-ai/sdk";
+import EgressGuard from "../services/EgressGuard";
 
 export const getAnthropicClient = () => {
+  EgressGuard.getInstance().assertAllowed({ destination: "cloud_llm", target: "https://api.anthropic.com" });
   const apiKey = process.env.EXPO_PUBLIC_VIBECODE_ANTHROPIC_API_KEY;
   if (!apiKey) {
     console.warn("Anthropic API key not found in environment variables");
   }
   return new Anthropic({
     apiKey: apiKey,
+    // expo/fetch exposes the response body as a stream, which streaming responses require
+    fetch: fetch as unknown as typeof globalThis.fetch,
   });
 };
@@ -7,6 +7,61 @@ import { AIMessage, AIRequestOptions, AIResponse } from "../types/ai";
 import { getAnthropicClient } from "./anthropic";
 import { getOpenAIClient } from "./openai";
 import { getGrokClient } from "./grok";
+import {
+  ContentTarget,
+  TEXT_ONLY,
+  parseToolCall,
+  toAnthropicMessages,
+  toAnthropicTools,
+  toOpenAIMessages,
+  toOpenAITools,
+} from "./message-format";
+import type Anthropic from "@anthropic-ai/sdk";
+import type OpenAI from "openai";
+
+// Audio input needs one of OpenAI's audio models, and images on Grok a vision model
+const openAITarget = (model: string): ContentTarget => ({
+  name: "OpenAI",
+  media: { image: true, audio: model.includes("audio") },
+});
+
+const grokTarget = (model: string): ContentTarget => ({
+  name: "Grok",
+  media: { image: model.includes("vision"), audio: false },
+});
+
+const anthropicToolParams = (options?: AIRequestOptions) => {
+  if (!options?.tools?.length) {
+    return {};
+  }
+  return {
+    tools: toAnthropicTools(options.tools),
+    tool_choice: options.toolChoice === "none" ? { type: "none" as const } : { type: "auto" as const },
+  };
+};
+
+const openAIToolParams = (options?: AIRequestOptions) => {
+  if (!options?.tools?.length) {
+    return {};
+  }
+  return { tools: toOpenAITools(options.tools), tool_choice: options.toolChoice || ("auto" as const) };
+};
+
+const getAnthropicToolCalls = (blocks: Anthropic.ContentBlock[]): AIResponse["toolCalls"] => {
+  const toolCalls = blocks.flatMap((block) =>
+    block.type === "tool_use"
+      ? [{ id: block.id, name: block.name, arguments: (block.input || {}) as Record<string, unknown> }]
+      : [],
+  );
+  return toolCalls.length > 0 ? toolCalls : undefined;
+};
+
+const getOpenAIToolCalls = (message?: OpenAI.ChatCompletionMessage): AIResponse["toolCalls"] => {
+  const toolCalls = (message?.tool_calls || []).map((call) =>
+    parseToolCall({ id: call.id, name: call.function.name, arguments: call.function.arguments }),
+  );
+  return toolCalls.length > 0 ? toolCalls : undefined;
+};
 
 /**
  * Get a text response from Anthropic
@@ -22,15 +77,19 @@ export const getAnthropicTextResponse = async (
     const client = getAnthropicClient();
     const defaultModel = "claude-3-5-sonnet-20240620";
 
-    const response = await client.messages.create({
-      model: options?.model || defaultModel,
-      messages: messages.map((msg) => ({
-        role: msg.role === "assistant" ? "assistant" : "user",
-        content: msg.content,
-      })),
-      max_tokens: options?.maxTokens || 2048,
-      temperature: options?.temperature || 0.7,
-    });
+    const { system, messages: turns } = toAnthropicMessages(messages, options?.systemPrompt);
+
+    const response = await client.messages.create(
+      {
+        model: options?.model || defaultModel,
+        system,
+        messages: turns,
+        max_tokens: options?.maxTokens || 2048,
+        temperature: options?.temperature ?? 0.7,
+        ...anthropicToolParams(options),
+      },
+      { signal: options?.signal },
+    );
 
     // Handle content blocks from the response
     const content = response.content.reduce((acc, block) => {
@@ -42,6 +101,7 @@ export const getAnthropicTextResponse = async (
 
     return {
       content,
+      toolCalls: getAnthropicToolCalls(response.content),
       usage: {
         promptTokens: response.usage?.input_tokens || 0,
         completionTokens: response.usage?.output_tokens || 0,
@@ -54,6 +114,62 @@ export const getAnthropicTextResponse = async (
   }
 };
 
+/**
+ * Stream a text response from Anthropic
+ * @param messages - The messages to send to the AI
+ * @param onToken - Called with each text delta as soon as it arrives
+ * @param options - The options for the request
+ * @returns The complete response, including usage, once the stream has ended
+ */
+export const streamAnthropicTextResponse = async (
+  messages: AIMessage[],
+  onToken: (token: string) => void,
+  options?: AIRequestOptions,
+): Promise<AIResponse> => {
+  try {
+    const client = getAnthropicClient();
+    const defaultModel = "claude-3-5-sonnet-20240620";
+
+    const { system, messages: turns } = toAnthropicMessages(messages, options?.systemPrompt);
+
+    const stream = client.messages.stream(
+      {
+        model: options?.model || defaultModel,
+        system,
+        messages: turns,
+        max_tokens: options?.maxTokens || 2048,
+        temperature: options?.temperature ?? 0.7,
+        ...anthropicToolParams(options),
+      },
+      { signal: options?.signal },
+    );
+
+    let content = "";
+    for await (const event of stream) {
+      if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        content += event.delta.text;
+        onToken(event.delta.text);
+      }
+    }
+
+    // Usage and tool calls are only final once the message_delta event has been received
+    const message = await stream.finalMessage();
+
+    return {
+      content,
+      toolCalls: getAnthropicToolCalls(message.content),
+      usage: {
+        promptTokens: message.usage?.input_tokens || 0,
+        completionTokens: message.usage?.output_tokens || 0,
+        totalTokens: (message.usage?.input_tokens || 0) + (message.usage?.output_tokens || 0),
+      },
+    };
+  } catch (error) {
+    console.error("Anthropic API Error:", error);
+    throw error;
+  }
+};
+
 /**
  * Get a simple chat response from Anthropic
  * @param prompt - The prompt to send to the AI
@@ -73,16 +189,22 @@ export const getOpenAITextResponse = async (messages: AIMessage[], options?: AIR
   try {
     const client = getOpenAIClient();
     const defaultModel = "gpt-4o"; //accepts images as well, use this for image analysis
+    const model = options?.model || defaultModel;
 
-    const response = await client.chat.completions.create({
-      model: options?.model || defaultModel,
-      messages: messages,
-      temperature: options?.temperature ?? 0.7,
-      max_tokens: options?.maxTokens || 2048,
-    });
+    const response = await client.chat.completions.create(
+      {
+        model,
+        messages: toOpenAIMessages(messages, options?.systemPrompt, openAITarget(model)),
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens || 2048,
+        ...openAIToolParams(options),
+      },
+      { signal: options?.signal },
+    );
 
     return {
       content: response.choices[0]?.message?.content || "",
+      toolCalls: getOpenAIToolCalls(response.choices[0]?.message),
       usage: {
         promptTokens: response.usage?.prompt_tokens || 0,
         completionTokens: response.usage?.completion_tokens || 0,
@@ -95,6 +217,131 @@ export const getOpenAITextResponse = async (messages: AIMessage[], options?: AIR
   }
 };
 
+/**
+ * Get a chat completion from an OpenAI-compatible client
+ * @param client - The OpenAI-compatible client to use
+ * @param model - The model to request
+ * @param messages - The messages to send to the AI
+ * @param options - The options for the request
+ * @param target - The media the model reads, text only unless given
+ * @returns The response from the AI
+ */
+export const getChatCompletion = async (
+  client: OpenAI,
+  model: string,
+  messages: AIMessage[],
+  options?: AIRequestOptions,
+  target: ContentTarget = { name: model, media: TEXT_ONLY },
+): Promise<AIResponse> => {
+  const response = await client.chat.completions.create(
+    {
+      model,
+      messages: toOpenAIMessages(messages, options?.systemPrompt, target),
+      temperature: options?.temperature ?? 0.7,
+      max_tokens: options?.maxTokens || 2048,
+      ...openAIToolParams(options),
+    },
+    { signal: options?.signal },
+  );
+
+  return {
+    content: response.choices[0]?.message?.content || "",
+    toolCalls: getOpenAIToolCalls(response.choices[0]?.message),
+    usage: {
+      promptTokens: response.usage?.prompt_tokens || 0,
+      completionTokens: response.usage?.completion_tokens || 0,
+      totalTokens: response.usage?.total_tokens || 0,
+    },
+  };
+};
+
+/**
+ * Stream a chat completion from an OpenAI-compatible client
+ * @param client - The OpenAI-compatible client to use
+ * @param model - The model to request
+ * @param messages - The messages to send to the AI
+ * @param onToken - Called with each text delta as soon as it arrives
+ * @param options - The options for the request
+ * @param target - The media the model reads, text only unless given
+ * @returns The complete response, including usage, once the stream has ended
+ */
+export const streamChatCompletion = async (
+  client: OpenAI,
+  model: string,
+  messages: AIMessage[],
+  onToken: (token: string) => void,
+  options?: AIRequestOptions,
+  target: ContentTarget = { name: model, media: TEXT_ONLY },
+): Promise<AIResponse> => {
+  const stream = await client.chat.completions.create(
+    {
+      model,
+      messages: toOpenAIMessages(messages, options?.systemPrompt, target),
+      temperature: options?.temperature ?? 0.7,
+      max_tokens: options?.maxTokens || 2048,
+      stream: true,
+      stream_options: { include_usage: true },
+      ...openAIToolParams(options),
+    },
+    { signal: options?.signal },
+  );
+
+  let content = "";
+  let usage: AIResponse["usage"];
+  // Tool calls arrive in fragments, keyed by their index in the message
+  const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      onToken(delta);
+    }
+
+    chunk.choices[0]?.delta?.tool_calls?.forEach((fragment) => {
+      const call = (toolCalls[fragment.index] ??= { id: "", name: "", arguments: "" });
+      call.id = fragment.id || call.id;
+      call.name += fragment.function?.name || "";
+      call.arguments += fragment.function?.arguments || "";
+    });
+
+    // The usage chunk is sent last, with an empty choices array
+    if (chunk.usage) {
+      usage = {
+        promptTokens: chunk.usage.prompt_tokens || 0,
+        completionTokens: chunk.usage.completion_tokens || 0,
+        totalTokens: chunk.usage.total_tokens || 0,
+      };
+    }
+  }
+
+  return {
+    content,
+    toolCalls: toolCalls.length > 0 ? toolCalls.filter(Boolean).map(parseToolCall) : undefined,
+    usage,
+  };
+};
+
+/**
+ * Stream a text response from OpenAI
+ * @param messages - The messages to send to the AI
+ * @param onToken - Called with each text delta as soon as it arrives
+ * @param options - The options for the request
+ * @returns The complete response, including usage, once the stream has ended
+ */
+export const streamOpenAITextResponse = async (
+  messages: AIMessage[],
+  onToken: (token: string) => void,
+  options?: AIRequestOptions,
+): Promise<AIResponse> => {
+  try {
+    const model = options?.model || "gpt-4o";
+    return await streamChatCompletion(getOpenAIClient(), model, messages, onToken, options, openAITarget(model));
+  } catch (error) {
+    console.error("OpenAI API Error:", error);
+    throw error;
+  }
+};
+
 /**
  * Get a simple chat response from OpenAI
  * @param prompt - The prompt to send to the AI
@@ -114,16 +361,22 @@ export const getGrokTextResponse = async (messages: AIMessage[], options?: AIReq
   try {
     const client = getGrokClient();
     const defaultModel = "grok-3-beta";
+    const model = options?.model || defaultModel;
 
-    const response = await client.chat.completions.create({
-      model: options?.model || defaultModel,
-      messages: messages,
-      temperature: options?.temperature ?? 0.7,
-      max_tokens: options?.maxTokens || 2048,
-    });
+    const response = await client.chat.completions.create(
+      {
+        model,
+        messages: toOpenAIMessages(messages, options?.systemPrompt, grokTarget(model)),
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens || 2048,
+        ...openAIToolParams(options),
+      },
+      { signal: options?.signal },
+    );
 
     return {
       content: response.choices[0]?.message?.content || "",
+      toolCalls: getOpenAIToolCalls(response.choices[0]?.message),
       usage: {
         promptTokens: response.usage?.prompt_tokens || 0,
         completionTokens: response.usage?.completion_tokens || 0,
@@ -136,6 +389,27 @@ export const getGrokTextResponse = async (messages: AIMessage[], options?: AIReq
   }
 };
 
+/**
+ * Stream a text response from Grok
+ * @param messages - The messages to send to the AI
+ * @param onToken - Called with each text delta as soon as it arrives
+ * @param options - The options for the request
+ * @returns The complete response, including usage, once the stream has ended
+ */
+export const streamGrokTextResponse = async (
+  messages: AIMessage[],
+  onToken: (token: string) => void,
+  options?: AIRequestOptions,
+): Promise<AIResponse> => {
+  try {
+    const model = options?.model || "grok-3-beta";
+    return await streamChatCompletion(getGrokClient(), model, messages, onToken, options, grokTarget(model));
+  } catch (error) {
+    console.error("Grok API Error:", error);
+    throw error;
+  }
+};
+
 /**
  * Get a simple chat response from Grok
  * @param prompt - The prompt to send to the AI
@@ -8,15 +8,20 @@ grok-3-latest
 grok-3-fast-latest
 grok-3-mini-latest
 */
+import { fetch } from "expo/fetch";
 import OpenAI from "openai";
+import EgressGuard from "../services/EgressGuard";
 
 export const getGrokClient = () => {
+  EgressGuard.getInstance().assertAllowed({ destination: "cloud_llm", target: "https://api.x.ai" });
   const apiKey = process.env.EXPO_PUBLIC_VIBECODE_GROK_API_KEY;
   if (!apiKey) {
     console.warn("Grok API key not found in environment variables");
   }
   return new OpenAI({
     apiKey: apiKey,
+    // expo/fetch exposes the response body as a stream, which streaming responses require
+    fetch: fetch as unknown as typeof globalThis.fetch,
     baseURL: "https://api.x.ai/v1",
   });
 };
@@ -5,6 +5,7 @@ You may update this service, but you should not need to.
 This endpoint uses openai's latest image generation API, AKA gpt4o, AKA gpt-image-1, so if the user is asking for that, this is the right service to use.
 Does not support video and audio generation.
 */
+import EgressGuard from "../services/EgressGuard";
 
 // API endpoint configuration
 const baseUrl = "https://api.vibecodeapp.com";
@@ -26,6 +27,8 @@ export async function generateImage(
   }
 ): Promise<string> {
   try {
+    EgressGuard.getInstance().assertAllowed({ destination: "image_generation", target: baseUrl });
+
     // Create request body
     const requestBody = {
       projectId: process.env.EXPO_PUBLIC_VIBECODE_PROJECT_ID,
@@ -0,0 +1,20 @@
+/*
+Client for a user-configured OpenAI-compatible server running on the device or the local network,
+such as the llama.cpp server, Ollama or LM Studio. The base URL usually ends with /v1,
+for example http://192.168.1.20:8080/v1
+*/
+import { fetch } from "expo/fetch";
+import OpenAI from "openai";
+import EgressGuard from "../services/EgressGuard";
+
+export const getLocalEndpointClient = (baseURL: string, apiKey?: string) => {
+  // Refused in strict local mode when the configured address is not on the local network
+  EgressGuard.getInstance().assertAllowed({ destination: "local_network", target: baseURL });
+  return new OpenAI({
+    // Local servers generally ignore the key, but the SDK refuses to start without one
+    apiKey: apiKey || "local",
+    baseURL,
+    // expo/fetch exposes the response body as a stream, which streaming responses require
+    fetch: fetch as unknown as typeof globalThis.fetch,
+  });
+};
@@ -0,0 +1,389 @@
+/*
+Conversion of AIMessage sequences into the shape each chat API expects.
+Anthropic takes the system prompt as a separate parameter and requires strictly alternating
+user/assistant turns starting with a user turn; OpenAI-compatible APIs take system messages
+inline, but only before the conversation. Media parts are serialized into each API's content
+blocks, or rejected when the target model cannot read them. Tool calls and results map to
+Anthropic's tool_use/tool_result blocks and to OpenAI's tool_calls and "tool" messages.
+*/
+import type Anthropic from "@anthropic-ai/sdk";
+import type OpenAI from "openai";
+import { AIContentPart, AIMediaType, AIMessage, AIToolCall, AIToolDefinition } from "../types/ai";
+
+export type ChatMessageFormat = "anthropic" | "openai";
+
+export type MediaSupport = Record<AIMediaType, boolean>;
+
+export const TEXT_ONLY: MediaSupport = { image: false, audio: false };
+
+// The model a request is meant for, named in capability errors
+export interface ContentTarget {
+  name: string;
+  media: MediaSupport;
+}
+
+const ANTHROPIC_TARGET: ContentTarget = { name: "Anthropic", media: { image: true, audio: false } };
+
+export class MessageSequenceError extends Error {
+  constructor(
+    message: string,
+    public readonly format: ChatMessageFormat,
+  ) {
+    super(`Invalid ${format} message sequence: ${message}`);
+    this.name = "MessageSequenceError";
+  }
+}
+
+export class UnsupportedContentError extends Error {
+  constructor(
+    public readonly partType: AIMediaType,
+    public readonly target: string,
+    detail?: string,
+  ) {
+    super(`${target} cannot read ${partType} content${detail ? ` (${detail})` : ""}`);
+    this.name = "UnsupportedContentError";
+  }
+}
+
+type ConversationMessage = AIMessage & { role: "user" | "assistant" };
+
+/**
+ * Get message content as a list of parts
+ * @param content - Plain text or parts
+ * @returns The parts, a single text part for plain text
+ */
+export const toContentParts = (content: AIMessage["content"]): AIContentPart[] => {
+  return typeof content === "string" ? [{ type: "text", text: content }] : content;
+};
+
+/**
+ * Get the text of message content, leaving out media parts
+ * @param content - Plain text or parts
+ * @returns The text parts joined by blank lines
+ */
+export const getMessageText = (content: AIMessage["content"]): string => {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content
+    .filter((part): part is Extract<AIContentPart, { type: "text" }> => part.type === "text")
+    .map((part) => part.text)
+    .join("\n\n");
+};
+
+/**
+ * List the kinds of media a conversation contains
+ * @param messages - The messages to inspect
+ * @returns Each media type found, once
+ */
+export const getMediaTypes = (messages: AIMessage[]): AIMediaType[] => {
+  const types = new Set<AIMediaType>();
+  messages.forEach((msg) => {
+    toContentParts(msg.content).forEach((part) => {
+      if (part.type === "image" || part.type === "audio") {
+        types.add(part.type);
+      }
+    });
+  });
+  return Array.from(types);
+};
+
+const isEmptyContent = (content: AIMessage["content"]): boolean => {
+  return toContentParts(content).every((part) => part.type === "text" && part.text.trim().length === 0);
+};
+
+const isRemoteUri = (uri?: string): uri is string => !!uri && /^https?:\/\//i.test(uri);
+
+/**
+ * Collect every system message, plus an optional extra system prompt, into one system prompt
+ * @param messages - The messages to split
+ * @param systemPrompt - An additional system prompt, placed first
+ * @returns The system prompt, if any, and the remaining conversation turns
+ */
+export const extractSystemPrompt = (
+  messages: AIMessage[],
+  systemPrompt?: string,
+): { system?: string; turns: ConversationMessage[] } => {
+  const systemParts = [
+    systemPrompt,
+    ...messages.filter((msg) => msg.role === "system").map((msg) => getMessageText(msg.content)),
+  ].filter((part): part is string => !!part && part.trim().length > 0);
+
+  return {
+    system: systemParts.length > 0 ? systemParts.join("\n\n") : undefined,
+    turns: messages.filter((msg): msg is ConversationMessage => msg.role !== "system"),
+  };
+};
+
+/**
+ * Remove tool results whose call is no longer in the conversation, e.g. after context trimming
+ * @param messages - The conversation turns
+ * @returns The turns without orphaned tool results
+ */
+export const dropOrphanToolResults = <T extends AIMessage>(messages: T[]): T[] => {
+  const callIds = new Set<string>();
+  return messages.map((msg) => {
+    if (typeof msg.content === "string") {
+      return msg;
+    }
+    msg.content.forEach((part) => {
+      if (part.type === "tool_call") {
+        callIds.add(part.id);
+      }
+    });
+    const content = msg.content.filter((part) => part.type !== "tool_result" || callIds.has(part.callId));
+    return content.length === msg.content.length ? msg : { ...msg, content };
+  });
+};
+
+/**
+ * Join consecutive turns of the same role, and drop empty turns
+ * @param messages - The conversation turns
+ * @returns Turns where no two neighbours share a role
+ */
+export const mergeConsecutiveTurns = <T extends AIMessage>(messages: T[]): T[] => {
+  return messages.reduce<T[]>((merged, msg) => {
+    if (isEmptyContent(msg.content)) {
+      return merged;
+    }
+
+    const previous = merged[merged.length - 1];
+    if (previous && previous.role === msg.role) {
+      const content =
+        typeof previous.content === "string" && typeof msg.content === "string"
+          ? `${previous.content}\n\n${msg.content}`
+          : [...toContentParts(previous.content), ...toContentParts(msg.content)];
+      merged[merged.length - 1] = { ...previous, content };
+    } else {
+      merged.push(msg);
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Check that a sequence is accepted by the given API
+ * @param messages - The messages as they will be sent, system prompt excluded for Anthropic
+ * @param format - The API the messages are meant for
+ * @throws MessageSequenceError describing the first problem found
+ */
+export const validateMessageSequence = (messages: AIMessage[], format: ChatMessageFormat): void => {
+  const turns = messages.filter((msg) => msg.role !== "system");
+  if (turns.length === 0) {
+    throw new MessageSequenceError("at least one user or assistant message is required", format);
+  }
+
+  messages.forEach((msg, index) => {
+    if (isEmptyContent(msg.content)) {
+      throw new MessageSequenceError(`message ${index} is empty`, format);
+    }
+  });
+
+  if (format === "anthropic") {
+    if (messages.some((msg) => msg.role === "system")) {
+      throw new MessageSequenceError("system prompts must use the system parameter", format);
+    }
+    if (messages[0].role !== "user") {
+      throw new MessageSequenceError("the first message must come from the user", format);
+    }
+    messages.forEach((msg, index) => {
+      if (index > 0 && messages[index - 1].role === msg.role) {
+        throw new MessageSequenceError(`messages ${index - 1} and ${index} are both ${msg.role} turns`, format);
+      }
+    });
+    return;
+  }
+
+  const firstTurn = messages.findIndex((msg) => msg.role !== "system");
+  if (messages.slice(firstTurn).some((msg) => msg.role === "system")) {
+    throw new MessageSequenceError("system messages must come before the conversation", format);
+  }
+};
+
+const toAnthropicBlock = (part: AIContentPart): Anthropic.ContentBlockParam => {
+  if (part.type === "text") {
+    return { type: "text", text: part.text };
+  }
+  if (part.type === "tool_call") {
+    return { type: "tool_use", id: part.id, name: part.name, input: part.arguments };
+  }
+  if (part.type === "tool_result") {
+    return { type: "tool_result", tool_use_id: part.callId, content: part.content, is_error: part.isError };
+  }
+  if (!ANTHROPIC_TARGET.media[part.type]) {
+    throw new UnsupportedContentError(part.type, ANTHROPIC_TARGET.name);
+  }
+  if (part.type === "image" && part.base64) {
+    return { type: "image", source: { type: "base64", media_type: part.mediaType, data: part.base64 } };
+  }
+  if (part.type === "image" && isRemoteUri(part.uri)) {
+    return { type: "image", source: { type: "url", url: part.uri } };
+  }
+  throw new UnsupportedContentError(part.type, ANTHROPIC_TARGET.name, "base64 data or an http(s) URL is required");
+};
+
+const toOpenAIPart = (
+  part: Exclude<AIContentPart, { type: "tool_call" | "tool_result" }>,
+  target: ContentTarget,
+): OpenAI.ChatCompletionContentPart => {
+  if (part.type === "text") {
+    return { type: "text", text: part.text };
+  }
+  if (!target.media[part.type]) {
+    throw new UnsupportedContentError(part.type, target.name);
+  }
+  if (part.type === "image" && (part.base64 || isRemoteUri(part.uri))) {
+    return {
+      type: "image_url",
+      image_url: { url: part.base64 ? `data:${part.mediaType};base64,${part.base64}` : part.uri! },
+    };
+  }
+  if (part.type === "audio" && part.base64 && part.mediaType !== "audio/mp4") {
+    return {
+      type: "input_audio",
+      input_audio: { data: part.base64, format: part.mediaType === "audio/wav" ? "wav" : "mp3" },
+    };
+  }
+  throw new UnsupportedContentError(
+    part.type,
+    target.name,
+    part.type === "image" ? "base64 data or an http(s) URL is required" : "base64 WAV or MP3 data is required",
+  );
+};
+
+/**
+ * Build the system parameter and message list of an Anthropic request
+ * @param messages - The messages to send to the AI
+ * @param systemPrompt - An additional system prompt
+ * @returns The system prompt and validated, alternating turns
+ */
+export const toAnthropicMessages = (
+  messages: AIMessage[],
+  systemPrompt?: string,
+): { system?: string; messages: Anthropic.MessageParam[] } => {
+  const { system, turns } = extractSystemPrompt(messages, systemPrompt);
+  const merged = mergeConsecutiveTurns(dropOrphanToolResults(turns));
+
+  // A greeting or other assistant turn opening the chat cannot be sent first
+  const firstUserTurn = merged.findIndex((msg) => msg.role === "user");
+  const conversation = firstUserTurn > 0 ? merged.slice(firstUserTurn) : merged;
+
+  validateMessageSequence(conversation, "anthropic");
+  return {
+    system,
+    messages: conversation.map((msg) => ({
+      role: msg.role,
+      content: typeof msg.content === "string" ? msg.content : msg.content.map(toAnthropicBlock),
+    })),
+  };
+};
+
+/**
+ * Build the message list of an OpenAI-compatible request
+ * @param messages - The messages to send to the AI
+ * @param systemPrompt - An additional system prompt
+ * @param target - The model the request is meant for and the media it reads
+ * @returns A single leading system message, if any, followed by merged turns
+ */
+export const toOpenAIMessages = (
+  messages: AIMessage[],
+  systemPrompt?: string,
+  target: ContentTarget = { name: "OpenAI", media: { image: true, audio: false } },
+): OpenAI.ChatCompletionMessageParam[] => {
+  const { system, turns } = extractSystemPrompt(messages, systemPrompt);
+  const conversation: AIMessage[] = [
+    ...(system ? [{ role: "system" as const, content: system }] : []),
+    ...mergeConsecutiveTurns(dropOrphanToolResults(turns)),
+  ];
+
+  validateMessageSequence(conversation, "openai");
+  return conversation.flatMap((msg): OpenAI.ChatCompletionMessageParam[] => {
+    if (msg.role === "system") {
+      return [{ role: "system", content: getMessageText(msg.content) }];
+    }
+
+    const parts = toContentParts(msg.content);
+    if (msg.role === "assistant") {
+      // Only user turns carry media
+      const toolCalls = parts.flatMap((part) => (part.type === "tool_call" ? [part] : []));
+      const text = getMessageText(msg.content);
+      if (toolCalls.length === 0) {
+        return [{ role: "assistant", content: text }];
+      }
+      return [
+        {
+          role: "assistant",
+          content: text || null,
+          tool_calls: toolCalls.map((call) => ({
+            id: call.id,
+            type: "function",
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        },
+      ];
+    }
+
+    // Each tool result is its own "tool" message, answering the assistant turn before it
+    const toolMessages = parts.flatMap((part): OpenAI.ChatCompletionToolMessageParam[] =>
+      part.type === "tool_result" ? [{ role: "tool", tool_call_id: part.callId, content: part.content }] : [],
+    );
+    const userParts = parts.flatMap((part) => (part.type === "tool_call" || part.type === "tool_result" ? [] : [part]));
+    if (isEmptyContent(userParts)) {
+      return toolMessages;
+    }
+    return [
+      ...toolMessages,
+      {
+        role: "user",
+        content: typeof msg.content === "string" ? msg.content : userParts.map((part) => toOpenAIPart(part, target)),
+      },
+    ];
+  });
+};
+
+/**
+ * Describe tools in the shape of Anthropic's tools parameter
+ * @param tools - The tools the model may call
+ * @returns The tool definitions
+ */
+export const toAnthropicTools = (tools: AIToolDefinition[]): Anthropic.Tool[] => {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+  }));
+};
+
+/**
+ * Describe tools in the shape of OpenAI's tools parameter
+ * @param tools - The tools the model may call
+ * @returns The function tool definitions
+ */
+export const toOpenAITools = (tools: AIToolDefinition[]): OpenAI.ChatCompletionTool[] => {
+  return tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters as unknown as Record<string, unknown>,
+    },
+  }));
+};
+
+/**
+ * Parse the JSON arguments of a tool call
+ * @param call - The call's id and name, and its arguments as sent by the model
+ * @returns The call, with arguments that are not a JSON object replaced by an empty object
+ */
+export const parseToolCall = (call: { id: string; name: string; arguments: string }): AIToolCall => {
+  try {
+    const parsed = call.arguments ? JSON.parse(call.arguments) : {};
+    return {
+      id: call.id,
+      name: call.name,
+      arguments: parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {},
+    };
+  } catch {
+    return { id: call.id, name: call.name, arguments: {} };
+  }
+};
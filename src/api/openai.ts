@@ -7,14 +7,19 @@ gpt-4.1-2025-04-14
 o4-mini-2025-04-16
 gpt-4o-2024-11-20
 */
+import { fetch } from "expo/fetch";
 import OpenAI from "openai";
+import EgressGuard from "../services/EgressGuard";
 
 export const getOpenAIClient = () => {
+  EgressGuard.getInstance().assertAllowed({ destination: "cloud_llm", target: "https://api.openai.com" });
   const apiKey = process.env.EXPO_PUBLIC_VIBECODE_OPENAI_API_KEY;
   if (!apiKey) {
     console.warn("OpenAI API key not found in environment variables");
   }
   return new OpenAI({
     apiKey: apiKey,
+    // expo/fetch exposes the response body as a stream, which streaming responses require
+    fetch: fetch as unknown as typeof globalThis.fetch,
   });
 };
@@ -3,6 +3,7 @@ IMPORTANT NOTICE: DO NOT REMOVE
 This is a custom audio transcription service that uses a custom API endpoint maintained by Vibecode.
 You can use this function to transcribe audio files, and it will return the text of the audio file.
 */
+import EgressGuard from "../services/EgressGuard";
 
 /**
  * Transcribe an audio file
@@ -11,6 +12,9 @@ You can use this function to transcribe audio files, and it will return the text
  */
 export const transcribeAudio = async (localAudioUri: string) => {
   try {
+    // Recordings are sent to OpenAI, which strict local mode forbids
+    EgressGuard.getInstance().assertAllowed({ destination: "transcription", target: "https://api.openai.com" });
+
     // Create FormData for the audio file
     const formData = new FormData();
     formData.append("file", {
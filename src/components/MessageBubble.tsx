@@ -1,5 +1,5 @@
 import React from 'react';
-import { View, Text } from 'react-native';
+import { View, Text, Image } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { AssistantMessage } from '../types/core';
 
@@ -27,6 +27,19 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isStreami
               : 'bg-gray-100 rounded-bl-sm'
           }`}
         >
+          {message.attachments?.map(attachment => (
+            <Image
+              key={attachment.id}
+              source={{ uri: attachment.uri }}
+              style={{
+                width: 200,
+                height: Math.round((200 * attachment.height) / attachment.width),
+                borderRadius: 12,
+                marginBottom: message.content ? 8 : 0
+              }}
+            />
+          ))}
+
           <Text
             className={`text-base leading-5 ${
               isUser ? 'text-white' : 'text-gray-900'
@@ -43,6 +56,13 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isStreami
               <View className="w-2 h-2 bg-gray-400 rounded-full animate-pulse" />
             </View>
           )}
+          
+          {message.interrupted && (
+            <View className="flex-row items-center mt-2">
+              <Ionicons name="stop-circle" size={12} color="#9CA3AF" />
+              <Text className="text-xs text-gray-500 ml-1">Réponse interrompue</Text>
+            </View>
+          )}
         </View>
         
         {isUser && (
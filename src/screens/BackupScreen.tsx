@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, Pressable, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import BackupService, {
+  BackupError,
+  BackupErrorReason,
+  MIN_PASSPHRASE_LENGTH,
+  OpenedBackup,
+  PartialRestoreError,
+  RestoredPart,
+} from '../services/BackupService';
+import { BackupSummary, RestoreMode } from '../types/service';
+
+interface BackupScreenProps {
+  onClose: () => void;
+}
+
+const BACKUP_ERROR_MESSAGES: Record<BackupErrorReason, string> = {
+  authentication_failed: 'Confirmation biométrique refusée',
+  weak_passphrase: `La phrase de passe doit contenir au moins ${MIN_PASSPHRASE_LENGTH} caractères`,
+  invalid_archive: "Ce fichier n'est pas une sauvegarde valide",
+  unsupported_version: "Cette sauvegarde vient d'une version plus récente de l'application",
+  wrong_passphrase: 'Phrase de passe incorrecte ou sauvegarde endommagée',
+  sharing_unavailable: "Le partage n'est pas disponible sur cet appareil",
+  partial_restore: 'La restauration a été interrompue',
+};
+
+const RESTORED_PART_LABELS: Record<RestoredPart, string> = {
+  conversations: 'conversations',
+  memories: 'mémoires',
+  flagOverrides: 'fonctionnalités',
+  settings: 'réglages',
+  auditEvents: "journal d'audit",
+};
+
+const RESTORE_MODES: Array<{ value: RestoreMode; label: string; description: string }> = [
+  { value: 'merge', label: 'Fusionner', description: 'Ajoute les données absentes de cet appareil' },
+  { value: 'replace', label: 'Remplacer', description: 'Remplace les mémoires, réglages et conversations' },
+];
+
+const formatSummary = (summary: BackupSummary) =>
+  `${summary.memories} mémoires, ${summary.conversations} conversations (${summary.messages} messages), ${summary.auditEvents} événements d'audit`;
+
+export const BackupScreen: React.FC<BackupScreenProps> = ({ onClose }) => {
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportConfirmation, setExportConfirmation] = useState('');
+  const [backupUri, setBackupUri] = useState<string | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [openedBackup, setOpenedBackup] = useState<OpenedBackup | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [busyMessage, setBusyMessage] = useState<string | null>(null);
+
+  const backupService = BackupService.getInstance();
+
+  const showError = (error: unknown) => {
+    console.error('Backup operation failed:', error);
+    if (error instanceof PartialRestoreError) {
+      Alert.alert(
+        "Restauration incomplète",
+        `Données restaurées : ${error.restored.map(part => RESTORED_PART_LABELS[part]).join(', ')}. Relancez la restauration pour restaurer le reste.`
+      );
+      return;
+    }
+    Alert.alert(
+      "Erreur",
+      error instanceof BackupError ? BACKUP_ERROR_MESSAGES[error.reason] : "L'opération a échoué"
+    );
+  };
+
+  const createBackup = async () => {
+    if (exportPassphrase !== exportConfirmation) {
+      Alert.alert("Erreur", "Les phrases de passe ne correspondent pas");
+      return;
+    }
+
+    setBusyMessage('Chiffrement de la sauvegarde...');
+    try {
+      const summary = await backupService.createBackup(exportPassphrase);
+      setExportPassphrase('');
+      setExportConfirmation('');
+      Alert.alert("Sauvegarde créée", formatSummary(summary));
+    } catch (error) {
+      showError(error);
+    } finally {
+      setBusyMessage(null);
+    }
+  };
+
+  const pickBackup = async () => {
+    try {
+      const uri = await backupService.pickBackupFile();
+      if (uri) {
+        setBackupUri(uri);
+        setOpenedBackup(null);
+      }
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const openBackup = async () => {
+    if (!backupUri) return;
+
+    setBusyMessage('Déchiffrement de la sauvegarde...');
+    try {
+      setOpenedBackup(await backupService.openBackup(backupUri, importPassphrase));
+    } catch (error) {
+      showError(error);
+    } finally {
+      setBusyMessage(null);
+    }
+  };
+
+  const restoreBackup = async () => {
+    if (!openedBackup) return;
+
+    setBusyMessage('Restauration...');
+    try {
+      const restored = await backupService.restoreBackup(openedBackup, restoreMode);
+      setBackupUri(null);
+      setImportPassphrase('');
+      setOpenedBackup(null);
+      Alert.alert("Restauration terminée", `Ajoutés : ${formatSummary(restored)}`);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setBusyMessage(null);
+    }
+  };
+
+  const confirmRestore = () => {
+    if (restoreMode === 'merge') {
+      restoreBackup();
+      return;
+    }
+
+    Alert.alert(
+      "Remplacer les données",
+      "Les mémoires, les réglages et les conversations de cet appareil seront remplacés par ceux de la sauvegarde. Le journal d'audit est conservé.",
+      [
+        { text: "Annuler", style: "cancel" },
+        { text: "Remplacer", style: "destructive", onPress: restoreBackup },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-white">
+      <View className="flex-row items-center justify-between px-4 py-3 border-b border-gray-200">
+        <Text className="text-xl font-bold text-gray-900">Sauvegarde</Text>
+        <Pressable onPress={onClose} className="p-2">
+          <Ionicons name="close" size={24} color="#6B7280" />
+        </Pressable>
+      </View>
+
+      <ScrollView className="flex-1" keyboardShouldPersistTaps="handled">
+        {/* Export */}
+        <View className="mt-6 px-4">
+          <Text className="text-lg font-semibold text-gray-900 mb-2">Exporter</Text>
+          <Text className="text-sm text-gray-600 mb-4">
+            Mémoires, journal d'audit, réglages et conversations, chiffrés avec une phrase de passe.
+            Sans elle, la sauvegarde est irrécupérable.
+          </Text>
+          <TextInput
+            value={exportPassphrase}
+            onChangeText={setExportPassphrase}
+            placeholder="Phrase de passe"
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            className="bg-gray-100 rounded-lg px-3 py-2 text-gray-900 mb-2"
+          />
+          <TextInput
+            value={exportConfirmation}
+            onChangeText={setExportConfirmation}
+            placeholder="Confirmer la phrase de passe"
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            className="bg-gray-100 rounded-lg px-3 py-2 text-gray-900 mb-3"
+          />
+          <Pressable
+            onPress={createBackup}
+            disabled={!!busyMessage || exportPassphrase.length < MIN_PASSPHRASE_LENGTH}
+            className={`flex-row items-center justify-center py-3 rounded-xl bg-blue-500 ${
+              busyMessage || exportPassphrase.length < MIN_PASSPHRASE_LENGTH ? 'opacity-50' : ''
+            }`}
+          >
+            <Ionicons name="share-outline" size={18} color="#FFFFFF" />
+            <Text className="text-white font-bold ml-2">Créer une sauvegarde</Text>
+          </Pressable>
+        </View>
+
+        {/* Import */}
+        <View className="mt-8 px-4 pb-8">
+          <Text className="text-lg font-semibold text-gray-900 mb-2">Restaurer</Text>
+          <Pressable
+            onPress={pickBackup}
+            disabled={!!busyMessage}
+            className="flex-row items-center bg-gray-100 rounded-lg px-3 py-3 mb-2"
+          >
+            <Ionicons name="document-outline" size={18} color="#6B7280" />
+            <Text className="text-gray-900 ml-2 flex-1" numberOfLines={1}>
+              {backupUri ? backupUri.split('/').pop() : 'Choisir un fichier de sauvegarde'}
+            </Text>
+          </Pressable>
+
+          {backupUri && !openedBackup && (
+            <>
+              <TextInput
+                value={importPassphrase}
+                onChangeText={setImportPassphrase}
+                placeholder="Phrase de passe de la sauvegarde"
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                className="bg-gray-100 rounded-lg px-3 py-2 text-gray-900 mb-3"
+              />
+              <Pressable
+                onPress={openBackup}
+                disabled={!!busyMessage || importPassphrase.length === 0}
+                className={`py-3 rounded-xl bg-blue-500 items-center ${
+                  busyMessage || importPassphrase.length === 0 ? 'opacity-50' : ''
+                }`}
+              >
+                <Text className="text-white font-bold">Ouvrir la sauvegarde</Text>
+              </Pressable>
+            </>
+          )}
+
+          {openedBackup && (
+            <View>
+              <View className="bg-gray-50 rounded-lg p-3 mb-3">
+                <Text className="text-sm font-medium text-gray-900">
+                  Sauvegarde du {new Date(openedBackup.summary.createdAt).toLocaleString('fr-FR')}
+                </Text>
+                <Text className="text-sm text-gray-600 mt-1">{formatSummary(openedBackup.summary)}</Text>
+              </View>
+
+              {RESTORE_MODES.map(mode => (
+                <Pressable
+                  key={mode.value}
+                  onPress={() => setRestoreMode(mode.value)}
+                  className={`p-3 rounded-lg mb-2 border ${
+                    restoreMode === mode.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                  }`}
+                >
+                  <Text className="font-medium text-gray-900">{mode.label}</Text>
+                  <Text className="text-xs text-gray-600">{mode.description}</Text>
+                </Pressable>
+              ))}
+
+              <Pressable
+                onPress={confirmRestore}
+                disabled={!!busyMessage}
+                className={`py-3 rounded-xl items-center mt-1 ${
+                  restoreMode === 'replace' ? 'bg-red-500' : 'bg-blue-500'
+                } ${busyMessage ? 'opacity-50' : ''}`}
+              >
+                <Text className="text-white font-bold">Restaurer</Text>
+              </Pressable>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+
+      {busyMessage && (
+        <View className="flex-row items-center justify-center py-3 border-t border-gray-200">
+          <ActivityIndicator size="small" color="#3B82F6" />
+          <Text className="text-sm text-gray-600 ml-2">{busyMessage}</Text>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+};
@@ -1,33 +1,53 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { View, Text, TextInput, Pressable, ScrollView, KeyboardAvoidingView, Platform, Alert } from 'react-native';
+import { View, Text, TextInput, Pressable, ScrollView, KeyboardAvoidingView, Platform, Alert, Image } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import * as Crypto from 'expo-crypto';
 import { useAppStore } from '../state/appState';
 import { AssistantService } from '../services/AssistantService';
 import { AuthenticationService } from '../services/AuthenticationService';
-import { AssistantMessage } from '../types/core';
+import AttachmentService, { ImageSource } from '../services/AttachmentService';
+import PluginService, { PLUGIN_PERMISSION_LABELS } from '../services/PluginService';
+import { ConversationService, titleFromMessage } from '../services/ConversationService';
+import ConversationSummarizer from '../services/ConversationSummarizer';
+import { AssistantMessage, MessageAttachment } from '../types/core';
 import { MessageBubble } from '../components/MessageBubble';
 import { DemoNotice } from '../components/DemoNotice';
 import { AppInfo } from '../components/AppInfo';
 
-export const ChatScreen: React.FC<{ onShowSettings: () => void }> = ({ onShowSettings }) => {
+interface ChatScreenProps {
+  onShowSettings: () => void;
+  onShowConversations: () => void;
+}
+
+export const ChatScreen: React.FC<ChatScreenProps> = ({ onShowSettings, onShowConversations }) => {
   const [inputText, setInputText] = useState('');
   const [isRecording, setIsRecording] = useState(false);
+  const [attachment, setAttachment] = useState<MessageAttachment | null>(null);
   const scrollViewRef = useRef<ScrollView>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Apologies shown for failed turns, kept out of the title and summary of the conversation
+  const failedMessageIds = useRef(new Set<string>());
   
   const {
+    activeConversationId,
     messages,
     isGenerating,
     isAuthenticated,
     ttsEnabled,
     addMessage,
     updateLastMessage,
+    markLastMessageInterrupted,
+    openConversation,
+    setActiveConversationId,
+    startNewConversation,
     setGenerating,
     setAuthenticated
   } = useAppStore();
 
   const assistantService = AssistantService.getInstance();
   const authService = AuthenticationService.getInstance();
+  const conversationService = ConversationService.getInstance();
 
   useEffect(() => {
     // Auto-scroll to bottom when new messages arrive
@@ -43,6 +63,30 @@ export const ChatScreen: React.FC<{ onShowSettings: () => void }> = ({ onShowSet
     checkAuthentication();
   }, []);
 
+  useEffect(() => {
+    // Reopen the conversation that was active when the app was closed
+    if (isAuthenticated && activeConversationId && messages.length === 0) {
+      restoreConversation(activeConversationId);
+    }
+  }, [isAuthenticated, activeConversationId]);
+
+  useEffect(() => {
+    // Plugins ask for their permissions the first time one of their intents is used
+    const pluginService = PluginService.getInstance();
+    pluginService.setConsentPrompt(({ plugin, permissions }) => new Promise(resolve => {
+      Alert.alert(
+        `Autoriser « ${plugin.name} » ?`,
+        `Ce plugin demande les permissions suivantes :\n${permissions.map(permission => `• ${PLUGIN_PERMISSION_LABELS[permission]}`).join('\n')}`,
+        [
+          { text: "Refuser", style: "cancel", onPress: () => resolve(false) },
+          { text: "Autoriser", onPress: () => resolve(true) }
+        ],
+        { cancelable: false }
+      );
+    }));
+    return () => pluginService.setConsentPrompt(null);
+  }, []);
+
   const checkAuthentication = async () => {
     if (!isAuthenticated) {
       const result = await authService.authenticate("Déverrouiller monVOX pour accéder à vos conversations");
@@ -58,8 +102,35 @@ export const ChatScreen: React.FC<{ onShowSettings: () => void }> = ({ onShowSet
     }
   };
 
+  const restoreConversation = async (id: string) => {
+    try {
+      if (await conversationService.getConversation(id)) {
+        openConversation(id, await conversationService.getMessages(id));
+      } else {
+        startNewConversation();
+      }
+    } catch (error) {
+      console.error('Failed to restore conversation:', error);
+    }
+  };
+
+  // The chat goes on even if the history cannot be written
+  const saveMessage = (conversationId: string, message: AssistantMessage | undefined) => {
+    if (!message) return;
+    conversationService.saveMessage(conversationId, message).catch(error => {
+      console.error('Failed to save message:', error);
+    });
+  };
+
+  const saveLastMessage = (conversationId: string) => {
+    const { messages: current } = useAppStore.getState();
+    saveMessage(conversationId, current[current.length - 1]);
+  };
+
+  const canSend = !!inputText.trim() || !!attachment;
+
   const handleSendMessage = async () => {
-    if (!inputText.trim() || isGenerating) return;
+    if (!canSend || isGenerating) return;
     
     if (!isAuthenticated) {
       await checkAuthentication();
@@ -70,11 +141,23 @@ export const ChatScreen: React.FC<{ onShowSettings: () => void }> = ({ onShowSet
       id: Date.now().toString(),
       content: inputText.trim(),
       isUser: true,
-      timestamp: new Date()
+      timestamp: new Date(),
+      ...(attachment && { attachments: [attachment] })
     };
 
+    // A conversation is created with its first message
+    const conversationId = activeConversationId ?? Crypto.randomUUID();
+    if (!activeConversationId) {
+      setActiveConversationId(conversationId);
+      conversationService.createConversation(conversationId, titleFromMessage(userMessage)).catch(error => {
+        console.error('Failed to create conversation:', error);
+      });
+    }
+
     addMessage(userMessage);
+    saveMessage(conversationId, userMessage);
     setInputText('');
+    setAttachment(null);
     setGenerating(true);
 
     // Add placeholder assistant message
@@ -86,26 +169,77 @@ export const ChatScreen: React.FC<{ onShowSettings: () => void }> = ({ onShowSet
     };
     addMessage(assistantMessage);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
       await assistantService.generateResponse(
-        [...messages, userMessage],
+        // Apologies for failed turns are neither saved nor summarized, nor sent back as answers
+        [...messages.filter(message => !failedMessageIds.current.has(message.id)), userMessage],
         (partial) => {
           updateLastMessage(partial);
         },
         (fullResponse) => {
+          saveLastMessage(conversationId);
+          ConversationSummarizer.getInstance().scheduleUpdate(
+            conversationId,
+            useAppStore.getState().messages.filter(message => !failedMessageIds.current.has(message.id))
+          );
           setGenerating(false);
           if (ttsEnabled) {
             assistantService.speakText(fullResponse);
           }
+        },
+        {
+          signal: abortController.signal,
+          conversationId,
+          onInterrupted: (partialResponse) => {
+            updateLastMessage(partialResponse);
+            markLastMessageInterrupted();
+            saveLastMessage(conversationId);
+            setGenerating(false);
+          },
+          // The apology stays on screen but is not saved as an answer
+          onError: () => {
+            failedMessageIds.current.add(assistantMessage.id);
+            setGenerating(false);
+          }
         }
       );
     } catch (error) {
       console.error('Error generating response:', error);
       updateLastMessage("Désolé, une erreur s'est produite. Veuillez réessayer.");
+      failedMessageIds.current.add(assistantMessage.id);
       setGenerating(false);
+    } finally {
+      abortControllerRef.current = null;
     }
   };
 
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const pickImage = async (source: ImageSource) => {
+    try {
+      const picked = await AttachmentService.getInstance().pickImage(source);
+      if (picked) {
+        setAttachment(picked);
+      }
+    } catch (error) {
+      console.error('Error attaching photo:', error);
+      Alert.alert("Photo", error instanceof Error ? error.message : "Impossible de joindre la photo");
+    }
+  };
+
+  const handleAttachPhoto = () => {
+    Alert.alert("Joindre une photo", "Posez une question sur une image", [
+      { text: "Photothèque", onPress: () => pickImage('library') },
+      { text: "Appareil photo", onPress: () => pickImage('camera') },
+      { text: "Annuler", style: "cancel" }
+    ]);
+  };
+
   const handleVoiceInput = () => {
     // Placeholder for voice input - would integrate with speech recognition
     setIsRecording(!isRecording);
@@ -154,9 +288,14 @@ export const ChatScreen: React.FC<{ onShowSettings: () => void }> = ({ onShowSet
             </View>
           </View>
           
-          <Pressable onPress={onShowSettings} className="p-2">
-            <Ionicons name="settings" size={24} color="#6B7280" />
-          </Pressable>
+          <View className="flex-row items-center">
+            <Pressable onPress={onShowConversations} disabled={isGenerating} className="p-2">
+              <Ionicons name="chatbubbles-outline" size={24} color={isGenerating ? "#D1D5DB" : "#6B7280"} />
+            </Pressable>
+            <Pressable onPress={onShowSettings} className="p-2">
+              <Ionicons name="settings" size={24} color="#6B7280" />
+            </Pressable>
+          </View>
         </View>
 
         {/* Demo Notice */}
@@ -213,7 +352,26 @@ export const ChatScreen: React.FC<{ onShowSettings: () => void }> = ({ onShowSet
 
         {/* Input */}
         <View className="px-4 py-3 border-t border-gray-200">
+          {attachment && (
+            <View className="flex-row items-center mb-2">
+              <Image
+                source={{ uri: attachment.uri }}
+                style={{ width: 56, height: 56, borderRadius: 8 }}
+              />
+              <Pressable onPress={() => setAttachment(null)} className="ml-2 p-1">
+                <Ionicons name="close-circle" size={20} color="#6B7280" />
+              </Pressable>
+            </View>
+          )}
           <View className="flex-row items-end space-x-3">
+            <Pressable
+              onPress={handleAttachPhoto}
+              disabled={isGenerating}
+              className="p-3 rounded-full bg-gray-300"
+            >
+              <Ionicons name="image" size={20} color="#6B7280" />
+            </Pressable>
+
             <View className="flex-1 bg-gray-100 rounded-2xl px-4 py-2">
               <TextInput
                 value={inputText}
@@ -239,19 +397,28 @@ export const ChatScreen: React.FC<{ onShowSettings: () => void }> = ({ onShowSet
               />
             </Pressable>
             
-            <Pressable
-              onPress={handleSendMessage}
-              disabled={!inputText.trim() || isGenerating}
-              className={`p-3 rounded-full ${
-                inputText.trim() && !isGenerating ? 'bg-blue-500' : 'bg-gray-300'
-              }`}
-            >
-              <Ionicons 
-                name="send" 
-                size={20} 
-                color={inputText.trim() && !isGenerating ? "white" : "#6B7280"} 
-              />
-            </Pressable>
+            {isGenerating ? (
+              <Pressable
+                onPress={handleStopGeneration}
+                className="p-3 rounded-full bg-red-500"
+              >
+                <Ionicons name="stop" size={20} color="white" />
+              </Pressable>
+            ) : (
+              <Pressable
+                onPress={handleSendMessage}
+                disabled={!canSend}
+                className={`p-3 rounded-full ${
+                  canSend ? 'bg-blue-500' : 'bg-gray-300'
+                }`}
+              >
+                <Ionicons 
+                  name="send" 
+                  size={20} 
+                  color={canSend ? "white" : "#6B7280"} 
+                />
+              </Pressable>
+            )}
           </View>
         </View>
       </KeyboardAvoidingView>
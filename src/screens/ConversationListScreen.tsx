@@ -0,0 +1,297 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, TextInput, Pressable, FlatList, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAppStore } from '../state/appState';
+import { ConversationService } from '../services/ConversationService';
+import { splitHighlights } from '../services/MemoryIndex';
+import { Conversation } from '../types/core';
+
+interface ConversationListScreenProps {
+  onClose: () => void;
+}
+
+const formatUpdatedAt = (date: Date) => {
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString('fr-FR', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+export const ConversationListScreen: React.FC<ConversationListScreenProps> = ({ onClose }) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [renaming, setRenaming] = useState<Conversation | null>(null);
+  const [renameText, setRenameText] = useState('');
+  // Conversation whose actions are shown under it
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Responses to an outdated search are ignored
+  const searchId = useRef(0);
+
+  const { activeConversationId, openConversation, startNewConversation } = useAppStore();
+  const conversationService = ConversationService.getInstance();
+
+  useEffect(() => {
+    loadConversations();
+  }, [showArchived]);
+
+  const loadConversations = async (query: string = searchQuery) => {
+    const id = ++searchId.current;
+    setIsLoading(true);
+    try {
+      const result = await conversationService.listConversations({ query, archived: showArchived });
+      if (id !== searchId.current) return;
+      setConversations(result);
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    } finally {
+      if (id === searchId.current) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const handleOpen = async (conversation: Conversation) => {
+    try {
+      openConversation(conversation.id, await conversationService.getMessages(conversation.id));
+      onClose();
+    } catch (error) {
+      console.error('Failed to open conversation:', error);
+      Alert.alert("Erreur", "Impossible d'ouvrir la conversation");
+    }
+  };
+
+  const handleNewConversation = () => {
+    startNewConversation();
+    onClose();
+  };
+
+  const startRenaming = (conversation: Conversation) => {
+    setExpandedId(null);
+    setRenaming(conversation);
+    setRenameText(conversation.title);
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    try {
+      await conversationService.renameConversation(renaming.id, renameText);
+      setRenaming(null);
+      loadConversations();
+    } catch (error) {
+      console.error('Failed to rename conversation:', error);
+      Alert.alert("Erreur", "Impossible de renommer la conversation");
+    }
+  };
+
+  const handleTogglePinned = async (conversation: Conversation) => {
+    try {
+      await conversationService.setPinned(conversation.id, !conversation.pinned);
+      setExpandedId(null);
+      loadConversations();
+    } catch (error) {
+      console.error('Failed to pin conversation:', error);
+    }
+  };
+
+  const handleToggleArchived = async (conversation: Conversation) => {
+    try {
+      await conversationService.setArchived(conversation.id, !conversation.archived);
+      setExpandedId(null);
+      loadConversations();
+    } catch (error) {
+      console.error('Failed to archive conversation:', error);
+    }
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    Alert.alert(
+      "Supprimer cette conversation",
+      `« ${conversation.title} » et ses photos seront supprimées. Cette action est irréversible.`,
+      [
+        { text: "Annuler", style: "cancel" },
+        {
+          text: "Supprimer",
+          style: "destructive",
+          onPress: async () => {
+            const success = await conversationService.deleteConversation(conversation.id);
+            if (!success) {
+              Alert.alert("Erreur", "Impossible de supprimer la conversation");
+              return;
+            }
+            if (conversation.id === activeConversationId) {
+              startNewConversation();
+            }
+            setConversations(prev => prev.filter(c => c.id !== conversation.id));
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-white">
+      {/* Header */}
+      <View className="flex-row items-center justify-between px-4 py-3 border-b border-gray-200">
+        <Text className="text-xl font-bold text-gray-900">Conversations</Text>
+        <View className="flex-row items-center">
+          <Pressable onPress={handleNewConversation} className="p-2 mr-1">
+            <Ionicons name="create-outline" size={24} color="#3B82F6" />
+          </Pressable>
+          <Pressable onPress={onClose} className="p-2">
+            <Ionicons name="close" size={24} color="#6B7280" />
+          </Pressable>
+        </View>
+      </View>
+
+      {/* Search */}
+      <View className="px-4 py-3 border-b border-gray-100">
+        <View className="flex-row items-center bg-gray-100 rounded-xl px-3 py-2">
+          <Ionicons name="search" size={20} color="#9CA3AF" />
+          <TextInput
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder="Rechercher dans les conversations..."
+            placeholderTextColor="#9CA3AF"
+            className="flex-1 ml-2 text-base text-gray-900"
+            onSubmitEditing={() => loadConversations()}
+          />
+          {searchQuery.length > 0 && (
+            <Pressable onPress={() => { setSearchQuery(''); loadConversations(''); }}>
+              <Ionicons name="close-circle" size={20} color="#9CA3AF" />
+            </Pressable>
+          )}
+        </View>
+
+        <View className="flex-row mt-3">
+          {[false, true].map(archived => (
+            <Pressable
+              key={String(archived)}
+              onPress={() => setShowArchived(archived)}
+              className={`px-3 py-1 mr-2 rounded-full border ${
+                showArchived === archived ? 'bg-blue-500 border-blue-500' : 'bg-white border-gray-300'
+              }`}
+            >
+              <Text className={`text-sm ${showArchived === archived ? 'text-white' : 'text-gray-700'}`}>
+                {archived ? 'Archivées' : 'Récentes'}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      {/* Rename */}
+      {renaming && (
+        <View className="flex-row items-center px-4 py-3 bg-blue-50 border-b border-blue-100">
+          <TextInput
+            value={renameText}
+            onChangeText={setRenameText}
+            placeholder="Titre de la conversation"
+            placeholderTextColor="#9CA3AF"
+            autoFocus
+            maxLength={100}
+            className="flex-1 bg-white rounded-lg px-3 py-2 text-gray-900"
+            onSubmitEditing={handleRename}
+          />
+          <Pressable onPress={handleRename} className="ml-2 p-2">
+            <Ionicons name="checkmark" size={22} color="#3B82F6" />
+          </Pressable>
+          <Pressable onPress={() => setRenaming(null)} className="p-2">
+            <Ionicons name="close" size={22} color="#6B7280" />
+          </Pressable>
+        </View>
+      )}
+
+      {isLoading ? (
+        <View className="p-4">
+          <Text className="text-gray-500 text-center">Chargement...</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={conversations}
+          keyExtractor={conversation => conversation.id}
+          ListEmptyComponent={
+            <View className="p-4">
+              <Text className="text-gray-500 text-center">
+                {searchQuery
+                  ? "Aucune conversation trouvée"
+                  : showArchived ? "Aucune conversation archivée" : "Aucune conversation"}
+              </Text>
+            </View>
+          }
+          renderItem={({ item: conversation }) => (
+            <View className="border-b border-gray-100">
+              <Pressable
+                onPress={() => handleOpen(conversation)}
+                onLongPress={() => setExpandedId(conversation.id)}
+                className={`flex-row items-center px-4 py-3 ${
+                  conversation.id === activeConversationId ? 'bg-blue-50' : 'bg-white'
+                }`}
+              >
+                <View className="flex-1">
+                  <View className="flex-row items-center">
+                    {conversation.pinned && (
+                      <Ionicons name="pin" size={14} color="#3B82F6" style={{ marginRight: 4 }} />
+                    )}
+                    <Text className="flex-1 text-base font-medium text-gray-900" numberOfLines={1}>
+                      {conversation.title}
+                    </Text>
+                    <Text className="text-xs text-gray-400 ml-2">{formatUpdatedAt(conversation.updatedAt)}</Text>
+                  </View>
+
+                  {conversation.snippet ? (
+                    <Text className="text-sm text-gray-600 mt-1" numberOfLines={2}>
+                      {splitHighlights(conversation.snippet).map((segment, index) => (
+                        <Text key={index} className={segment.highlighted ? 'bg-yellow-200 font-bold' : undefined}>
+                          {segment.text}
+                        </Text>
+                      ))}
+                    </Text>
+                  ) : (
+                    <Text className="text-xs text-gray-500 mt-1">
+                      {conversation.messageCount} message{conversation.messageCount > 1 ? 's' : ''}
+                    </Text>
+                  )}
+                </View>
+
+                <Pressable
+                  onPress={() => setExpandedId(expandedId === conversation.id ? null : conversation.id)}
+                  className="p-2 ml-1"
+                >
+                  <Ionicons name="ellipsis-horizontal" size={18} color="#6B7280" />
+                </Pressable>
+              </Pressable>
+
+              {expandedId === conversation.id && (
+                <View className="flex-row justify-around px-4 pb-3 bg-white">
+                  <Pressable onPress={() => startRenaming(conversation)} className="items-center p-2">
+                    <Ionicons name="pencil" size={18} color="#6B7280" />
+                    <Text className="text-xs text-gray-600 mt-1">Renommer</Text>
+                  </Pressable>
+                  <Pressable onPress={() => handleTogglePinned(conversation)} className="items-center p-2">
+                    <Ionicons name={conversation.pinned ? 'pin-outline' : 'pin'} size={18} color="#6B7280" />
+                    <Text className="text-xs text-gray-600 mt-1">
+                      {conversation.pinned ? 'Désépingler' : 'Épingler'}
+                    </Text>
+                  </Pressable>
+                  <Pressable onPress={() => handleToggleArchived(conversation)} className="items-center p-2">
+                    <Ionicons name="archive-outline" size={18} color="#6B7280" />
+                    <Text className="text-xs text-gray-600 mt-1">
+                      {conversation.archived ? 'Désarchiver' : 'Archiver'}
+                    </Text>
+                  </Pressable>
+                  <Pressable onPress={() => handleDelete(conversation)} className="items-center p-2">
+                    <Ionicons name="trash" size={18} color="#EF4444" />
+                    <Text className="text-xs text-red-600 mt-1">Supprimer</Text>
+                  </Pressable>
+                </View>
+              )}
+            </View>
+          )}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
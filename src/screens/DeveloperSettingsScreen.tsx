@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, Pressable, ScrollView, Switch, Alert } from 'react-native';
+import { View, Text, TextInput, Pressable, ScrollView, Switch, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import FeatureFlagService, { FeatureFlags, FeatureFlag } from '../services/FeatureFlagService';
 import PerformanceMonitor from '../services/PerformanceMonitor';
-import ResilientLLMService from '../services/LLMProvider';
+import ResilientLLMService, { LLMFactory, LLMProviderType, LocalEndpointProvider } from '../services/LLMProvider';
+import ProviderRouter, { PrivacyLevel, RoutableProviderType, RoutingPolicy } from '../services/ProviderRouter';
+import ResponseCache, { ResponseCacheConfig } from '../services/ResponseCache';
 import { AuthenticationService } from '../services/AuthenticationService';
 import GitHubService from '../services/GitHubService';
 
@@ -17,6 +19,18 @@ export const DeveloperSettingsScreen: React.FC<DeveloperSettingsScreenProps> = (
   const [performanceData, setPerformanceData] = useState<any>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [githubInfo, setGithubInfo] = useState<any>(null);
+  const [endpointUrl, setEndpointUrl] = useState('');
+  const [endpointModel, setEndpointModel] = useState('');
+  const [endpointModels, setEndpointModels] = useState<string[]>([]);
+  const [endpointStatus, setEndpointStatus] = useState<string | null>(null);
+  const [routingPolicy, setRoutingPolicy] = useState<RoutingPolicy | null>(null);
+  const [maxLatency, setMaxLatency] = useState('');
+  const [maxErrorRate, setMaxErrorRate] = useState('');
+  const [dailyBudget, setDailyBudget] = useState('');
+  const [cacheConfig, setCacheConfig] = useState<ResponseCacheConfig | null>(null);
+  const [cacheStats, setCacheStats] = useState({ entries: 0, sizeBytes: 0 });
+
+  const localEndpoint = LLMFactory.getProvider('local_endpoint') as LocalEndpointProvider;
 
   useEffect(() => {
     authenticateAndLoad();
@@ -45,6 +59,19 @@ export const DeveloperSettingsScreen: React.FC<DeveloperSettingsScreenProps> = (
     const perfData = PerformanceMonitor.getInstance().getPerformanceSummary();
     setPerformanceData(perfData);
 
+    // Load local endpoint config
+    const endpointConfig = await localEndpoint.loadConfig();
+    setEndpointUrl(endpointConfig?.baseUrl || '');
+    setEndpointModel(endpointConfig?.model || '');
+
+    // Load routing policy
+    const policy = await ProviderRouter.getInstance().loadPolicy();
+    applyRoutingPolicy(policy);
+
+    // Load response cache state
+    setCacheConfig(await ResponseCache.getInstance().loadConfig());
+    setCacheStats(await ResponseCache.getInstance().getStats());
+
     // Load GitHub info
     try {
       const projectInfo = GitHubService.getInstance().getProjectInfo();
@@ -106,11 +133,100 @@ export const DeveloperSettingsScreen: React.FC<DeveloperSettingsScreenProps> = (
     Alert.alert("Succès", "Données de performance effacées");
   };
 
-  const switchLLMProvider = (provider: 'openai' | 'anthropic' | 'local' | 'auto') => {
+  const switchLLMProvider = (provider: LLMProviderType) => {
     ResilientLLMService.getInstance().switchProvider(provider);
     Alert.alert("Succès", `Basculé vers le provider ${provider}`);
   };
 
+  const testLocalEndpoint = async () => {
+    setEndpointStatus('Test en cours...');
+    try {
+      const models = await localEndpoint.listModels({ baseUrl: endpointUrl.trim(), model: endpointModel });
+      setEndpointModels(models);
+      if (!endpointModel && models.length > 0) {
+        setEndpointModel(models[0]);
+      }
+      setEndpointStatus(`✅ ${models.length} modèle(s) disponible(s)`);
+    } catch (error) {
+      setEndpointModels([]);
+      setEndpointStatus(`❌ ${error instanceof Error ? error.message : 'Serveur injoignable'}`);
+    }
+  };
+
+  const saveLocalEndpoint = async () => {
+    if (!endpointUrl.trim()) {
+      await localEndpoint.configure(null);
+      setEndpointStatus(null);
+      Alert.alert("Succès", "Serveur local supprimé");
+      return;
+    }
+    if (!endpointModel) {
+      Alert.alert("Modèle requis", "Testez la connexion puis choisissez un modèle");
+      return;
+    }
+
+    await localEndpoint.configure({ baseUrl: endpointUrl, model: endpointModel });
+    const health = await localEndpoint.checkHealth();
+    setEndpointStatus(health.available ? `✅ Disponible (${health.responseTime}ms)` : '❌ Serveur injoignable');
+  };
+
+  const applyRoutingPolicy = (policy: RoutingPolicy) => {
+    setRoutingPolicy(policy);
+    setMaxLatency(String(policy.maxLatencyMs));
+    setMaxErrorRate(String(Math.round(policy.maxErrorRate * 100)));
+    setDailyBudget(String(policy.dailyBudgetUsd));
+  };
+
+  const updateRoutingPolicy = async (changes: Partial<RoutingPolicy>) => {
+    applyRoutingPolicy(await ProviderRouter.getInstance().updatePolicy(changes));
+  };
+
+  const movePreferredProvider = (index: number) => {
+    if (!routingPolicy || index === 0) return;
+    const order = [...routingPolicy.preferredProviders];
+    [order[index - 1], order[index]] = [order[index], order[index - 1]];
+    updateRoutingPolicy({ preferredProviders: order });
+  };
+
+  const saveRoutingLimits = async () => {
+    const latency = parseInt(maxLatency, 10);
+    const errorRate = parseInt(maxErrorRate, 10);
+    const budget = parseFloat(dailyBudget.replace(',', '.'));
+
+    if (isNaN(latency) || isNaN(errorRate) || isNaN(budget) || errorRate < 0 || errorRate > 100 || budget < 0) {
+      Alert.alert("Valeurs invalides", "Vérifiez la latence, le taux d'erreur (0-100) et le budget");
+      return;
+    }
+
+    await updateRoutingPolicy({ maxLatencyMs: latency, maxErrorRate: errorRate / 100, dailyBudgetUsd: budget });
+    Alert.alert("Succès", "Règles de routage enregistrées");
+  };
+
+  const resetRoutingPolicy = async () => {
+    applyRoutingPolicy(await ProviderRouter.getInstance().resetPolicy());
+  };
+
+  const updateCacheConfig = async (changes: Partial<ResponseCacheConfig>) => {
+    setCacheConfig(await ResponseCache.getInstance().updateConfig(changes));
+    setCacheStats(await ResponseCache.getInstance().getStats());
+  };
+
+  const toggleCacheForProvider = (providerName: string) => {
+    if (!cacheConfig) return;
+    const disabled = cacheConfig.disabledProviders.includes(providerName);
+    updateCacheConfig({
+      disabledProviders: disabled
+        ? cacheConfig.disabledProviders.filter(name => name !== providerName)
+        : [...cacheConfig.disabledProviders, providerName],
+    });
+  };
+
+  const clearResponseCache = async () => {
+    await ResponseCache.getInstance().clear();
+    setCacheStats(await ResponseCache.getInstance().getStats());
+    Alert.alert("Succès", "Cache des réponses vidé");
+  };
+
   const formatMetric = (value: number | undefined, unit: string = '') => {
     if (value === undefined) return 'N/A';
     if (unit === 'bytes') {
@@ -162,16 +278,18 @@ export const DeveloperSettingsScreen: React.FC<DeveloperSettingsScreenProps> = (
           </Text>
           
           <View className="px-4 space-y-2">
-            {['auto', 'anthropic', 'openai', 'local'].map((provider) => (
+            {(['auto', 'anthropic', 'openai', 'grok', 'local', 'local_endpoint'] as LLMProviderType[]).map((provider) => (
               <Pressable
                 key={provider}
-                onPress={() => switchLLMProvider(provider as any)}
+                onPress={() => switchLLMProvider(provider)}
                 className="bg-gray-100 p-3 rounded-lg"
               >
                 <Text className="font-medium text-gray-900 capitalize">
                   {provider === 'auto' ? '🎯 Auto (Intelligent)' : 
                    provider === 'local' ? '🛡️ Local (Private)' :
                    provider === 'anthropic' ? '🧠 Anthropic Claude' :
+                   provider === 'grok' ? '⚡ xAI Grok' :
+                   provider === 'local_endpoint' ? '🖥️ Serveur local (OpenAI-compatible)' :
                    '🚀 OpenAI GPT-4'}
                 </Text>
               </Pressable>
@@ -179,6 +297,232 @@ export const DeveloperSettingsScreen: React.FC<DeveloperSettingsScreenProps> = (
           </View>
         </View>
 
+        {/* Routing Policy */}
+        {routingPolicy && (
+          <View className="mt-6">
+            <View className="flex-row items-center justify-between px-4 mb-2">
+              <Text className="text-lg font-semibold text-gray-900">
+                🧭 Routage (mode Auto)
+              </Text>
+              <Pressable onPress={resetRoutingPolicy} className="bg-gray-100 px-3 py-1 rounded">
+                <Text className="text-gray-800 text-sm font-medium">Reset</Text>
+              </Pressable>
+            </View>
+            <Text className="text-sm text-gray-600 px-4 mb-4">
+              Choix du provider à chaque requête selon la confidentialité, la taille du contexte, la latence, le budget et le réseau.
+            </Text>
+
+            <View className="px-4 space-y-3">
+              <Text className="font-medium text-gray-900">Confidentialité par défaut</Text>
+              <View className="flex-row flex-wrap">
+                {([
+                  ['standard', 'Standard'],
+                  ['sensitive', 'Réseau local'],
+                  ['private', 'Appareil seulement'],
+                ] as [PrivacyLevel, string][]).map(([level, label]) => (
+                  <Pressable
+                    key={level}
+                    onPress={() => updateRoutingPolicy({ defaultPrivacyLevel: level })}
+                    className={`px-3 py-1 rounded mr-2 mb-2 ${routingPolicy.defaultPrivacyLevel === level ? 'bg-blue-500' : 'bg-gray-100'}`}
+                  >
+                    <Text className={`text-sm ${routingPolicy.defaultPrivacyLevel === level ? 'text-white' : 'text-gray-800'}`}>
+                      {label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+
+              <Text className="font-medium text-gray-900">Ordre de préférence</Text>
+              {routingPolicy.preferredProviders.map((provider: RoutableProviderType, index: number) => (
+                <View key={provider} className="flex-row items-center justify-between bg-gray-50 rounded-lg px-3 py-2">
+                  <Text className="font-mono text-gray-900">{index + 1}. {provider}</Text>
+                  {index > 0 && (
+                    <Pressable onPress={() => movePreferredProvider(index)} className="p-1">
+                      <Ionicons name="arrow-up" size={18} color="#3B82F6" />
+                    </Pressable>
+                  )}
+                </View>
+              ))}
+
+              <View className="bg-gray-50 rounded-lg p-4 space-y-2">
+                <View className="flex-row items-center justify-between">
+                  <Text className="text-gray-600">Latence max (ms)</Text>
+                  <TextInput
+                    value={maxLatency}
+                    onChangeText={setMaxLatency}
+                    keyboardType="number-pad"
+                    className="bg-white rounded px-2 py-1 font-mono text-gray-900 w-24 text-right"
+                  />
+                </View>
+                <View className="flex-row items-center justify-between">
+                  <Text className="text-gray-600">Taux d'erreur max (%)</Text>
+                  <TextInput
+                    value={maxErrorRate}
+                    onChangeText={setMaxErrorRate}
+                    keyboardType="number-pad"
+                    className="bg-white rounded px-2 py-1 font-mono text-gray-900 w-24 text-right"
+                  />
+                </View>
+                <View className="flex-row items-center justify-between">
+                  <Text className="text-gray-600">Budget quotidien ($, 0 = illimité)</Text>
+                  <TextInput
+                    value={dailyBudget}
+                    onChangeText={setDailyBudget}
+                    keyboardType="decimal-pad"
+                    className="bg-white rounded px-2 py-1 font-mono text-gray-900 w-24 text-right"
+                  />
+                </View>
+                <View className="flex-row justify-between">
+                  <Text className="text-gray-600">Dépensé aujourd'hui</Text>
+                  <Text className="font-mono">${ProviderRouter.getInstance().getDailySpend().toFixed(4)}</Text>
+                </View>
+              </View>
+
+              <Pressable onPress={saveRoutingLimits} className="bg-blue-100 px-3 py-2 rounded self-start">
+                <Text className="text-blue-800 text-sm font-medium">Enregistrer</Text>
+              </Pressable>
+
+              {ProviderRouter.getInstance().getLastDecision() && (
+                <View className="bg-blue-50 rounded-lg p-3">
+                  <Text className="font-medium text-blue-800 mb-1">Dernière décision</Text>
+                  <Text className="text-blue-700 text-xs font-mono">
+                    {ProviderRouter.getInstance().explain(ProviderRouter.getInstance().getLastDecision()!)}
+                  </Text>
+                </View>
+              )}
+            </View>
+          </View>
+        )}
+
+        {/* Response Cache */}
+        {cacheConfig && (
+          <View className="mt-6">
+            <View className="flex-row items-center justify-between px-4 mb-2">
+              <Text className="text-lg font-semibold text-gray-900">
+                🗄️ Cache des réponses
+              </Text>
+              <Pressable onPress={clearResponseCache} className="bg-red-100 px-3 py-1 rounded">
+                <Text className="text-red-800 text-sm font-medium">Vider</Text>
+              </Pressable>
+            </View>
+            <Text className="text-sm text-gray-600 px-4 mb-4">
+              Réponses chiffrées sur l'appareil. Seules les requêtes à température 0 sont mises en cache, sauf autorisation explicite.
+            </Text>
+
+            <View className="px-4 space-y-2">
+              <View className="flex-row items-center justify-between">
+                <Text className="text-gray-900">Activé</Text>
+                <Switch
+                  value={cacheConfig.enabled}
+                  onValueChange={(value) => updateCacheConfig({ enabled: value })}
+                  trackColor={{ false: '#E5E7EB', true: '#3B82F6' }}
+                  thumbColor={cacheConfig.enabled ? '#FFFFFF' : '#9CA3AF'}
+                />
+              </View>
+              <View className="flex-row items-center justify-between">
+                <Text className="text-gray-900">Autoriser température {'>'} 0</Text>
+                <Switch
+                  value={cacheConfig.allowNonZeroTemperature}
+                  onValueChange={(value) => updateCacheConfig({ allowNonZeroTemperature: value })}
+                  trackColor={{ false: '#E5E7EB', true: '#3B82F6' }}
+                  thumbColor={cacheConfig.allowNonZeroTemperature ? '#FFFFFF' : '#9CA3AF'}
+                />
+              </View>
+
+              <View className="flex-row flex-wrap">
+                {(['anthropic', 'openai', 'grok', 'local', 'local_endpoint'] as RoutableProviderType[]).map((type) => {
+                  const providerName = LLMFactory.getProvider(type).name;
+                  const enabled = !cacheConfig.disabledProviders.includes(providerName);
+                  return (
+                    <Pressable
+                      key={type}
+                      onPress={() => toggleCacheForProvider(providerName)}
+                      className={`px-3 py-1 rounded mr-2 mb-2 ${enabled ? 'bg-blue-500' : 'bg-gray-100'}`}
+                    >
+                      <Text className={`text-sm ${enabled ? 'text-white' : 'text-gray-500 line-through'}`}>
+                        {providerName}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              <View className="bg-gray-50 rounded-lg p-4 space-y-2">
+                <View className="flex-row justify-between">
+                  <Text className="text-gray-600">Entrées</Text>
+                  <Text className="font-mono">{cacheStats.entries} / {cacheConfig.maxEntries}</Text>
+                </View>
+                <View className="flex-row justify-between">
+                  <Text className="text-gray-600">Taille</Text>
+                  <Text className="font-mono">{formatMetric(cacheStats.sizeBytes, 'bytes')}</Text>
+                </View>
+                <View className="flex-row justify-between">
+                  <Text className="text-gray-600">Hits / Misses</Text>
+                  <Text className="font-mono">
+                    {PerformanceMonitor.getInstance().getCacheStats().hits} / {PerformanceMonitor.getInstance().getCacheStats().misses}
+                  </Text>
+                </View>
+              </View>
+            </View>
+          </View>
+        )}
+
+        {/* Local Endpoint */}
+        <View className="mt-6">
+          <Text className="text-lg font-semibold text-gray-900 px-4 mb-2">
+            🖥️ Serveur local
+          </Text>
+          <Text className="text-sm text-gray-600 px-4 mb-4">
+            Serveur compatible OpenAI (llama.cpp, Ollama) sur l'appareil ou le réseau local. Utilisé à la place du modèle local en mode strict.
+          </Text>
+
+          <View className="px-4 space-y-2">
+            <TextInput
+              value={endpointUrl}
+              onChangeText={setEndpointUrl}
+              placeholder="http://192.168.1.20:8080/v1"
+              placeholderTextColor="#9CA3AF"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              className="bg-gray-100 rounded-lg px-3 py-2 font-mono text-gray-900"
+            />
+
+            {endpointModels.length > 0 && (
+              <View className="flex-row flex-wrap">
+                {endpointModels.map((model) => (
+                  <Pressable
+                    key={model}
+                    onPress={() => setEndpointModel(model)}
+                    className={`px-3 py-1 rounded mr-2 mb-2 ${endpointModel === model ? 'bg-blue-500' : 'bg-gray-100'}`}
+                  >
+                    <Text className={`text-sm font-mono ${endpointModel === model ? 'text-white' : 'text-gray-800'}`}>
+                      {model}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+
+            {endpointModel ? (
+              <Text className="text-sm text-gray-600">Modèle : <Text className="font-mono">{endpointModel}</Text></Text>
+            ) : null}
+
+            {endpointStatus && (
+              <Text className="text-sm text-gray-600">{endpointStatus}</Text>
+            )}
+
+            <View className="flex-row space-x-2">
+              <Pressable onPress={testLocalEndpoint} className="bg-gray-100 px-3 py-2 rounded">
+                <Text className="text-gray-800 text-sm font-medium">Tester</Text>
+              </Pressable>
+              <Pressable onPress={saveLocalEndpoint} className="bg-blue-100 px-3 py-2 rounded">
+                <Text className="text-blue-800 text-sm font-medium">Enregistrer</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+
         {/* Feature Flags */}
         <View className="mt-6">
           <View className="flex-row items-center justify-between px-4 mb-4">
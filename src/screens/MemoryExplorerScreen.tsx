@@ -1,21 +1,47 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, TextInput, Pressable, ScrollView, Alert } from 'react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, TextInput, Pressable, ScrollView, FlatList, ActivityIndicator, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { MemoryService } from '../services/MemoryService';
+import { splitHighlights } from '../services/MemoryIndex';
 import { AuthenticationService } from '../services/AuthenticationService';
-import { MemoryEntry } from '../types/core';
+import { MemoryItem } from '../types/service';
 
 interface MemoryExplorerScreenProps {
   onClose: () => void;
 }
 
+type DateFilter = 'all' | 'week' | 'month';
+
+const PAGE_SIZE = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CATEGORY_LABELS: Record<string, string> = {
+  conversation: 'Conversations',
+  note: 'Notes',
+  general: 'Autres',
+};
+
+const DATE_FILTERS: Array<{ value: DateFilter; label: string; days?: number }> = [
+  { value: 'all', label: 'Toutes les dates' },
+  { value: 'week', label: '7 derniers jours', days: 7 },
+  { value: 'month', label: '30 derniers jours', days: 30 },
+];
+
 export const MemoryExplorerScreen: React.FC<MemoryExplorerScreenProps> = ({ onClose }) => {
   const [searchQuery, setSearchQuery] = useState('');
-  const [memories, setMemories] = useState<MemoryEntry[]>([]);
-  const [selectedMemory, setSelectedMemory] = useState<MemoryEntry | null>(null);
+  const [memories, setMemories] = useState<MemoryItem[]>([]);
+  const [selectedMemory, setSelectedMemory] = useState<MemoryItem | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [categories, setCategories] = useState<Array<{ category: string; count: number }>>([]);
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [dateFilter, setDateFilter] = useState<DateFilter>('all');
+  const [totalCount, setTotalCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  // Responses to an outdated search are ignored
+  const searchId = useRef(0);
 
   const memoryService = MemoryService.getInstance();
   const authService = AuthenticationService.getInstance();
@@ -24,10 +50,17 @@ export const MemoryExplorerScreen: React.FC<MemoryExplorerScreenProps> = ({ onCl
     authenticateAndLoad();
   }, []);
 
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadMemories();
+    }
+  }, [selectedCategories, dateFilter]);
+
   const authenticateAndLoad = async () => {
     const result = await authService.authenticate("Accéder aux mémoires privées");
     if (result.success) {
       setIsAuthenticated(true);
+      setCategories(await memoryService.getCategories());
       await loadMemories();
     } else {
       Alert.alert("Authentification requise", "Vous devez vous authentifier pour accéder aux mémoires", [
@@ -37,15 +70,56 @@ export const MemoryExplorerScreen: React.FC<MemoryExplorerScreenProps> = ({ onCl
     }
   };
 
-  const loadMemories = async () => {
+  const buildDateRange = () => {
+    const days = DATE_FILTERS.find(filter => filter.value === dateFilter)?.days;
+    if (!days) return undefined;
+    const end = new Date();
+    return { start: new Date(end.getTime() - days * DAY_MS), end };
+  };
+
+  const loadMemories = async (query: string = searchQuery) => {
+    const id = ++searchId.current;
     setIsLoading(true);
     try {
-      const result = await memoryService.getMemories(searchQuery || undefined, 100);
-      setMemories(result);
+      const result = await memoryService.search({
+        query,
+        limit: PAGE_SIZE,
+        categories: selectedCategories,
+        dateRange: buildDateRange(),
+      });
+      if (id !== searchId.current) return;
+      setMemories(result.items);
+      setTotalCount(result.totalCount);
+      setNextCursor(result.nextCursor);
     } catch (error) {
       console.error('Failed to load memories:', error);
     } finally {
-      setIsLoading(false);
+      if (id === searchId.current) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const loadMoreMemories = async () => {
+    if (!nextCursor || isLoading || isLoadingMore) return;
+
+    const id = searchId.current;
+    setIsLoadingMore(true);
+    try {
+      const result = await memoryService.search({
+        query: searchQuery,
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+        categories: selectedCategories,
+        dateRange: buildDateRange(),
+      });
+      if (id !== searchId.current) return;
+      setMemories(prev => [...prev, ...result.items]);
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      console.error('Failed to load more memories:', error);
+    } finally {
+      setIsLoadingMore(false);
     }
   };
 
@@ -53,7 +127,13 @@ export const MemoryExplorerScreen: React.FC<MemoryExplorerScreenProps> = ({ onCl
     loadMemories();
   };
 
-  const handleDeleteMemory = (memory: MemoryEntry) => {
+  const toggleCategory = (category: string) => {
+    setSelectedCategories(prev =>
+      prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]
+    );
+  };
+
+  const handleDeleteMemory = (memory: MemoryItem) => {
     Alert.alert(
       "Supprimer cette mémoire",
       "Cette action est irréversible",
@@ -68,7 +148,9 @@ export const MemoryExplorerScreen: React.FC<MemoryExplorerScreenProps> = ({ onCl
               const success = await memoryService.deleteMemory(memory.id);
               if (success) {
                 setMemories(prev => prev.filter(m => m.id !== memory.id));
+                setTotalCount(prev => prev - 1);
                 setSelectedMemory(null);
+                setCategories(await memoryService.getCategories());
               }
             }
           }
@@ -129,53 +211,109 @@ export const MemoryExplorerScreen: React.FC<MemoryExplorerScreenProps> = ({ onCl
             onSubmitEditing={handleSearch}
           />
           {searchQuery.length > 0 && (
-            <Pressable onPress={() => { setSearchQuery(''); loadMemories(); }}>
+            <Pressable onPress={() => { setSearchQuery(''); loadMemories(''); }}>
               <Ionicons name="close-circle" size={20} color="#9CA3AF" />
             </Pressable>
           )}
         </View>
       </View>
 
+      {/* Filters */}
+      <View className="border-b border-gray-100">
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} className="px-4 py-2">
+          {DATE_FILTERS.map(filter => (
+            <Pressable
+              key={filter.value}
+              onPress={() => setDateFilter(filter.value)}
+              className={`px-3 py-1 mr-2 rounded-full border ${
+                dateFilter === filter.value ? 'bg-blue-500 border-blue-500' : 'bg-white border-gray-300'
+              }`}
+            >
+              <Text className={`text-sm ${dateFilter === filter.value ? 'text-white' : 'text-gray-700'}`}>
+                {filter.label}
+              </Text>
+            </Pressable>
+          ))}
+          {categories.map(({ category, count }) => {
+            const selected = selectedCategories.includes(category);
+            return (
+              <Pressable
+                key={category}
+                onPress={() => toggleCategory(category)}
+                className={`px-3 py-1 mr-2 rounded-full border ${
+                  selected ? 'bg-blue-500 border-blue-500' : 'bg-white border-gray-300'
+                }`}
+              >
+                <Text className={`text-sm ${selected ? 'text-white' : 'text-gray-700'}`}>
+                  {CATEGORY_LABELS[category] || category} ({count})
+                </Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+        {!isLoading && (
+          <Text className="text-xs text-gray-500 px-4 pb-2">
+            {totalCount} mémoire{totalCount > 1 ? 's' : ''}
+          </Text>
+        )}
+      </View>
+
       <View className="flex-1 flex-row">
         {/* Memory List */}
         <View className="flex-1 border-r border-gray-200">
-          <ScrollView className="flex-1">
-            {isLoading ? (
-              <View className="p-4">
-                <Text className="text-gray-500 text-center">Chargement...</Text>
-              </View>
-            ) : memories.length === 0 ? (
-              <View className="p-4">
-                <Text className="text-gray-500 text-center">
-                  {searchQuery ? "Aucune mémoire trouvée" : "Aucune mémoire stockée"}
-                </Text>
-              </View>
-            ) : (
-              memories.map((memory) => (
-                <Pressable
-                  key={memory.id}
-                  onPress={() => setSelectedMemory(memory)}
-                  className={`p-4 border-b border-gray-100 ${
-                    selectedMemory?.id === memory.id ? 'bg-blue-50' : 'bg-white'
-                  }`}
-                >
-                  <Text className="text-sm font-medium text-gray-900 mb-1" numberOfLines={2}>
-                    {memory.content}
+          {isLoading ? (
+            <View className="p-4">
+              <Text className="text-gray-500 text-center">Chargement...</Text>
+            </View>
+          ) : (
+            <FlatList
+              data={memories}
+              keyExtractor={memory => memory.id}
+              onEndReached={loadMoreMemories}
+              onEndReachedThreshold={0.5}
+              ListEmptyComponent={
+                <View className="p-4">
+                  <Text className="text-gray-500 text-center">
+                    {searchQuery || selectedCategories.length > 0 || dateFilter !== 'all'
+                      ? "Aucune mémoire trouvée"
+                      : "Aucune mémoire stockée"}
                   </Text>
-                  
-                  {Object.keys(memory.metadata).length > 0 && (
-                    <Text className="text-xs text-gray-500 mb-1">
-                      {formatMetadata(memory.metadata)}
+                </View>
+              }
+              ListFooterComponent={isLoadingMore ? <ActivityIndicator className="py-4" color="#6B7280" /> : null}
+              renderItem={({ item: memory }) => {
+                const createdAt = new Date(memory.timestamp);
+                return (
+                  <Pressable
+                    onPress={() => setSelectedMemory(memory)}
+                    className={`p-4 border-b border-gray-100 ${
+                      selectedMemory?.id === memory.id ? 'bg-blue-50' : 'bg-white'
+                    }`}
+                  >
+                    <Text className="text-sm font-medium text-gray-900 mb-1" numberOfLines={2}>
+                      {memory.snippet
+                        ? splitHighlights(memory.snippet).map((segment, index) => (
+                            <Text key={index} className={segment.highlighted ? 'bg-yellow-200 font-bold' : undefined}>
+                              {segment.text}
+                            </Text>
+                          ))
+                        : memory.content}
                     </Text>
-                  )}
-                  
-                  <Text className="text-xs text-gray-400">
-                    {memory.createdAt.toLocaleDateString('fr-FR')} à {memory.createdAt.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
-                  </Text>
-                </Pressable>
-              ))
-            )}
-          </ScrollView>
+
+                    {Object.keys(memory.metadata).length > 0 && (
+                      <Text className="text-xs text-gray-500 mb-1">
+                        {formatMetadata(memory.metadata)}
+                      </Text>
+                    )}
+
+                    <Text className="text-xs text-gray-400">
+                      {createdAt.toLocaleDateString('fr-FR')} à {createdAt.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
+                    </Text>
+                  </Pressable>
+                );
+              }}
+            />
+          )}
         </View>
 
         {/* Memory Detail */}
@@ -209,12 +347,12 @@ export const MemoryExplorerScreen: React.FC<MemoryExplorerScreenProps> = ({ onCl
                 <View>
                   <Text className="text-sm font-medium text-gray-700 mb-1">Date de création</Text>
                   <Text className="text-sm text-gray-600">
-                    {selectedMemory.createdAt.toLocaleDateString('fr-FR', { 
+                    {new Date(selectedMemory.timestamp).toLocaleDateString('fr-FR', { 
                       weekday: 'long', 
                       year: 'numeric', 
                       month: 'long', 
                       day: 'numeric' 
-                    })} à {selectedMemory.createdAt.toLocaleTimeString('fr-FR')}
+                    })} à {new Date(selectedMemory.timestamp).toLocaleTimeString('fr-FR')}
                   </Text>
                 </View>
 
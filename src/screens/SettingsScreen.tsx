@@ -6,21 +6,121 @@ import { useAppStore } from '../state/appState';
 import { AuthenticationService } from '../services/AuthenticationService';
 import { MemoryService } from '../services/MemoryService';
 import { AuditService } from '../services/AuditService';
-import { AuditEvent } from '../types/core';
+import { ConversationService } from '../services/ConversationService';
+import ResponseCache from '../services/ResponseCache';
+import AttachmentService from '../services/AttachmentService';
+import SecretsManager from '../services/SecretsManager';
+import PluginService, { InstalledPlugin, PluginManifest, PLUGIN_PERMISSION_LABELS } from '../services/PluginService';
+import {
+  AuditEvent,
+  AuditEventType,
+  AuditExportFormat,
+  AuditIntegrityFailure,
+  AuditIntegrityReport,
+  AuditRetentionPolicy,
+  AuditSeverity,
+} from '../types/service';
 import { MemoryExplorerScreen } from './MemoryExplorerScreen';
 import { DeveloperSettingsScreen } from './DeveloperSettingsScreen';
+import { BackupScreen } from './BackupScreen';
 import FeatureFlagService, { FeatureFlags } from '../services/FeatureFlagService';
 
 interface SettingsScreenProps {
   onClose: () => void;
 }
 
+const INTEGRITY_FAILURE_LABELS: Record<AuditIntegrityFailure, string> = {
+  missing_entries: 'des entrées ont été supprimées',
+  broken_link: 'la chaîne est rompue',
+  modified_entry: 'une entrée a été modifiée',
+  unreadable_entry: 'une entrée est illisible',
+  invalid_checkpoint: 'un point de contrôle est invalide',
+  truncated: 'la fin du journal a été supprimée',
+};
+
+const AUDIT_TYPE_LABELS: Record<AuditEventType, string> = {
+  auth_success: 'Authentification réussie',
+  auth_failed: "Échec d'authentification",
+  memory_read: 'Lecture de mémoire',
+  memory_write: 'Écriture de mémoire',
+  memory_delete: 'Suppression de mémoire',
+  conversation_delete: 'Suppression de conversation',
+  settings_change: 'Réglage modifié',
+  panic_wipe: "Effacement d'urgence",
+  app_error: "Erreur de l'application",
+  api_call: 'Appel API',
+  biometric_used: 'Biométrie',
+  data_export: 'Export de données',
+  data_import: 'Import de données',
+  api_error: 'Erreur API',
+  provider_fallback: 'Fournisseur de secours',
+  llm_routing: 'Routage IA',
+  egress_blocked: 'Connexion bloquée',
+  generation_interrupted: 'Génération interrompue',
+  tts_used: 'Synthèse vocale',
+  model_upgrade: 'Modèle local',
+  plugin_installed: 'Plugin installé',
+  plugin_executed: 'Plugin exécuté',
+  consent_granted: 'Consentement accordé',
+  consent_denied: 'Consentement refusé',
+  performance_warning: 'Alerte de performance',
+  performance_metric: 'Mesure de performance',
+  audit_rotation: 'Rotation du journal',
+};
+
+const AUDIT_SEVERITIES: Array<{ value: AuditSeverity; label: string; badge: string }> = [
+  { value: 'low', label: 'Faible', badge: 'bg-gray-100 text-gray-700' },
+  { value: 'medium', label: 'Moyenne', badge: 'bg-yellow-100 text-yellow-800' },
+  { value: 'high', label: 'Élevée', badge: 'bg-orange-100 text-orange-800' },
+  { value: 'critical', label: 'Critique', badge: 'bg-red-100 text-red-800' },
+];
+
+const AUDIT_EVENTS_LIMIT = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RETENTION_AGE_OPTIONS: Array<{ value: number | null; label: string }> = [
+  { value: 30, label: '30 jours' },
+  { value: 90, label: '90 jours' },
+  { value: 180, label: '6 mois' },
+  { value: 365, label: '1 an' },
+  { value: null, label: 'Sans limite' },
+];
+
+const RETENTION_COUNT_OPTIONS: Array<{ value: number | null; label: string }> = [
+  { value: 1000, label: '1 000' },
+  { value: 10000, label: '10 000' },
+  { value: 50000, label: '50 000' },
+  { value: null, label: 'Sans limite' },
+];
+
+const EXPORT_RANGES: Array<{ days?: number; label: string }> = [
+  { days: 7, label: '7 jours' },
+  { days: 30, label: '30 jours' },
+  { days: 90, label: '90 jours' },
+  { label: 'Tout' },
+];
+
+// Entries logged before events were typed can carry names outside AuditEventType
+const formatAuditType = (type: string) =>
+  AUDIT_TYPE_LABELS[type as AuditEventType] || type.replace(/_/g, ' ');
+
 export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
   const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([]);
   const [memoryStats, setMemoryStats] = useState({ totalMemories: 0, totalSize: 0 });
   const [showAuditLog, setShowAuditLog] = useState(false);
+  const [auditIntegrity, setAuditIntegrity] = useState<AuditIntegrityReport | null>(null);
+  const [isVerifyingAudit, setIsVerifyingAudit] = useState(false);
+  const [auditTypes, setAuditTypes] = useState<{ type: AuditEventType; count: number }[]>([]);
+  const [selectedAuditTypes, setSelectedAuditTypes] = useState<AuditEventType[]>([]);
+  const [selectedSeverities, setSelectedSeverities] = useState<AuditSeverity[]>([]);
+  const [retentionPolicy, setRetentionPolicy] = useState<AuditRetentionPolicy | null>(null);
+  const [exportRangeIndex, setExportRangeIndex] = useState(1);
+  const [isExportingAudit, setIsExportingAudit] = useState(false);
   const [showMemoryExplorer, setShowMemoryExplorer] = useState(false);
   const [showDeveloperSettings, setShowDeveloperSettings] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [installedPlugins, setInstalledPlugins] = useState<InstalledPlugin[]>([]);
+  const [availablePlugins, setAvailablePlugins] = useState<PluginManifest[]>([]);
   
   const {
     isDarkMode,
@@ -29,18 +129,26 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
     setDarkMode,
     setTTSEnabled,
     setBiometricEnabled,
-    clearMessages,
+    startNewConversation,
     resetApp
   } = useAppStore();
 
   const authService = AuthenticationService.getInstance();
   const memoryService = MemoryService.getInstance();
   const auditService = AuditService.getInstance();
+  const pluginService = PluginService.getInstance();
 
   useEffect(() => {
     loadStats();
+    loadPlugins();
   }, []);
 
+  useEffect(() => {
+    if (showAuditLog) {
+      loadAuditEvents();
+    }
+  }, [showAuditLog, selectedAuditTypes, selectedSeverities]);
+
   const loadStats = async () => {
     try {
       const stats = await memoryService.getMemoryStats();
@@ -53,6 +161,132 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
     }
   };
 
+  const loadAuditEvents = async () => {
+    try {
+      const events = await auditService.getRecentEvents(AUDIT_EVENTS_LIMIT, {
+        types: selectedAuditTypes,
+        severities: selectedSeverities,
+      });
+      setAuditEvents(events);
+      setAuditTypes(await auditService.getEventTypes());
+      setRetentionPolicy(await auditService.loadRetentionPolicy());
+    } catch (error) {
+      console.error('Failed to load audit events:', error);
+    }
+  };
+
+  const updateRetentionPolicy = async (changes: Partial<AuditRetentionPolicy>) => {
+    try {
+      setRetentionPolicy(await auditService.updateRetentionPolicy(changes));
+      await loadAuditEvents();
+    } catch (error) {
+      console.error('Failed to update audit retention policy:', error);
+    }
+  };
+
+  const exportAuditLog = async (format: AuditExportFormat) => {
+    const days = EXPORT_RANGES[exportRangeIndex].days;
+    setIsExportingAudit(true);
+    try {
+      await auditService.exportEvents(format, days ? { since: Date.now() - days * DAY_MS } : {});
+      await loadAuditEvents();
+    } catch (error) {
+      console.error('Failed to export audit log:', error);
+      Alert.alert("Erreur", "Impossible d'exporter le journal d'audit");
+    } finally {
+      setIsExportingAudit(false);
+    }
+  };
+
+  const toggleAuditType = (type: AuditEventType) => {
+    setSelectedAuditTypes(prev =>
+      prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]
+    );
+  };
+
+  const toggleSeverity = (severity: AuditSeverity) => {
+    setSelectedSeverities(prev =>
+      prev.includes(severity) ? prev.filter(s => s !== severity) : [...prev, severity]
+    );
+  };
+
+  const verifyAuditLog = async () => {
+    setIsVerifyingAudit(true);
+    try {
+      setAuditIntegrity(await auditService.verifyIntegrity());
+    } catch (error) {
+      console.error('Failed to verify audit log:', error);
+    } finally {
+      setIsVerifyingAudit(false);
+    }
+  };
+
+  const loadPlugins = async () => {
+    try {
+      setInstalledPlugins(await pluginService.loadPlugins());
+      setAvailablePlugins(await pluginService.getAvailablePlugins());
+    } catch (error) {
+      console.error('Failed to load plugins:', error);
+    }
+  };
+
+  const formatPermissions = (permissions: InstalledPlugin['permissions']) =>
+    permissions.map(permission => PLUGIN_PERMISSION_LABELS[permission]).join(', ');
+
+  const handleInstallPlugin = (manifest: PluginManifest) => {
+    Alert.alert(
+      `Installer « ${manifest.name} » ?`,
+      manifest.permissions.length > 0
+        ? `Permissions demandées à la première utilisation : ${formatPermissions(manifest.permissions)}`
+        : "Ce plugin ne demande aucune permission.",
+      [
+        { text: "Annuler", style: "cancel" },
+        {
+          text: "Installer",
+          onPress: async () => {
+            try {
+              await pluginService.install(manifest.id);
+              loadPlugins();
+            } catch (error) {
+              console.error('Failed to install plugin:', error);
+              Alert.alert("Erreur", "Impossible d'installer le plugin");
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handlePluginToggle = async (plugin: InstalledPlugin, enabled: boolean) => {
+    await pluginService.setEnabled(plugin.id, enabled);
+    loadPlugins();
+  };
+
+  const handlePluginOptions = (plugin: InstalledPlugin) => {
+    Alert.alert(
+      plugin.name,
+      plugin.description,
+      [
+        ...(plugin.grantedPermissions.length > 0 ? [{
+          text: "Révoquer les permissions",
+          onPress: async () => {
+            await pluginService.revokePermissions(plugin.id);
+            loadPlugins();
+          }
+        }] : []),
+        {
+          text: "Désinstaller",
+          style: "destructive" as const,
+          onPress: async () => {
+            await pluginService.uninstall(plugin.id);
+            loadPlugins();
+          }
+        },
+        { text: "Annuler", style: "cancel" as const }
+      ]
+    );
+  };
+
   const handleBiometricToggle = async (enabled: boolean) => {
     if (enabled) {
       const result = await authService.authenticate("Activer l'authentification biométrique");
@@ -86,7 +320,10 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
           onPress: async () => {
             try {
               await memoryService.clearAllMemories();
-              clearMessages();
+              await ConversationService.getInstance().clearAllConversations();
+              await ResponseCache.getInstance().clear();
+              await AttachmentService.getInstance().clearAll();
+              startNewConversation();
               loadStats();
               Alert.alert("Succès", "Toutes les mémoires ont été supprimées");
             } catch (error) {
@@ -98,6 +335,29 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
     );
   };
 
+  const handleClearConversations = () => {
+    Alert.alert(
+      "Effacer les conversations",
+      "Toutes les conversations, y compris épinglées et archivées, et leurs photos seront supprimées. Cette action est irréversible.",
+      [
+        { text: "Annuler", style: "cancel" },
+        {
+          text: "Effacer",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await ConversationService.getInstance().clearAllConversations();
+              await AttachmentService.getInstance().clearAll();
+              startNewConversation();
+            } catch (error) {
+              Alert.alert("Erreur", "Impossible d'effacer les conversations");
+            }
+          }
+        }
+      ]
+    );
+  };
+
   const handlePanicWipe = async () => {
     const result = await authService.authenticate("PANIC WIPE - Confirmer la suppression totale");
     if (!result.success) return;
@@ -113,6 +373,11 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
           onPress: async () => {
             try {
               await memoryService.clearAllMemories();
+              await ConversationService.getInstance().clearAllConversations();
+              await ResponseCache.getInstance().clear();
+              await AttachmentService.getInstance().clearAll();
+              await pluginService.clearAll();
+              await SecretsManager.getInstance().emergencyWipe();
               await auditService.clearAll();
               resetApp();
               Alert.alert("Suppression terminée", "Toutes les données ont été supprimées. L'application va se fermer.", [
@@ -201,7 +466,10 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
             title="Journal d'audit"
             subtitle={`${auditEvents.length} événements récents`}
             rightElement={<Ionicons name="chevron-forward" size={20} color="#9CA3AF" />}
-            onPress={() => setShowAuditLog(true)}
+            onPress={() => {
+              setShowAuditLog(true);
+              verifyAuditLog();
+            }}
           />
         </View>
 
@@ -247,6 +515,48 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
           />
         </View>
 
+        {/* Plugins */}
+        <View className="mt-6">
+          <Text className="text-lg font-semibold text-gray-900 px-4 mb-4">
+            Plugins
+          </Text>
+
+          {installedPlugins.map((plugin) => (
+            <SettingItem
+              key={plugin.id}
+              icon="extension-puzzle"
+              title={`${plugin.name} ${plugin.version}`}
+              subtitle={
+                plugin.grantedPermissions.length > 0
+                  ? `Autorisé : ${formatPermissions(plugin.grantedPermissions)}`
+                  : plugin.permissions.length > 0
+                    ? 'Aucune permission accordée'
+                    : 'Aucune permission requise'
+              }
+              onPress={() => handlePluginOptions(plugin)}
+              rightElement={
+                <Switch
+                  value={plugin.enabled}
+                  onValueChange={(value) => handlePluginToggle(plugin, value)}
+                  trackColor={{ false: '#E5E7EB', true: '#3B82F6' }}
+                  thumbColor={plugin.enabled ? '#FFFFFF' : '#9CA3AF'}
+                />
+              }
+            />
+          ))}
+
+          {availablePlugins.map((manifest) => (
+            <SettingItem
+              key={manifest.id}
+              icon="add-circle"
+              title={manifest.name}
+              subtitle={manifest.description}
+              onPress={() => handleInstallPlugin(manifest)}
+              rightElement={<Text className="text-blue-500 font-medium">Installer</Text>}
+            />
+          ))}
+        </View>
+
         {/* Data Management */}
         <View className="mt-6">
           <Text className="text-lg font-semibold text-gray-900 px-4 mb-4">
@@ -260,21 +570,20 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
             rightElement={<Ionicons name="chevron-forward" size={20} color="#9CA3AF" />}
             onPress={() => setShowMemoryExplorer(true)}
           />
+
+          <SettingItem
+            icon="archive"
+            title="Sauvegarde et restauration"
+            subtitle="Archive chiffrée pour changer d'appareil"
+            rightElement={<Ionicons name="chevron-forward" size={20} color="#9CA3AF" />}
+            onPress={() => setShowBackup(true)}
+          />
           
           <SettingItem
             icon="refresh"
             title="Effacer les conversations"
-            subtitle="Supprimer l'historique des messages"
-            onPress={() => {
-              Alert.alert(
-                "Effacer les conversations",
-                "Supprimer l'historique des messages actuels ?",
-                [
-                  { text: "Annuler", style: "cancel" },
-                  { text: "Effacer", onPress: () => clearMessages() }
-                ]
-              );
-            }}
+            subtitle="Supprimer tout l'historique des conversations"
+            onPress={handleClearConversations}
           />
           
           <SettingItem
@@ -324,6 +633,16 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
         <MemoryExplorerScreen onClose={() => setShowMemoryExplorer(false)} />
       )}
 
+      {/* Backup Modal */}
+      {showBackup && (
+        <BackupScreen
+          onClose={() => {
+            setShowBackup(false);
+            loadStats();
+          }}
+        />
+      )}
+
       {/* Developer Settings Modal */}
       {showDeveloperSettings && (
         <DeveloperSettingsScreen onClose={() => setShowDeveloperSettings(false)} />
@@ -340,23 +659,192 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
               </Pressable>
             </View>
             
-            <ScrollView className="flex-1 px-4">
-              {auditEvents.map((event) => (
-                <View key={event.id} className="py-3 border-b border-gray-100">
-                  <View className="flex-row justify-between items-start">
-                    <Text className="text-sm font-medium text-gray-900">
-                      {event.action.replace(/_/g, ' ').toUpperCase()}
+            <View
+              className={`flex-row items-center mx-4 mt-3 p-3 rounded-xl ${
+                !auditIntegrity || isVerifyingAudit
+                  ? 'bg-gray-100'
+                  : auditIntegrity.valid ? 'bg-green-50' : 'bg-red-50'
+              }`}
+            >
+              <Ionicons
+                name={!auditIntegrity || isVerifyingAudit
+                  ? 'hourglass-outline'
+                  : auditIntegrity.valid ? 'shield-checkmark' : 'warning'}
+                size={20}
+                color={!auditIntegrity || isVerifyingAudit ? '#6B7280' : auditIntegrity.valid ? '#10B981' : '#EF4444'}
+              />
+              <View className="flex-1 ml-3">
+                {!auditIntegrity || isVerifyingAudit ? (
+                  <Text className="text-sm text-gray-700">Vérification de l'intégrité...</Text>
+                ) : auditIntegrity.valid ? (
+                  <>
+                    <Text className="text-sm font-medium text-green-800">Intégrité vérifiée</Text>
+                    <Text className="text-xs text-green-700">
+                      {auditIntegrity.checkedEntries} entrées et {auditIntegrity.checkedCheckpoints} points de contrôle vérifiés
                     </Text>
-                    <Text className="text-xs text-gray-500">
-                      {event.timestamp.toLocaleString('fr-FR')}
+                  </>
+                ) : (
+                  <>
+                    <Text className="text-sm font-medium text-red-800">Intégrité compromise</Text>
+                    <Text className="text-xs text-red-700">
+                      {auditIntegrity.firstBrokenSeq !== undefined ? `Entrée n° ${auditIntegrity.firstBrokenSeq} : ` : ''}
+                      {INTEGRITY_FAILURE_LABELS[auditIntegrity.failure!]}
+                    </Text>
+                  </>
+                )}
+              </View>
+              {!isVerifyingAudit && (
+                <Pressable onPress={verifyAuditLog} className="p-2">
+                  <Ionicons name="refresh" size={18} color="#6B7280" />
+                </Pressable>
+              )}
+            </View>
+
+            {/* Filters */}
+            <View className="border-b border-gray-100 mt-2">
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} className="px-4 py-2">
+                {AUDIT_SEVERITIES.map(severity => {
+                  const selected = selectedSeverities.includes(severity.value);
+                  return (
+                    <Pressable
+                      key={severity.value}
+                      onPress={() => toggleSeverity(severity.value)}
+                      className={`px-3 py-1 mr-2 rounded-full border ${
+                        selected ? 'bg-blue-500 border-blue-500' : 'bg-white border-gray-300'
+                      }`}
+                    >
+                      <Text className={`text-sm ${selected ? 'text-white' : 'text-gray-700'}`}>
+                        {severity.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} className="px-4 pb-2">
+                {auditTypes.map(({ type, count }) => {
+                  const selected = selectedAuditTypes.includes(type);
+                  return (
+                    <Pressable
+                      key={type}
+                      onPress={() => toggleAuditType(type)}
+                      className={`px-3 py-1 mr-2 rounded-full border ${
+                        selected ? 'bg-blue-500 border-blue-500' : 'bg-white border-gray-300'
+                      }`}
+                    >
+                      <Text className={`text-sm ${selected ? 'text-white' : 'text-gray-700'}`}>
+                        {formatAuditType(type)} ({count})
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+            </View>
+
+            <ScrollView className="flex-1 px-4">
+              {auditEvents.length === 0 && (
+                <Text className="text-gray-500 text-center py-6">Aucun événement</Text>
+              )}
+              {auditEvents.map((event) => {
+                const severity = AUDIT_SEVERITIES.find(s => s.value === event.severity);
+                return (
+                  <View key={event.id} className="py-3 border-b border-gray-100">
+                    <View className="flex-row justify-between items-start">
+                      <View className="flex-row items-center flex-1 mr-2">
+                        <Text className="text-sm font-medium text-gray-900">
+                          {formatAuditType(event.type)}
+                        </Text>
+                        {severity && (
+                          <Text className={`text-xs px-2 py-0.5 ml-2 rounded-full ${severity.badge}`}>
+                            {severity.label}
+                          </Text>
+                        )}
+                      </View>
+                      <Text className="text-xs text-gray-500">
+                        {new Date(event.timestamp).toLocaleString('fr-FR')}
+                      </Text>
+                    </View>
+                    <Text className="text-sm text-gray-600 mt-1">
+                      {event.message}
                     </Text>
+                    {event.metadata && (
+                      <Text className="text-xs text-gray-400 mt-1">
+                        {Object.entries(event.metadata)
+                          .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`)
+                          .join(' · ')}
+                      </Text>
+                    )}
                   </View>
-                  <Text className="text-sm text-gray-600 mt-1">
-                    {event.detail}
-                  </Text>
-                </View>
-              ))}
+                );
+              })}
             </ScrollView>
+
+            {/* Retention and export */}
+            {retentionPolicy && (
+              <View className="border-t border-gray-200 px-4 py-3">
+                <Text className="text-sm font-medium text-gray-900 mb-2">Conservation</Text>
+                <View className="flex-row flex-wrap">
+                  {RETENTION_AGE_OPTIONS.map(option => {
+                    const selected = retentionPolicy.maxAgeDays === option.value;
+                    return (
+                      <Pressable
+                        key={option.label}
+                        onPress={() => updateRetentionPolicy({ maxAgeDays: option.value })}
+                        className={`px-3 py-1 rounded mr-2 mb-2 ${selected ? 'bg-blue-500' : 'bg-gray-100'}`}
+                      >
+                        <Text className={`text-sm ${selected ? 'text-white' : 'text-gray-700'}`}>{option.label}</Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+                <View className="flex-row flex-wrap items-center">
+                  <Text className="text-xs text-gray-500 mr-2 mb-2">Entrées max.</Text>
+                  {RETENTION_COUNT_OPTIONS.map(option => {
+                    const selected = retentionPolicy.maxEntries === option.value;
+                    return (
+                      <Pressable
+                        key={option.label}
+                        onPress={() => updateRetentionPolicy({ maxEntries: option.value })}
+                        className={`px-3 py-1 rounded mr-2 mb-2 ${selected ? 'bg-blue-500' : 'bg-gray-100'}`}
+                      >
+                        <Text className={`text-sm ${selected ? 'text-white' : 'text-gray-700'}`}>{option.label}</Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+
+                <Text className="text-sm font-medium text-gray-900 mt-2 mb-2">Exporter</Text>
+                <View className="flex-row flex-wrap">
+                  {EXPORT_RANGES.map((range, index) => (
+                    <Pressable
+                      key={range.label}
+                      onPress={() => setExportRangeIndex(index)}
+                      className={`px-3 py-1 rounded mr-2 mb-2 ${exportRangeIndex === index ? 'bg-blue-500' : 'bg-gray-100'}`}
+                    >
+                      <Text className={`text-sm ${exportRangeIndex === index ? 'text-white' : 'text-gray-700'}`}>
+                        {range.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <View className="flex-row">
+                  {(['jsonl', 'csv'] as AuditExportFormat[]).map(format => (
+                    <Pressable
+                      key={format}
+                      onPress={() => exportAuditLog(format)}
+                      disabled={isExportingAudit}
+                      className={`flex-1 flex-row items-center justify-center py-2 rounded-lg bg-blue-100 ${
+                        format === 'jsonl' ? 'mr-2' : ''
+                      } ${isExportingAudit ? 'opacity-50' : ''}`}
+                    >
+                      <Ionicons name="share-outline" size={16} color="#1E40AF" />
+                      <Text className="text-blue-800 text-sm font-medium ml-2">
+                        {format === 'jsonl' ? 'JSON Lines' : 'CSV'}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+            )}
           </SafeAreaView>
         </View>
       )}
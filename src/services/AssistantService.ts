@@ -1,11 +1,32 @@
 import { AssistantMessage } from '../types/core';
-import { AIMessage } from '../types/ai';
+import { AIMessage, AIToolResultPart } from '../types/ai';
 import { MemoryService } from './MemoryService';
+import { ConversationService } from './ConversationService';
 import { AuditService } from './AuditService';
-import ResilientLLMService from './LLMProvider';
+import ResilientLLMService, { GenerationAbortedError, LLMOptions, LLMResponse, ProviderChain } from './LLMProvider';
+import ToolRegistry from './ToolRegistry';
+import PluginService from './PluginService';
 import FeatureFlagService, { FeatureFlags } from './FeatureFlagService';
+import AttachmentService from './AttachmentService';
+import { estimateTokens } from './Tokenizer';
+import { UnsupportedContentError } from '../api/message-format';
 import * as Speech from 'expo-speech';
 
+export interface GenerationOptions {
+  // Aborting stops the underlying request; the partial answer goes to onInterrupted
+  signal?: AbortSignal;
+  onInterrupted?: (partialResponse: string) => void;
+  // Receives the apology shown when generation fails, which is not an answer; onComplete does without it
+  onError?: (errorMessage: string) => void;
+  // Stored conversation the messages belong to, whose summary replaces early turns that do not fit
+  conversationId?: string;
+}
+
+// Memories share the context window with the conversation, which is trimmed per provider
+const MEMORY_CONTEXT_TOKENS = 800;
+// Model calls that may request tools before a text answer is required
+const MAX_TOOL_ITERATIONS = 5;
+
 export class AssistantService {
   private static instance: AssistantService;
   private memoryService = MemoryService.getInstance();
@@ -33,12 +54,14 @@ export class AssistantService {
    * @param messages Conversation history
    * @param onToken Callback for streaming tokens
    * @param onComplete Callback when response is complete
-   * @returns Complete response text
+   * @param options Cancellation signal and interruption callback
+   * @returns Complete response text, or the partial text if interrupted
    */
   async generateResponse(
     messages: AssistantMessage[],
     onToken?: (token: string) => void,
-    onComplete?: (fullResponse: string) => void
+    onComplete?: (fullResponse: string) => void,
+    options: GenerationOptions = {}
   ): Promise<string> {
     // Prevent concurrent generation
     if (this.isGenerating) {
@@ -46,21 +69,31 @@ export class AssistantService {
     }
 
     this.isGenerating = true;
+    let partialResponse = '';
     
     try {
+      // An installed plugin answers its intents without calling the model
+      const lastMessage = messages[messages.length - 1];
+      if (lastMessage?.isUser && lastMessage.content.trim()) {
+        const pluginResponse = await PluginService.getInstance().handleUtterance(lastMessage.content);
+        if (pluginResponse !== null) {
+          onToken?.(pluginResponse);
+          onComplete?.(pluginResponse);
+          return pluginResponse;
+        }
+      }
+
       // Convert messages to AI format
-      const aiMessages: AIMessage[] = messages.map(msg => ({
-        role: msg.isUser ? 'user' : 'assistant',
-        content: msg.content
-      }));
+      const aiMessages: AIMessage[] = await Promise.all(messages.map(async msg => ({
+        role: msg.isUser ? 'user' as const : 'assistant' as const,
+        content: await AttachmentService.getInstance().buildContent(msg)
+      })));
 
       // Add context from memory if enabled
       if (FeatureFlagService.getInstance().isEnabled(FeatureFlags.CONTEXT_MEMORY)) {
-        const recentMemories = await this.memoryService.getMemories(undefined, 5);
-        if (recentMemories.length > 0) {
-          const memoryContext = recentMemories
-            .map(m => `[Mémoire: ${m.content}]`)
-            .join('\n');
+        const memories = await this.findRelevantMemories(messages);
+        if (memories.length > 0) {
+          const memoryContext = this.fitMemories(memories.map(content => `[Mémoire: ${content}]`));
           
           aiMessages.unshift({
             role: 'system',
@@ -80,71 +113,157 @@ export class AssistantService {
       }
 
       const llmService = ResilientLLMService.getInstance();
-      const currentProvider = llmService.getCurrentProvider();
-
-      // Use streaming if supported and enabled
-      if (FeatureFlagService.getInstance().isEnabled(FeatureFlags.STREAMING_RESPONSES) && 
-          currentProvider.supportsStreaming && onToken) {
-        
-        let fullResponse = '';
-        
-        await llmService.streamResponse(aiMessages, {
-          maxTokens: 1024,
-          temperature: 0.7
-        }, {
-          onToken: (token) => {
-            fullResponse = token;
-            onToken(token);
-          },
-          onComplete: (response) => {
-            fullResponse = response.content;
-            this.saveConversationMemory(messages, fullResponse);
-            if (onComplete) {
-              onComplete(fullResponse);
-            }
-          },
-          onError: (error) => {
-            console.error('Streaming failed:', error);
-            this.handleGenerationError(error, onToken, onComplete);
-          }
-        });
+      const streamingEnabled = FeatureFlagService.getInstance().isEnabled(FeatureFlags.STREAMING_RESPONSES) && !!onToken;
+      const tools = FeatureFlagService.getInstance().isEnabled(FeatureFlags.TOOL_CALLING)
+        ? ToolRegistry.getInstance().getDefinitions()
+        : [];
+      const conversationSummary = options.conversationId
+        ? await this.findConversationSummary(options.conversationId, messages)
+        : undefined;
 
-        return fullResponse;
-      } else {
-        // Non-streaming response
-        const response = await llmService.generateResponse(aiMessages, {
+      // Each tool call made by the model is run and its result sent back, until it answers in text
+      let fullResponse = '';
+      let provider = '';
+      let useStreaming = false;
+      for (let iteration = 0; ; iteration++) {
+        const toolChoice: LLMOptions['toolChoice'] = iteration < MAX_TOOL_ITERATIONS ? 'auto' : 'none';
+        const requestOptions: LLMOptions = {
           maxTokens: 1024,
-          temperature: 0.7
-        });
+          temperature: 0.7,
+          signal: options.signal,
+          ...(tools.length > 0 && { tools, toolChoice }),
+          ...(conversationSummary && { conversationSummary }),
+        };
 
-        const fullResponse = response.content;
+        // Streaming depends on the provider routing picks for this call
+        const chain = await llmService.selectProviders(aiMessages, requestOptions);
+        useStreaming = streamingEnabled && chain.primary.supportsStreaming;
 
-        // Simulate streaming for consistency
-        if (onToken) {
-          const words = fullResponse.split(' ');
-          for (let i = 0; i < words.length; i++) {
-            const partial = words.slice(0, i + 1).join(' ');
-            onToken(partial);
-            await new Promise(resolve => setTimeout(resolve, 30));
-          }
+        const response = useStreaming
+          ? await this.streamTurn(aiMessages, requestOptions, chain, (text) => {
+              partialResponse = text;
+              onToken!(text);
+            })
+          : await llmService.generateResponse(aiMessages, requestOptions, chain);
+
+        if (!response.toolCalls?.length || toolChoice === 'none') {
+          fullResponse = response.content;
+          provider = response.provider;
+          break;
         }
 
-        this.saveConversationMemory(messages, fullResponse);
+        aiMessages.push({
+          role: 'assistant',
+          content: [
+            ...(response.content.trim() ? [{ type: 'text' as const, text: response.content }] : []),
+            ...response.toolCalls.map(call => ({ type: 'tool_call' as const, ...call })),
+          ],
+        });
 
-        if (onComplete) {
-          onComplete(fullResponse);
+        const results: AIToolResultPart[] = [];
+        for (const call of response.toolCalls) {
+          if (options.signal?.aborted) {
+            throw new GenerationAbortedError();
+          }
+          results.push(await ToolRegistry.getInstance().execute(call, { signal: options.signal }));
         }
+        aiMessages.push({ role: 'user', content: results });
+      }
 
-        return fullResponse;
+      // An answer that was not streamed is delivered at once
+      if (onToken && !useStreaming) {
+        partialResponse = fullResponse;
+        onToken(fullResponse);
       }
+
+      this.saveConversationMemory(messages, fullResponse, provider);
+
+      if (onComplete) {
+        onComplete(fullResponse);
+      }
+
+      return fullResponse;
     } catch (error) {
+      if (options.signal?.aborted) {
+        return this.handleInterruption(partialResponse, options);
+      }
       console.error('Failed to generate response:', error);
-      return this.handleGenerationError(error, onToken, onComplete);
+      return this.handleGenerationError(error, options, onToken, onComplete);
     } finally {
       this.isGenerating = false;
     }
   }
 
+  /**
+   * Stream one model call; resolves with the complete response, tool calls included
+   * @param onText Receives the text accumulated so far
+   */
+  private streamTurn(
+    messages: AIMessage[],
+    requestOptions: LLMOptions,
+    chain: ProviderChain,
+    onText: (text: string) => void
+  ): Promise<LLMResponse> {
+    return new Promise((resolve, reject) => {
+      let text = '';
+      ResilientLLMService.getInstance().streamResponse(messages, requestOptions, {
+        onToken: (token) => {
+          text += token;
+          onText(text);
+        },
+        onComplete: (response) => {
+          // A non-streaming fallback completes without emitting any tokens
+          if (text !== response.content) {
+            onText(response.content);
+          }
+          resolve(response);
+        },
+        onError: reject,
+      }, chain).catch(reject);
+    });
+  }
+
+  // The rolling summary, if the messages it was written for are still the start of the conversation
+  private async findConversationSummary(
+    conversationId: string,
+    messages: AssistantMessage[]
+  ): Promise<LLMOptions['conversationSummary']> {
+    try {
+      const summary = await ConversationService.getInstance().getSummary(conversationId);
+      const index = summary ? messages.findIndex(message => message.id === summary.throughMessageId) : -1;
+      return index >= 0 ? { content: summary!.content, summarizedMessages: index + 1 } : undefined;
+    } catch (error) {
+      console.error('Failed to load conversation summary:', error);
+      return undefined;
+    }
+  }
+
+  // Memories related to the latest question, or the most recent ones when it has no text
+  private async findRelevantMemories(messages: AssistantMessage[]): Promise<string[]> {
+    const question = [...messages].reverse().find(message => message.isUser)?.content.trim();
+    if (!question) {
+      const recent = await this.memoryService.getMemories(undefined, 5);
+      return recent.map(memory => memory.content);
+    }
+
+    const relevant = await this.memoryService.searchSimilar(question, 5);
+    return relevant.map(memory => memory.content);
+  }
+
+  // Memories in the given order, as many as fit in the memory budget
+  private fitMemories(memories: string[]): string {
+    const kept: string[] = [];
+    let tokens = 0;
+
+    for (const memory of memories) {
+      tokens += estimateTokens(memory);
+      if (tokens > MEMORY_CONTEXT_TOKENS) break;
+      kept.push(memory);
+    }
+
+    return kept.join('\n');
+  }
+
   private getSystemPrompt(memoryContext?: string): string {
     const basePrompt = `Tu es monVOX, un assistant IA privé et sécurisé qui fonctionne entièrement sur l'appareil de l'utilisateur. Tu parles français canadien et tu es très utile, respectueux et empathique.
 
@@ -165,7 +284,7 @@ ${memoryContext}`;
     return basePrompt;
   }
 
-  private saveConversationMemory(messages: AssistantMessage[], response: string): void {
+  private saveConversationMemory(messages: AssistantMessage[], response: string, provider: string): void {
     if (!FeatureFlagService.getInstance().isEnabled(FeatureFlags.CONTEXT_MEMORY)) {
       return;
     }
@@ -176,35 +295,48 @@ ${memoryContext}`;
       { 
         type: 'conversation', 
         timestamp: Date.now(),
-        provider: ResilientLLMService.getInstance().getCurrentProvider().name
+        provider
       }
-    ).then(() => {
-      this.auditService.log('memory_write', 'Conversation saved to memory');
-    }).catch((error) => {
+    ).catch((error) => {
       console.error('Failed to save conversation memory:', error);
     });
   }
 
   private handleGenerationError(
     error: unknown, 
+    options: GenerationOptions,
     onToken?: (token: string) => void,
     onComplete?: (fullResponse: string) => void
   ): string {
-    this.auditService.log('auth_failed', `Response generation failed: ${error}`);
+    this.auditService.log('app_error', `Response generation failed: ${error}`);
     
-    const errorMessage = 'Désolé, je ne peux pas traiter votre demande en ce moment. Veuillez réessayer.';
+    const errorMessage = error instanceof UnsupportedContentError
+      ? "Désolé, aucun modèle disponible ne peut analyser les pièces jointes de cette conversation."
+      : 'Désolé, je ne peux pas traiter votre demande en ce moment. Veuillez réessayer.';
     
     if (onToken) {
       onToken(errorMessage);
     }
     
-    if (onComplete) {
+    if (options.onError) {
+      options.onError(errorMessage);
+    } else if (onComplete) {
       onComplete(errorMessage);
     }
 
     return errorMessage;
   }
 
+  private handleInterruption(partialResponse: string, options: GenerationOptions): string {
+    this.auditService.log('generation_interrupted', `Response generation interrupted after ${partialResponse.length} characters`);
+    
+    if (options.onInterrupted) {
+      options.onInterrupted(partialResponse);
+    }
+
+    return partialResponse;
+  }
+
   async speakText(text: string): Promise<void> {
     try {
       await Speech.speak(text, {
@@ -0,0 +1,120 @@
+import * as FileSystem from 'expo-file-system';
+import * as ImagePicker from 'expo-image-picker';
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import { AssistantMessage, MessageAttachment } from '../types/core';
+import { AIContentPart, AIMessage } from '../types/ai';
+
+export type ImageSource = 'library' | 'camera';
+
+// Vision models downscale anything larger, so sending more only costs bandwidth
+const MAX_IMAGE_DIMENSION = 1568;
+const JPEG_QUALITY = 0.8;
+
+/**
+ * Photos attached to chat messages. They are re-encoded as JPEG, downscaled, and kept in the
+ * app's document directory so the conversation can send them again on later turns.
+ */
+class AttachmentService {
+  private static instance: AttachmentService;
+  private readonly attachmentsDirectory = `${FileSystem.documentDirectory}attachments/`;
+
+  public static getInstance(): AttachmentService {
+    if (!AttachmentService.instance) {
+      AttachmentService.instance = new AttachmentService();
+    }
+    return AttachmentService.instance;
+  }
+
+  private constructor() {}
+
+  /**
+   * Let the user pick or take a photo
+   * @returns The stored attachment, or null if the user cancelled
+   */
+  async pickImage(source: ImageSource): Promise<MessageAttachment | null> {
+    const permission = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      throw new Error(source === 'camera' ? "Accès à l'appareil photo refusé" : 'Accès aux photos refusé');
+    }
+
+    const options: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], quality: 1 };
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    const asset = result.assets[0];
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(asset.width, asset.height));
+    const resized = await manipulateAsync(
+      asset.uri,
+      scale < 1 ? [{ resize: { width: Math.round(asset.width * scale) } }] : [],
+      { compress: JPEG_QUALITY, format: SaveFormat.JPEG }
+    );
+
+    const id = `img_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+    const uri = `${this.attachmentsDirectory}${id}.jpg`;
+    await FileSystem.makeDirectoryAsync(this.attachmentsDirectory, { intermediates: true });
+    await FileSystem.moveAsync({ from: resized.uri, to: uri });
+
+    return {
+      id,
+      type: 'image',
+      uri,
+      mimeType: 'image/jpeg',
+      width: resized.width,
+      height: resized.height,
+    };
+  }
+
+  /**
+   * Build the content sent to the model for a chat message: its photos first, then its text
+   */
+  async buildContent(message: AssistantMessage): Promise<AIMessage['content']> {
+    if (!message.attachments || message.attachments.length === 0) {
+      return message.content;
+    }
+
+    const parts: AIContentPart[] = [];
+    for (const attachment of message.attachments) {
+      try {
+        const base64 = await FileSystem.readAsStringAsync(attachment.uri, {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+        parts.push({ type: 'image', mediaType: attachment.mimeType, uri: attachment.uri, base64 });
+      } catch (error) {
+        // A deleted file leaves the question without its photo rather than failing the request
+        console.warn('Failed to read attachment:', error);
+      }
+    }
+
+    if (message.content.trim()) {
+      parts.push({ type: 'text', text: message.content });
+    }
+    return parts;
+  }
+
+  // Files of the photos of a deleted conversation
+  async deleteAttachments(attachments: MessageAttachment[]): Promise<void> {
+    for (const attachment of attachments) {
+      try {
+        await FileSystem.deleteAsync(attachment.uri, { idempotent: true });
+      } catch (error) {
+        console.error('Failed to delete attachment:', error);
+      }
+    }
+  }
+
+  async clearAll(): Promise<void> {
+    try {
+      await FileSystem.deleteAsync(this.attachmentsDirectory, { idempotent: true });
+    } catch (error) {
+      console.error('Failed to delete attachments:', error);
+    }
+  }
+}
+
+export default AttachmentService;
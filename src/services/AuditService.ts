@@ -1,9 +1,135 @@
 import * as SQLite from 'expo-sqlite';
-import { AuditAction, AuditEvent } from '../types/core';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system/next';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  AuditEvent,
+  AuditEventFilter,
+  AuditEventType,
+  AuditExportFormat,
+  AuditIntegrityFailure,
+  AuditIntegrityReport,
+  AuditLogOptions,
+  AuditRetentionPolicy,
+  AuditSeverity,
+} from '../types/service';
+import FeatureFlagService from './FeatureFlagService';
+import SecretsManager from './SecretsManager';
+import { DatabaseCipher, ENCRYPTED_PREFIX, isEncryptedValue, isEncryptionEnabled, loadDatabaseCipher } from './DatabaseCipher';
+import { hmacSha256 } from '../utils/crypto';
+import { bytesToHex, utf8ToBytes } from '../utils/encoding';
 
+// Events encrypted or chained per transaction when migrating existing ones
+const MIGRATION_BATCH_SIZE = 200;
+// Entries read at a time while verifying the chain or exporting it
+const VERIFY_BATCH_SIZE = 500;
+const EXPORT_BATCH_SIZE = 500;
+// A signed checkpoint is recorded every this many entries
+const CHECKPOINT_INTERVAL = 50;
+// Previous hash of the very first entry
+const GENESIS_HASH = '0'.repeat(64);
+const SCHEMA_VERSION = 2;
+// Version 1 hashes predate severity and metadata; entries keep the version they were sealed with
+const HASH_VERSION = 2;
+const RETENTION_POLICY_KEY = 'audit_retention_policy';
+// Shown in place of an entry that no longer decrypts
+const UNREADABLE_ENTRY_MESSAGE = 'Entrée illisible';
+// Keychain entry holding the chain bounds
+const CHAIN_BOUNDS_KEY = 'audit_chain_bounds';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Share of maxEntries kept when the log is rotated for exceeding it
+const ROTATION_KEEP_RATIO = 0.9;
+
+export const DEFAULT_AUDIT_RETENTION_POLICY: AuditRetentionPolicy = {
+  maxAgeDays: 180,
+  maxEntries: 10000,
+};
+
+const EXPORT_MIME_TYPES: Record<AuditExportFormat, { mimeType: string; UTI: string }> = {
+  jsonl: { mimeType: 'application/x-ndjson', UTI: 'public.json' },
+  csv: { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+};
+const CSV_COLUMNS = ['seq', 'timestamp', 'type', 'severity', 'message', 'metadata'];
+
+export const DEFAULT_AUDIT_SEVERITY: Record<AuditEventType, AuditSeverity> = {
+  auth_success: 'low',
+  auth_failed: 'high',
+  memory_read: 'low',
+  memory_write: 'low',
+  memory_delete: 'medium',
+  conversation_delete: 'medium',
+  settings_change: 'medium',
+  panic_wipe: 'critical',
+  app_error: 'high',
+  api_call: 'low',
+  biometric_used: 'low',
+  data_export: 'medium',
+  data_import: 'medium',
+  api_error: 'medium',
+  provider_fallback: 'medium',
+  llm_routing: 'low',
+  egress_blocked: 'high',
+  generation_interrupted: 'low',
+  tts_used: 'low',
+  model_upgrade: 'medium',
+  plugin_installed: 'medium',
+  plugin_executed: 'low',
+  consent_granted: 'low',
+  consent_denied: 'medium',
+  performance_warning: 'medium',
+  performance_metric: 'low',
+  audit_rotation: 'medium',
+};
+
+interface ChainHead {
+  seq: number;
+  hash: string;
+}
+
+// Where the log starts, after its pruned entries, and where it ends
+interface ChainBounds {
+  anchor: ChainHead;
+  head: ChainHead;
+}
+
+// Content covered by an entry's hash, with the message and metadata in clear
+interface ChainedEntry {
+  seq: number;
+  prevHash: string;
+  id: string;
+  type: string;
+  message: string;
+  timestamp: number;
+  severity: string;
+  metadata: string | null;
+  hashVersion: number;
+}
+
+/**
+ * Audit trail in SQLite. Event messages and metadata are encrypted while ENHANCED_ENCRYPTION is
+ * on; the type, severity and timestamp stay in clear for filtering.
+ *
+ * Entries form a hash chain: each one stores the HMAC of its content and of the previous entry's
+ * hash, under a key kept in the keychain, and signed checkpoints are recorded regularly. The
+ * bounds of the chain are kept in the keychain too. Editing, removing or inserting an entry,
+ * including removing the first or last ones or all of them, is reported by verifyIntegrity().
+ *
+ * Old entries are pruned by the retention policy when the app starts and when the policy
+ * changes; a signed checkpoint of the last pruned entry keeps the rest of the chain verifiable.
+ */
 export class AuditService {
   private static instance: AuditService;
   private db: SQLite.SQLiteDatabase | null = null;
+  private cipher: DatabaseCipher | null = null;
+  private chainKey: Uint8Array | null = null;
+  private head: ChainHead = { seq: 0, hash: GENESIS_HASH };
+  // Last entry removed on purpose, by the retention policy or a panic wipe
+  private anchor: ChainHead = { seq: 0, hash: GENESIS_HASH };
+  private savedBounds: string | null = null;
+  private initialization: Promise<void> | null = null;
+  private retentionPolicy: AuditRetentionPolicy | null = null;
+  // Entries are appended one at a time so that each links to the one before
+  private writeQueue: Promise<void> = Promise.resolve();
 
   public static getInstance(): AuditService {
     if (!AuditService.instance) {
@@ -16,96 +142,774 @@ export class AuditService {
     this.initialize();
   }
 
-  private async initialize(): Promise<void> {
-    try {
-      this.db = await SQLite.openDatabaseAsync('mongars_audit.db');
-      
-      await this.db.execAsync(`
-        PRAGMA journal_mode = WAL;
-        CREATE TABLE IF NOT EXISTS audit_log (
-          id TEXT PRIMARY KEY,
-          action TEXT NOT NULL,
-          detail TEXT NOT NULL,
-          timestamp INTEGER NOT NULL
+  // Shared by concurrent callers; retried on the next call after a failure
+  private initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.openDatabase().catch(error => {
+        console.error('Failed to initialize audit database:', error);
+        this.initialization = null;
+      });
+    }
+    return this.initialization;
+  }
+
+  private async openDatabase(): Promise<void> {
+    const db = await SQLite.openDatabaseAsync('mongars_audit.db');
+
+    await db.execAsync(`
+      PRAGMA journal_mode = WAL;
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id TEXT PRIMARY KEY,
+        action TEXT NOT NULL,
+        detail TEXT NOT NULL,
+        timestamp INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_timestamp ON audit_log(timestamp);
+    `);
+
+    const versionRow = await db.getFirstAsync('PRAGMA user_version');
+    if (((versionRow as any)?.user_version ?? 0) < 1) {
+      await db.withTransactionAsync(() => db.execAsync(`
+        ALTER TABLE audit_log ADD COLUMN seq INTEGER;
+        ALTER TABLE audit_log ADD COLUMN prev_hash TEXT;
+        ALTER TABLE audit_log ADD COLUMN hash TEXT;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_seq ON audit_log(seq);
+        CREATE TABLE IF NOT EXISTS audit_checkpoints (
+          seq INTEGER PRIMARY KEY,
+          hash TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          signature TEXT NOT NULL
         );
-        CREATE INDEX IF NOT EXISTS idx_audit_timestamp ON audit_log(timestamp);
-      `);
-    } catch (error) {
-      console.error('Failed to initialize audit database:', error);
+        PRAGMA user_version = 1;
+      `));
+    }
+    if (((versionRow as any)?.user_version ?? 0) < 2) {
+      await db.withTransactionAsync(async () => {
+        await db.execAsync(`
+          ALTER TABLE audit_log RENAME COLUMN action TO type;
+          ALTER TABLE audit_log RENAME COLUMN detail TO message;
+          ALTER TABLE audit_log ADD COLUMN severity TEXT NOT NULL DEFAULT 'low';
+          ALTER TABLE audit_log ADD COLUMN metadata TEXT;
+          ALTER TABLE audit_log ADD COLUMN hash_version INTEGER NOT NULL DEFAULT 1;
+          CREATE INDEX IF NOT EXISTS idx_audit_type ON audit_log(type);
+          CREATE INDEX IF NOT EXISTS idx_audit_severity ON audit_log(severity);
+        `);
+        // Older entries keep their type, even when it was the wrong one, since it is covered by
+        // their hash; their severity is not, and is derived from the type
+        for (const [type, severity] of Object.entries(DEFAULT_AUDIT_SEVERITY)) {
+          await db.runAsync('UPDATE audit_log SET severity = ? WHERE type = ?', [severity, type]);
+        }
+        await db.execAsync(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+      });
+    }
+
+    await FeatureFlagService.getInstance().initialize();
+    await this.loadKeys(db);
+    this.db = db;
+    await this.discardEntriesOfLostKeys();
+
+    const last = await db.getFirstAsync('SELECT seq, hash FROM audit_log WHERE seq IS NOT NULL ORDER BY seq DESC LIMIT 1');
+    if (last) {
+      this.head = { seq: (last as any).seq, hash: (last as any).hash };
+    }
+    await this.loadBounds();
+    await this.chainExistingEvents();
+    await this.saveBounds();
+
+    this.encryptExistingEvents().catch(error => {
+      console.error('Failed to encrypt existing audit events:', error);
+    });
+    this.enqueue(() => this.pruneEvents()).catch(error => {
+      console.error('Failed to apply audit retention policy:', error);
+    });
+  }
+
+  // Also run by a panic wipe, to replace the keys that SecretsManager.emergencyWipe() removed
+  private async loadKeys(db: SQLite.SQLiteDatabase): Promise<void> {
+    this.cipher = await loadDatabaseCipher(db, 'audit_db');
+    this.chainKey = await SecretsManager.getInstance().getOrCreateEncryptionKey('audit_chain');
+  }
+
+  // Entries sealed or encrypted with keys an emergency wipe removed, when the app was closed
+  // before clearAll() ran, can never be verified or read again. Keys are also created new on the
+  // first launch with the chain or with encryption, when every entry is unchained and in clear.
+  private async discardEntriesOfLostKeys(): Promise<void> {
+    const secrets = SecretsManager.getInstance();
+    const chainKeyLost = secrets.isNewEncryptionKey('audit_chain');
+    const cipherKeyLost = secrets.isNewEncryptionKey('audit_db_kek');
+    if (!chainKeyLost && !cipherKeyLost) return;
+
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (chainKeyLost) {
+      conditions.push('seq IS NOT NULL');
+    }
+    if (cipherKeyLost) {
+      conditions.push('substr(message, 1, ?) = ?', 'substr(metadata, 1, ?) = ?');
+      params.push(ENCRYPTED_PREFIX.length, ENCRYPTED_PREFIX, ENCRYPTED_PREFIX.length, ENCRYPTED_PREFIX);
     }
+    if (chainKeyLost) {
+      // The bounds recorded for the lost chain would report the new one as cut
+      await SecretsManager.getInstance().setSecureValue(CHAIN_BOUNDS_KEY, JSON.stringify(genesisBounds()));
+    }
+    await this.db!.withTransactionAsync(async () => {
+      await this.db!.runAsync(`DELETE FROM audit_log WHERE ${conditions.join(' OR ')}`, params);
+      if (chainKeyLost) {
+        await this.db!.runAsync('DELETE FROM audit_checkpoints');
+      }
+    });
+  }
+
+  private async readBounds(): Promise<ChainBounds | null> {
+    const stored = await SecretsManager.getInstance().getSecureValue(CHAIN_BOUNDS_KEY);
+    return stored ? JSON.parse(stored) : null;
   }
 
-  async log(action: AuditAction | string, detail: string): Promise<void> {
-    if (!this.db) {
-      await this.initialize();
+  // Logs kept before the bounds were recorded start them from their first entry
+  private async loadBounds(): Promise<void> {
+    const bounds = await this.readBounds();
+    if (!bounds) {
+      const first = await this.db!.getFirstAsync(
+        'SELECT seq, prev_hash FROM audit_log WHERE seq IS NOT NULL ORDER BY seq LIMIT 1'
+      );
+      if (first) {
+        this.anchor = { seq: (first as any).seq - 1, hash: (first as any).prev_hash };
+      }
+      return;
     }
 
+    this.anchor = bounds.anchor;
+    this.savedBounds = JSON.stringify(bounds);
+    // Entries removed from the end are not written over: the chain goes on from the recorded head,
+    // so that verifyIntegrity() keeps reporting the gap
+    if (bounds.head.seq > this.head.seq) {
+      this.head = bounds.head;
+    }
+  }
+
+  // The head is saved after the entries are written, and may lag behind them after a crash;
+  // the anchor is saved before the entries it replaces are deleted
+  private async saveBounds(): Promise<boolean> {
+    const bounds = JSON.stringify({ anchor: this.anchor, head: this.head });
+    if (bounds === this.savedBounds) return true;
+
     try {
-      const id = this.generateId();
-      const timestamp = Date.now();
-      
-      await this.db!.runAsync(
-        'INSERT INTO audit_log (id, action, detail, timestamp) VALUES (?, ?, ?, ?)',
-        [id, action, detail, timestamp]
+      await SecretsManager.getInstance().setSecureValue(CHAIN_BOUNDS_KEY, bounds);
+      this.savedBounds = bounds;
+      return true;
+    } catch (error) {
+      console.error('Failed to save audit chain bounds:', error);
+      return false;
+    }
+  }
+
+  // Events logged before the chain existed are sealed into it, oldest first
+  private async chainExistingEvents(): Promise<void> {
+    for (;;) {
+      const rows = await this.db!.getAllAsync(
+        'SELECT * FROM audit_log WHERE seq IS NULL ORDER BY timestamp, id LIMIT ?',
+        [MIGRATION_BATCH_SIZE]
       );
+      if (rows.length === 0) return;
+
+      await this.withChainTransaction(async () => {
+        for (const row of rows as any[]) {
+          const seq = this.head.seq + 1;
+          const hash = await this.hashEntry({
+            ...this.readEntry(row),
+            seq,
+            prevHash: this.head.hash,
+            hashVersion: HASH_VERSION,
+          });
+          await this.db!.runAsync(
+            'UPDATE audit_log SET seq = ?, prev_hash = ?, hash = ?, hash_version = ? WHERE id = ?',
+            [seq, this.head.hash, hash, HASH_VERSION, row.id]
+          );
+          this.head = { seq, hash };
+          if (seq % CHECKPOINT_INTERVAL === 0) {
+            await this.writeCheckpoint(this.head);
+          }
+        }
+      });
+    }
+  }
+
+  // Events written before encryption was enabled, or while it was off
+  private async encryptExistingEvents(): Promise<void> {
+    if (!isEncryptionEnabled()) return;
+
+    for (;;) {
+      const rows = await this.db!.getAllAsync(
+        `SELECT id, message, metadata FROM audit_log
+         WHERE substr(message, 1, ?) != ? OR (metadata IS NOT NULL AND substr(metadata, 1, ?) != ?)
+         LIMIT ?`,
+        [ENCRYPTED_PREFIX.length, ENCRYPTED_PREFIX, ENCRYPTED_PREFIX.length, ENCRYPTED_PREFIX, MIGRATION_BATCH_SIZE]
+      );
+      if (rows.length === 0) return;
+
+      // Exclusive, so that events logged meanwhile stay out of the transaction
+      await this.db!.withExclusiveTransactionAsync(async (txn) => {
+        for (const row of rows as any[]) {
+          await txn.runAsync(
+            'UPDATE audit_log SET message = ?, metadata = ? WHERE id = ?',
+            [this.encryptOnce(row.message), row.metadata === null ? null : this.encryptOnce(row.metadata), row.id]
+          );
+        }
+      });
+    }
+  }
+
+  private encryptOnce(value: string): string {
+    return isEncryptedValue(value) ? value : this.cipher!.encrypt(value);
+  }
+
+  // Throws when the message or metadata no longer decrypts
+  private readEntry(row: any): ChainedEntry {
+    return {
+      seq: row.seq,
+      prevHash: row.prev_hash,
+      id: row.id,
+      type: row.type,
+      message: this.cipher!.decrypt(row.message),
+      timestamp: row.timestamp,
+      severity: row.severity,
+      metadata: row.metadata === null ? null : this.cipher!.decrypt(row.metadata),
+      hashVersion: row.hash_version,
+    };
+  }
+
+  // Hashes cover the plaintext message, so encrypting an entry later does not break the chain
+  private async hashEntry(entry: ChainedEntry): Promise<string> {
+    const fields: unknown[] = [entry.seq, entry.prevHash, entry.id, entry.type, entry.message, entry.timestamp];
+    if (entry.hashVersion >= 2) {
+      fields.push(entry.severity, entry.metadata);
+    }
+    return bytesToHex(await hmacSha256(this.chainKey!, utf8ToBytes(JSON.stringify(fields))));
+  }
+
+  private async signCheckpoint(seq: number, hash: string, createdAt: number): Promise<string> {
+    const content = JSON.stringify(['checkpoint', seq, hash, createdAt]);
+    return bytesToHex(await hmacSha256(this.chainKey!, utf8ToBytes(content)));
+  }
+
+  private async writeCheckpoint(head: ChainHead): Promise<void> {
+    const createdAt = Date.now();
+    await this.db!.runAsync(
+      'INSERT OR REPLACE INTO audit_checkpoints (seq, hash, created_at, signature) VALUES (?, ?, ?, ?)',
+      [head.seq, head.hash, createdAt, await this.signCheckpoint(head.seq, head.hash, createdAt)]
+    );
+  }
+
+  // Restored events keep the id and date they were first logged with
+  private async appendEntry(
+    type: AuditEventType,
+    message: string,
+    options: AuditLogOptions,
+    origin?: { id: string; timestamp: number }
+  ): Promise<void> {
+    const entry: ChainedEntry = {
+      seq: this.head.seq + 1,
+      prevHash: this.head.hash,
+      id: origin?.id ?? this.generateId(),
+      type,
+      message,
+      timestamp: origin?.timestamp ?? Date.now(),
+      severity: options.severity ?? DEFAULT_AUDIT_SEVERITY[type],
+      metadata: options.metadata ? JSON.stringify(options.metadata) : null,
+      hashVersion: HASH_VERSION,
+    };
+    const hash = await this.hashEntry(entry);
+
+    await this.db!.runAsync(
+      `INSERT INTO audit_log (id, type, message, timestamp, severity, metadata, seq, prev_hash, hash, hash_version)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.id,
+        entry.type,
+        this.cipher!.encryptIfEnabled(entry.message),
+        entry.timestamp,
+        entry.severity,
+        entry.metadata === null ? null : this.cipher!.encryptIfEnabled(entry.metadata),
+        entry.seq,
+        entry.prevHash,
+        hash,
+        entry.hashVersion,
+      ]
+    );
+    this.head = { seq: entry.seq, hash };
+
+    if (entry.seq % CHECKPOINT_INTERVAL === 0) {
+      await this.writeCheckpoint(this.head);
+    }
+  }
+
+  // The head moves with each entry written in the transaction; if it rolls back, the head is put
+  // back so that the next entry does not chain onto hashes that were never stored
+  private async withChainTransaction(work: () => Promise<void>): Promise<void> {
+    const head = this.head;
+    try {
+      await this.db!.withTransactionAsync(work);
+    } catch (error) {
+      this.head = head;
+      throw error;
+    }
+  }
+
+  // Runs a write after the ones already queued, and records where the chain ends once it is done
+  private enqueue<T>(write: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(async () => {
+      try {
+        return await write();
+      } finally {
+        await this.saveBounds();
+      }
+    });
+    this.writeQueue = result.then(() => {}, () => {});
+    return result;
+  }
+
+  async log(type: AuditEventType, message: string, options: AuditLogOptions = {}): Promise<void> {
+    await this.initialize();
+
+    try {
+      await this.enqueue(() => this.appendEntry(type, message, options));
     } catch (error) {
       console.error('Failed to log audit event:', error);
     }
   }
 
-  async getAllEvents(): Promise<AuditEvent[]> {
-    if (!this.db) {
-      await this.initialize();
+  async getRecentEvents(limit: number = 50, filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+    await this.initialize();
+
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.types?.length) {
+      conditions.push(`type IN (${filter.types.map(() => '?').join(', ')})`);
+      params.push(...filter.types);
+    }
+    if (filter.severities?.length) {
+      conditions.push(`severity IN (${filter.severities.map(() => '?').join(', ')})`);
+      params.push(...filter.severities);
+    }
+    if (filter.since !== undefined) {
+      conditions.push('timestamp >= ?');
+      params.push(filter.since);
+    }
+    if (filter.until !== undefined) {
+      conditions.push('timestamp <= ?');
+      params.push(filter.until);
     }
 
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
     try {
       const result = await this.db!.getAllAsync(
-        'SELECT * FROM audit_log ORDER BY timestamp DESC'
+        `SELECT * FROM audit_log ${where} ORDER BY timestamp DESC LIMIT ?`,
+        [...params, limit]
       );
-      
-      return result.map((row: any) => ({
-        id: row.id,
-        action: row.action as AuditAction,
-        detail: row.detail,
-        timestamp: new Date(row.timestamp)
-      }));
+      return result.map(row => this.toReadableEvent(row));
     } catch (error) {
       console.error('Failed to get audit events:', error);
       return [];
     }
   }
 
-  async getRecentEvents(limit: number = 50): Promise<AuditEvent[]> {
-    if (!this.db) {
-      await this.initialize();
-    }
+  /**
+   * Event types present in the log, with their number of events
+   */
+  async getEventTypes(): Promise<{ type: AuditEventType; count: number }[]> {
+    await this.initialize();
 
     try {
-      const result = await this.db!.getAllAsync(
-        'SELECT * FROM audit_log ORDER BY timestamp DESC LIMIT ?',
-        [limit]
+      const rows = await this.db!.getAllAsync(
+        'SELECT type, COUNT(*) AS count FROM audit_log GROUP BY type ORDER BY count DESC'
       );
-      
-      return result.map((row: any) => ({
-        id: row.id,
-        action: row.action as AuditAction,
-        detail: row.detail,
-        timestamp: new Date(row.timestamp)
-      }));
+      return rows.map((row: any) => ({ type: row.type, count: row.count }));
     } catch (error) {
-      console.error('Failed to get recent audit events:', error);
+      console.error('Failed to get audit event types:', error);
       return [];
     }
   }
 
-  async clearAll(): Promise<void> {
-    if (!this.db) {
-      await this.initialize();
+  private toEvent(row: any): AuditEvent {
+    const entry = this.readEntry(row);
+    return {
+      id: entry.id,
+      type: entry.type as AuditEventType,
+      message: entry.message,
+      timestamp: entry.timestamp,
+      severity: entry.severity as AuditSeverity,
+      metadata: entry.metadata === null ? undefined : JSON.parse(entry.metadata),
+    };
+  }
+
+  // An entry that no longer decrypts or parses is shown as such rather than hiding the others
+  private toReadableEvent(row: any): AuditEvent {
+    try {
+      return this.toEvent(row);
+    } catch (error) {
+      console.error(`Failed to read audit event ${row.id}:`, error);
+      return {
+        id: row.id,
+        type: 'app_error',
+        message: UNREADABLE_ENTRY_MESSAGE,
+        timestamp: row.timestamp,
+        severity: DEFAULT_AUDIT_SEVERITY.app_error,
+        metadata: { unreadable: true, type: row.type },
+      };
+    }
+  }
+
+  /**
+   * Write the events of a date range to a JSON Lines or CSV file, oldest first, and open the
+   * share sheet with it. Returns the number of events exported.
+   */
+  async exportEvents(
+    format: AuditExportFormat,
+    range: Pick<AuditEventFilter, 'since' | 'until'> = {}
+  ): Promise<number> {
+    await this.initialize();
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    // The file holds the decrypted log, so it only lives until the share sheet closes
+    const file = new File(Paths.cache, `audit-log-${Date.now()}.${format}`);
+    file.create({ overwrite: true });
+
+    let count = 0;
+    try {
+      const handle = file.open();
+      try {
+        if (format === 'csv') {
+          handle.writeBytes(utf8ToBytes(CSV_COLUMNS.join(',') + '\n'));
+        }
+
+        // Read in batches along the chain, so that a large log is never held in memory at once
+        let afterSeq = 0;
+        for (;;) {
+          const rows: any[] = await this.db!.getAllAsync(
+            'SELECT * FROM audit_log WHERE seq > ? AND timestamp >= ? AND timestamp <= ? ORDER BY seq LIMIT ?',
+            [afterSeq, range.since ?? 0, range.until ?? Number.MAX_SAFE_INTEGER, EXPORT_BATCH_SIZE]
+          );
+          if (rows.length === 0) break;
+
+          const lines = rows.map(row => formatExportLine(row.seq, this.toReadableEvent(row), format));
+          handle.writeBytes(utf8ToBytes(lines.join('\n') + '\n'));
+          count += rows.length;
+          afterSeq = rows[rows.length - 1].seq;
+        }
+      } finally {
+        handle.close();
+      }
+
+      await Sharing.shareAsync(file.uri, {
+        ...EXPORT_MIME_TYPES[format],
+        dialogTitle: "Exporter le journal d'audit",
+      });
+    } finally {
+      file.delete();
+    }
+
+    await this.log('data_export', `Audit log exported: ${count} events as ${format}`, {
+      metadata: { format, count, since: range.since ?? null, until: range.until ?? null },
+    });
+    return count;
+  }
+
+  /**
+   * Every event, oldest first, decrypted for a backup. Entries that no longer decrypt are left
+   * out, since restoring them would add events that never happened.
+   */
+  async getEventsForBackup(): Promise<AuditEvent[]> {
+    await this.initialize();
+
+    const events: AuditEvent[] = [];
+    let afterSeq = 0;
+    for (;;) {
+      const rows: any[] = await this.db!.getAllAsync(
+        'SELECT * FROM audit_log WHERE seq > ? ORDER BY seq LIMIT ?',
+        [afterSeq, EXPORT_BATCH_SIZE]
+      );
+      if (rows.length === 0) return events;
+
+      for (const row of rows) {
+        try {
+          events.push(this.toEvent(row));
+        } catch (error) {
+          console.error(`Skipping unreadable audit event ${row.id}:`, error);
+        }
+      }
+      afterSeq = rows[rows.length - 1].seq;
     }
+  }
+
+  /**
+   * Append the events of a backup that this log does not have yet. They are sealed into the chain
+   * as new entries, since the original hashes were made with another device's key; the log is
+   * never replaced by a backup. Returns the number added.
+   */
+  async importEvents(events: AuditEvent[]): Promise<number> {
+    await this.initialize();
 
+    return this.enqueue(async () => {
+      let imported = 0;
+      for (let start = 0; start < events.length; start += MIGRATION_BATCH_SIZE) {
+        const batch = events.slice(start, start + MIGRATION_BATCH_SIZE);
+        const existing = await this.db!.getAllAsync(
+          `SELECT id FROM audit_log WHERE id IN (${batch.map(() => '?').join(', ')})`,
+          batch.map(event => event.id)
+        );
+        // Also holds the ids added so far, since a hand-edited archive may repeat one
+        const existingIds = new Set(existing.map((row: any) => row.id));
+
+        await this.withChainTransaction(async () => {
+          for (const event of batch) {
+            if (existingIds.has(event.id)) continue;
+            existingIds.add(event.id);
+            await this.appendEntry(
+              event.type,
+              event.message,
+              { severity: event.severity, metadata: { ...event.metadata, restored: true } },
+              { id: event.id, timestamp: event.timestamp }
+            );
+            imported++;
+          }
+        });
+      }
+      return imported;
+    });
+  }
+
+  async loadRetentionPolicy(): Promise<AuditRetentionPolicy> {
+    if (this.retentionPolicy) return this.retentionPolicy;
+
+    let policy = DEFAULT_AUDIT_RETENTION_POLICY;
     try {
-      await this.db!.runAsync('DELETE FROM audit_log');
-      await this.log(AuditAction.PANIC_WIPE, 'All audit logs cleared');
+      const stored = await AsyncStorage.getItem(RETENTION_POLICY_KEY);
+      if (stored) {
+        policy = { ...DEFAULT_AUDIT_RETENTION_POLICY, ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.error('Failed to load audit retention policy:', error);
+    }
+
+    this.retentionPolicy = policy;
+    return policy;
+  }
+
+  async updateRetentionPolicy(changes: Partial<AuditRetentionPolicy>): Promise<AuditRetentionPolicy> {
+    const policy = { ...(await this.loadRetentionPolicy()), ...changes };
+    this.retentionPolicy = policy;
+
+    try {
+      await AsyncStorage.setItem(RETENTION_POLICY_KEY, JSON.stringify(policy));
+    } catch (error) {
+      console.error('Failed to save audit retention policy:', error);
+    }
+
+    await this.log('settings_change', `Audit retention policy updated: ${Object.keys(changes).join(', ')}`, {
+      metadata: { ...policy },
+    });
+    await this.applyRetentionPolicy();
+    return policy;
+  }
+
+  /**
+   * Prune the entries the retention policy no longer keeps; returns how many were removed
+   */
+  async applyRetentionPolicy(): Promise<number> {
+    await this.initialize();
+
+    try {
+      return await this.enqueue(() => this.pruneEvents());
+    } catch (error) {
+      console.error('Failed to apply audit retention policy:', error);
+      return 0;
+    }
+  }
+
+  // Entries are always removed from the start of the chain, up to the newest one out of policy
+  private async pruneEvents(): Promise<number> {
+    const policy = await this.loadRetentionPolicy();
+
+    let throughSeq = 0;
+    if (policy.maxAgeDays !== null) {
+      // Stops before the first entry still within the age limit, which matters for restored
+      // entries whose dates are older than those logged before them
+      const kept = await this.db!.getFirstAsync(
+        'SELECT MIN(seq) AS seq FROM audit_log WHERE timestamp >= ?',
+        [Date.now() - policy.maxAgeDays * DAY_MS]
+      );
+      throughSeq = ((kept as any)?.seq ?? this.head.seq + 1) - 1;
+    }
+    if (policy.maxEntries !== null) {
+      const first = await this.db!.getFirstAsync('SELECT MIN(seq) AS seq FROM audit_log');
+      const count = this.head.seq - ((first as any)?.seq ?? this.head.seq + 1) + 1;
+      if (count > policy.maxEntries) {
+        // A tenth more than needed goes, so that the log is not rotated again on every start
+        throughSeq = Math.max(throughSeq, this.head.seq - Math.floor(policy.maxEntries * ROTATION_KEEP_RATIO));
+      }
+    }
+
+    const last = await this.db!.getFirstAsync(
+      'SELECT seq, hash FROM audit_log WHERE seq <= ? ORDER BY seq DESC LIMIT 1',
+      [throughSeq]
+    );
+    if (!last) return 0;
+
+    const anchor: ChainHead = { seq: (last as any).seq, hash: (last as any).hash };
+    const previousAnchor = this.anchor;
+    this.anchor = anchor;
+    if (!(await this.saveBounds())) {
+      this.anchor = previousAnchor;
+      return 0;
+    }
+
+    let removed = 0;
+    await this.db!.withTransactionAsync(async () => {
+      await this.writeCheckpoint(anchor);
+      const result = await this.db!.runAsync('DELETE FROM audit_log WHERE seq <= ?', [anchor.seq]);
+      await this.db!.runAsync('DELETE FROM audit_checkpoints WHERE seq < ?', [anchor.seq]);
+      removed = result.changes;
+    });
+
+    await this.appendEntry('audit_rotation', `Audit log pruned: ${removed} entries removed`, {
+      metadata: { removed, throughSeq: anchor.seq, ...policy },
+    });
+    return removed;
+  }
+
+  /**
+   * Walk the whole chain and the checkpoints, stopping at the first entry that fails
+   */
+  async verifyIntegrity(): Promise<AuditIntegrityReport> {
+    await this.initialize();
+    // Entries being written would look like a cut end
+    await this.writeQueue;
+
+    let checkedEntries = 0;
+    let checkedCheckpoints = 0;
+    const report = (failure?: AuditIntegrityFailure, firstBrokenSeq?: number): AuditIntegrityReport => ({
+      valid: !failure,
+      checkedEntries,
+      checkedCheckpoints,
+      firstBrokenSeq,
+      failure,
+      verifiedAt: Date.now(),
+    });
+
+    try {
+      // Bounds that cannot be read are taken from memory, where they were loaded at start
+      let bounds: ChainBounds;
+      try {
+        bounds = (await this.readBounds()) ?? { anchor: this.anchor, head: this.head };
+      } catch {
+        bounds = { anchor: this.anchor, head: this.head };
+      }
+
+      const checkpoints = new Map<number, string>();
+      const checkpointRows = await this.db!.getAllAsync('SELECT * FROM audit_checkpoints ORDER BY seq');
+      for (const row of checkpointRows as any[]) {
+        if (row.signature !== (await this.signCheckpoint(row.seq, row.hash, row.created_at))) {
+          return report('invalid_checkpoint', row.seq);
+        }
+        checkpoints.set(row.seq, row.hash);
+        checkedCheckpoints++;
+      }
+
+      const unchained = await this.db!.getFirstAsync('SELECT COUNT(*) AS count FROM audit_log WHERE seq IS NULL');
+      if ((unchained as any)?.count > 0) {
+        return report('broken_link');
+      }
+
+      let previous: ChainHead | null = null;
+      for (;;) {
+        const rows: any[] = await this.db!.getAllAsync(
+          'SELECT * FROM audit_log WHERE seq > ? ORDER BY seq LIMIT ?',
+          [previous?.seq ?? 0, VERIFY_BATCH_SIZE]
+        );
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+          if (!previous) {
+            // The log starts right after the recorded anchor. It may start earlier when pruning
+            // was interrupted, at the first entry ever or after a checkpoint of the pruned ones.
+            if (row.seq > bounds.anchor.seq + 1) {
+              return report('missing_entries', bounds.anchor.seq + 1);
+            }
+            const anchor = row.seq === bounds.anchor.seq + 1
+              ? bounds.anchor.hash
+              : row.seq === 1 ? GENESIS_HASH : checkpoints.get(row.seq - 1);
+            if (anchor !== row.prev_hash) {
+              return report('missing_entries', row.seq);
+            }
+          } else if (row.seq !== previous.seq + 1) {
+            return report('missing_entries', previous.seq + 1);
+          } else if (row.prev_hash !== previous.hash) {
+            return report('broken_link', row.seq);
+          } else if (row.seq === bounds.anchor.seq + 1 && row.prev_hash !== bounds.anchor.hash) {
+            return report('broken_link', row.seq);
+          }
+
+          let entry: ChainedEntry;
+          try {
+            entry = this.readEntry(row);
+          } catch {
+            return report('unreadable_entry', row.seq);
+          }
+
+          const hash = await this.hashEntry(entry);
+          if (
+            hash !== row.hash ||
+            (checkpoints.has(row.seq) && checkpoints.get(row.seq) !== hash) ||
+            (row.seq === bounds.head.seq && bounds.head.hash !== hash)
+          ) {
+            return report('modified_entry', row.seq);
+          }
+
+          previous = { seq: row.seq, hash };
+          checkedEntries++;
+        }
+      }
+
+      // A recorded head or a checkpoint past the last entry means the end of the log was cut,
+      // or the whole log removed
+      const lastSeq = previous?.seq ?? bounds.anchor.seq;
+      if (Math.max(bounds.head.seq, ...checkpoints.keys()) > lastSeq) {
+        return report('truncated', lastSeq + 1);
+      }
+
+      return report();
+    } catch (error) {
+      console.error('Failed to verify audit log integrity:', error);
+      return report('unreadable_entry');
+    }
+  }
+
+  /**
+   * Panic wipe, run after SecretsManager.emergencyWipe(): the entries are deleted and the log
+   * starts over from the genesis under new keys, with the wipe as its first entry
+   */
+  async clearAll(): Promise<void> {
+    await this.initialize();
+
+    try {
+      await this.enqueue(async () => {
+        await this.loadKeys(this.db!);
+        const previous: ChainBounds = { anchor: this.anchor, head: this.head };
+        ({ anchor: this.anchor, head: this.head } = genesisBounds());
+        await this.saveBounds();
+        try {
+          await this.db!.withTransactionAsync(async () => {
+            await this.db!.runAsync('DELETE FROM audit_log');
+            await this.db!.runAsync('DELETE FROM audit_checkpoints');
+          });
+        } catch (error) {
+          ({ anchor: this.anchor, head: this.head } = previous);
+          throw error;
+        }
+        await this.appendEntry('panic_wipe', 'Panic wipe: all data and encryption keys cleared', {});
+      });
     } catch (error) {
       console.error('Failed to clear audit logs:', error);
     }
@@ -114,4 +918,24 @@ export class AuditService {
   private generateId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
-}
\ No newline at end of file
+}
+
+function genesisBounds(): ChainBounds {
+  return { anchor: { seq: 0, hash: GENESIS_HASH }, head: { seq: 0, hash: GENESIS_HASH } };
+}
+
+function formatExportLine(seq: number, event: AuditEvent, format: AuditExportFormat): string {
+  const timestamp = new Date(event.timestamp).toISOString();
+  if (format === 'jsonl') {
+    return JSON.stringify({ seq, ...event, timestamp });
+  }
+
+  const metadata = event.metadata ? JSON.stringify(event.metadata) : '';
+  return [String(seq), timestamp, event.type, event.severity, event.message, metadata].map(escapeCsvField).join(',');
+}
+
+function escapeCsvField(value: string): string {
+  // A leading formula character would be evaluated when the file is opened in a spreadsheet
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,478 @@
+import * as Crypto from 'expo-crypto';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system/next';
+import { useAppStore } from '../state/appState';
+import { AssistantMessage } from '../types/core';
+import { AuditEvent, BackupSummary, MemoryItem, RestoreMode } from '../types/service';
+import { AuditService, DEFAULT_AUDIT_SEVERITY } from './AuditService';
+import { AuthenticationService } from './AuthenticationService';
+import FeatureFlagService from './FeatureFlagService';
+import { DEFAULT_MEMORY_CATEGORY, MemoryService } from './MemoryService';
+import { ConversationRecord, ConversationService, titleFromMessage } from './ConversationService';
+import { decryptBytes, encryptBytes, pbkdf2Sha256 } from '../utils/crypto';
+import { base64ToBytes, bytesToBase64, bytesToUtf8, utf8ToBytes } from '../utils/encoding';
+
+export const BACKUP_FORMAT = 'monvox-backup';
+// Version 1 held the current conversation only, restored as a single conversation
+export const BACKUP_VERSION = 2;
+export const MIN_PASSPHRASE_LENGTH = 10;
+
+// Hashing runs in JavaScript on the phone, which bounds the iterations a user will wait for
+const KDF_ITERATIONS = 210000;
+// Archives claiming more are refused rather than keeping the phone busy for minutes
+const MAX_KDF_ITERATIONS = 2000000;
+const SALT_LENGTH = 16;
+
+export type BackupErrorReason =
+  | 'authentication_failed'
+  | 'weak_passphrase'
+  | 'invalid_archive'
+  | 'unsupported_version'
+  | 'wrong_passphrase'
+  | 'sharing_unavailable'
+  | 'partial_restore';
+
+export class BackupError extends Error {
+  constructor(public readonly reason: BackupErrorReason, message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// Parts of a backup written to the device, in the order restoreBackup() writes them
+export type RestoredPart = 'conversations' | 'memories' | 'flagOverrides' | 'settings' | 'auditEvents';
+
+/**
+ * Thrown when a restore failed after some parts of the backup were already written
+ */
+export class PartialRestoreError extends BackupError {
+  constructor(public readonly restored: RestoredPart[], public readonly cause: unknown) {
+    super('partial_restore', `Backup partially restored: ${restored.join(', ')}`);
+    this.name = 'PartialRestoreError';
+  }
+}
+
+// What the archive holds, encrypted as a whole
+interface BackupContents {
+  createdAt: number;
+  memories: MemoryItem[];
+  auditEvents: AuditEvent[];
+  // The persisted settings of useAppStore
+  settings: Record<string, unknown>;
+  conversations: ConversationRecord[];
+  flagOverrides: Record<string, boolean>;
+}
+
+// The file written to disk; only the key derivation parameters are in clear
+interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  kdf: { algorithm: 'pbkdf2-sha256'; iterations: number; salt: string };
+  payload: string;
+}
+
+export interface OpenedBackup {
+  summary: BackupSummary;
+  contents: BackupContents;
+}
+
+/**
+ * Passphrase-encrypted archive of the user's data, to move it to another device.
+ *
+ * The archive holds the memories, the audit log, the persisted app settings, the conversations
+ * and the feature flag overrides. Its payload is encrypted with AES-256-GCM under
+ * a key derived from the passphrase, so a wrong passphrase and a modified file are both rejected.
+ * Image attachments are left out: their files stay on the device they were taken on.
+ */
+class BackupService {
+  private static instance: BackupService;
+
+  public static getInstance(): BackupService {
+    if (!BackupService.instance) {
+      BackupService.instance = new BackupService();
+    }
+    return BackupService.instance;
+  }
+
+  private constructor() {}
+
+  /**
+   * Build the archive and open the share sheet with it
+   */
+  async createBackup(passphrase: string): Promise<BackupSummary> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new BackupError('weak_passphrase', `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new BackupError('sharing_unavailable', 'Sharing is not available on this device');
+    }
+    await this.confirmIdentity('Confirmez pour exporter vos données');
+
+    const contents = await this.collectContents();
+    const salt = Crypto.getRandomBytes(SALT_LENGTH);
+    const key = await pbkdf2Sha256(passphrase, salt, KDF_ITERATIONS);
+    const archive: BackupArchive = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      kdf: { algorithm: 'pbkdf2-sha256', iterations: KDF_ITERATIONS, salt: bytesToBase64(salt) },
+      payload: bytesToBase64(encryptBytes(utf8ToBytes(JSON.stringify(contents)), key)),
+    };
+
+    const date = new Date(contents.createdAt).toISOString().slice(0, 10);
+    const file = new File(Paths.cache, `monvox-backup-${date}.json`);
+    file.create({ overwrite: true });
+    try {
+      file.write(JSON.stringify(archive));
+      await Sharing.shareAsync(file.uri, {
+        mimeType: 'application/json',
+        UTI: 'public.json',
+        dialogTitle: 'Enregistrer la sauvegarde',
+      });
+    } finally {
+      file.delete();
+    }
+
+    const summary = this.summarize(contents);
+    await AuditService.getInstance().log('data_export', `Backup created: ${summary.memories} memories`, {
+      metadata: { ...summary },
+    });
+    return summary;
+  }
+
+  /**
+   * Let the user pick an archive; resolves null when the picker is cancelled
+   */
+  async pickBackupFile(): Promise<string | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/json', 'application/octet-stream'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || !result.assets?.length) {
+      return null;
+    }
+    return result.assets[0].uri;
+  }
+
+  /**
+   * Decrypt and validate an archive without changing anything on the device
+   */
+  async openBackup(uri: string, passphrase: string): Promise<OpenedBackup> {
+    let archive: BackupArchive;
+    try {
+      archive = JSON.parse(new File(uri).text());
+    } catch (error) {
+      throw new BackupError('invalid_archive', `Backup file is not readable: ${error}`);
+    }
+
+    if (!archive || archive.format !== BACKUP_FORMAT || !Number.isInteger(archive.version)) {
+      throw new BackupError('invalid_archive', 'File is not a backup');
+    }
+    if (archive.version > BACKUP_VERSION) {
+      throw new BackupError('unsupported_version', `Backup version ${archive.version} is newer than this app`);
+    }
+    const { kdf } = archive;
+    if (
+      kdf?.algorithm !== 'pbkdf2-sha256' ||
+      !Number.isInteger(kdf.iterations) ||
+      kdf.iterations < 1 ||
+      kdf.iterations > MAX_KDF_ITERATIONS ||
+      typeof kdf.salt !== 'string' ||
+      typeof archive.payload !== 'string'
+    ) {
+      throw new BackupError('invalid_archive', 'Backup key parameters are invalid');
+    }
+
+    const key = await pbkdf2Sha256(passphrase, base64ToBytes(kdf.salt), kdf.iterations);
+    let plaintext: string;
+    try {
+      plaintext = bytesToUtf8(decryptBytes(base64ToBytes(archive.payload), key));
+    } catch {
+      // GCM cannot tell a wrong key from a modified payload
+      throw new BackupError('wrong_passphrase', 'Wrong passphrase or damaged backup');
+    }
+
+    const contents = validateContents(JSON.parse(plaintext), archive.version);
+    return { summary: this.summarize(contents), contents };
+  }
+
+  /**
+   * Write an opened backup to the device. Audit events are always merged, so that restoring
+   * cannot erase the log.
+   *
+   * Each part is written in its own transaction. Conversations, the largest part, go first and
+   * the memories are only replaced once they are in; a failure after the first part throws a
+   * PartialRestoreError listing the parts written.
+   */
+  async restoreBackup(backup: OpenedBackup, mode: RestoreMode): Promise<BackupSummary> {
+    await this.confirmIdentity(
+      mode === 'replace' ? 'Confirmez pour remplacer vos données' : 'Confirmez pour importer vos données'
+    );
+
+    const { contents } = backup;
+    const parts: RestoredPart[] = [];
+    let conversations: { conversations: number; messages: number };
+    let memories: number;
+    let auditEvents: number;
+    try {
+      conversations = await ConversationService.getInstance().importConversations(contents.conversations, mode);
+      parts.push('conversations');
+      memories = await MemoryService.getInstance().importMemories(contents.memories, mode);
+      parts.push('memories');
+      await FeatureFlagService.getInstance().importOverrides(contents.flagOverrides, mode === 'replace');
+      parts.push('flagOverrides');
+      // Merging keeps the device's settings
+      if (mode === 'replace') {
+        useAppStore.setState(contents.settings);
+        parts.push('settings');
+      }
+      auditEvents = await AuditService.getInstance().importEvents(contents.auditEvents);
+      parts.push('auditEvents');
+    } catch (error) {
+      if (parts.length === 0) throw error;
+
+      console.error('Backup restore interrupted:', error);
+      await this.reloadActiveConversation();
+      await AuditService.getInstance().log('app_error', `Backup partially restored (${mode}): ${parts.join(', ')}`, {
+        metadata: { mode, restored: parts, error: String(error) },
+      });
+      throw new PartialRestoreError(parts, error);
+    }
+    await this.reloadActiveConversation();
+
+    const restored: BackupSummary = {
+      createdAt: contents.createdAt,
+      memories,
+      auditEvents,
+      conversations: conversations.conversations,
+      messages: conversations.messages,
+      flagOverrides: Object.keys(contents.flagOverrides).length,
+    };
+    await AuditService.getInstance().log('data_import', `Backup restored (${mode}): ${memories} memories`, {
+      metadata: { mode, ...restored },
+    });
+    return restored;
+  }
+
+  // The open conversation may have gained messages, or be gone after a replace
+  private async reloadActiveConversation(): Promise<void> {
+    const { activeConversationId, openConversation, startNewConversation } = useAppStore.getState();
+    if (!activeConversationId) return;
+
+    const conversationService = ConversationService.getInstance();
+    if (await conversationService.getConversation(activeConversationId)) {
+      openConversation(activeConversationId, await conversationService.getMessages(activeConversationId));
+    } else {
+      startNewConversation();
+    }
+  }
+
+  private async confirmIdentity(reason: string): Promise<void> {
+    if (!(await AuthenticationService.getInstance().requireAuthentication(reason))) {
+      throw new BackupError('authentication_failed', 'Biometric confirmation failed');
+    }
+  }
+
+  private async collectContents(): Promise<BackupContents> {
+    return {
+      createdAt: Date.now(),
+      memories: await MemoryService.getInstance().exportMemories(),
+      auditEvents: await AuditService.getInstance().getEventsForBackup(),
+      settings: persistedSettings(),
+      conversations: await ConversationService.getInstance().exportConversations(),
+      flagOverrides: await FeatureFlagService.getInstance().getOverrides(),
+    };
+  }
+
+  private summarize(contents: BackupContents): BackupSummary {
+    return {
+      createdAt: contents.createdAt,
+      memories: contents.memories.length,
+      auditEvents: contents.auditEvents.length,
+      conversations: contents.conversations.length,
+      messages: contents.conversations.reduce((count, conversation) => count + conversation.messages.length, 0),
+      flagOverrides: Object.keys(contents.flagOverrides).length,
+    };
+  }
+}
+
+// The persisted settings of useAppStore, without the active conversation which is specific to a device
+function persistedSettings(): Record<string, unknown> {
+  const partialize = useAppStore.persist.getOptions().partialize;
+  if (!partialize) return {};
+
+  const { activeConversationId, ...settings } = partialize(useAppStore.getState()) as Record<string, unknown>;
+  return settings;
+}
+
+/**
+ * Check the decrypted payload field by field, so that a hand-made archive cannot put values of
+ * the wrong type into the stores
+ * @throws BackupError listing every problem found
+ */
+function validateContents(contents: any, version: number): BackupContents {
+  const errors: string[] = [];
+  const isObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+  if (!isObject(contents)) {
+    throw new BackupError('invalid_archive', 'Backup content is not an object');
+  }
+  if (typeof contents.createdAt !== 'number') {
+    errors.push('createdAt must be a number');
+  }
+
+  const memories = Array.isArray(contents.memories) ? contents.memories : [];
+  if (!Array.isArray(contents.memories)) {
+    errors.push('memories must be a list');
+  }
+  memories.forEach((memory: any, index: number) => {
+    if (
+      !isObject(memory) ||
+      typeof memory.id !== 'string' ||
+      typeof memory.content !== 'string' ||
+      typeof memory.timestamp !== 'number' ||
+      !isObject(memory.metadata)
+    ) {
+      errors.push(`memory ${index} is invalid`);
+    }
+  });
+
+  const auditEvents = Array.isArray(contents.auditEvents) ? contents.auditEvents : [];
+  if (!Array.isArray(contents.auditEvents)) {
+    errors.push('auditEvents must be a list');
+  }
+  auditEvents.forEach((event: any, index: number) => {
+    if (
+      !isObject(event) ||
+      typeof event.id !== 'string' ||
+      typeof event.type !== 'string' ||
+      typeof event.message !== 'string' ||
+      typeof event.timestamp !== 'number' ||
+      !Object.values(DEFAULT_AUDIT_SEVERITY).includes(event.severity) ||
+      (event.metadata !== undefined && !isObject(event.metadata))
+    ) {
+      errors.push(`audit event ${index} is invalid`);
+    }
+  });
+
+  // Only the settings this version persists, with the type they have here
+  const currentSettings = persistedSettings();
+  const settings: Record<string, unknown> = {};
+  if (isObject(contents.settings)) {
+    Object.entries(contents.settings).forEach(([key, value]) => {
+      if (key in currentSettings && typeof value === typeof currentSettings[key]) {
+        settings[key] = value;
+      }
+    });
+  } else {
+    errors.push('settings must be an object');
+  }
+
+  const toMessages = (list: unknown, label: string): AssistantMessage[] => {
+    if (!Array.isArray(list)) {
+      errors.push(`${label} must be a list`);
+      return [];
+    }
+    const messages: AssistantMessage[] = [];
+    list.forEach((message: any, index: number) => {
+      if (
+        !isObject(message) ||
+        typeof message.id !== 'string' ||
+        typeof message.content !== 'string' ||
+        typeof message.isUser !== 'boolean' ||
+        isNaN(Date.parse(message.timestamp))
+      ) {
+        errors.push(`${label}[${index}] is invalid`);
+        return;
+      }
+      messages.push({
+        id: message.id,
+        content: message.content,
+        isUser: message.isUser,
+        timestamp: new Date(message.timestamp),
+        interrupted: message.interrupted === true || undefined,
+      });
+    });
+    return messages;
+  };
+
+  const conversations: ConversationRecord[] = [];
+  if (version < 2) {
+    // The single conversation of a version 1 archive, with an id that stays the same if it is restored again
+    const messages = toMessages(contents.messages, 'messages');
+    if (messages.length > 0) {
+      conversations.push({
+        id: `backup-${contents.createdAt}`,
+        title: titleFromMessage(messages.find(message => message.isUser) ?? messages[0]),
+        createdAt: messages[0].timestamp,
+        updatedAt: messages[messages.length - 1].timestamp,
+        pinned: false,
+        archived: false,
+        messages,
+      });
+    }
+  } else if (Array.isArray(contents.conversations)) {
+    contents.conversations.forEach((conversation: any, index: number) => {
+      if (
+        !isObject(conversation) ||
+        typeof conversation.id !== 'string' ||
+        typeof conversation.title !== 'string' ||
+        isNaN(Date.parse(conversation.createdAt)) ||
+        isNaN(Date.parse(conversation.updatedAt))
+      ) {
+        errors.push(`conversation ${index} is invalid`);
+        return;
+      }
+      conversations.push({
+        id: conversation.id,
+        title: conversation.title,
+        createdAt: new Date(conversation.createdAt),
+        updatedAt: new Date(conversation.updatedAt),
+        pinned: conversation.pinned === true,
+        archived: conversation.archived === true,
+        messages: toMessages(conversation.messages, `conversation ${index} messages`),
+      });
+    });
+  } else {
+    errors.push('conversations must be a list');
+  }
+
+  const flagOverrides: Record<string, boolean> = {};
+  if (isObject(contents.flagOverrides)) {
+    Object.entries(contents.flagOverrides).forEach(([key, enabled]) => {
+      if (typeof enabled === 'boolean') {
+        flagOverrides[key] = enabled;
+      }
+    });
+  } else {
+    errors.push('flagOverrides must be an object');
+  }
+
+  if (errors.length > 0) {
+    throw new BackupError('invalid_archive', `Invalid backup: ${errors.join('; ')}`);
+  }
+
+  return {
+    createdAt: contents.createdAt,
+    memories: memories.map((memory: any) => ({
+      id: memory.id,
+      content: memory.content,
+      metadata: memory.metadata,
+      timestamp: memory.timestamp,
+      category: typeof memory.category === 'string' ? memory.category : memory.metadata.type || DEFAULT_MEMORY_CATEGORY,
+    })),
+    auditEvents: auditEvents.map((event: any) => ({
+      id: event.id,
+      type: event.type,
+      message: event.message,
+      timestamp: event.timestamp,
+      severity: event.severity,
+      metadata: event.metadata,
+    })),
+    settings,
+    conversations,
+    flagOverrides,
+  };
+}
+
+export default BackupService;
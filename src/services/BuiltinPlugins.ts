@@ -0,0 +1,40 @@
+import { MemoryService } from './MemoryService';
+import type { PluginDefinition } from './PluginService';
+
+const dateTimePlugin: PluginDefinition = {
+  manifest: {
+    id: 'monvox.datetime',
+    name: 'Date et heure',
+    description: "Donne l'heure et la date du jour sans interroger le modèle.",
+    version: '1.0.0',
+    permissions: [],
+    intents: ['quelle heure', 'quel jour sommes nous', 'quelle date', 'on est quel jour'],
+  },
+  async execute({ intent }) {
+    const now = new Date();
+    if (intent === 'quelle heure') {
+      return `Il est ${now.toLocaleTimeString('fr-CA', { hour: '2-digit', minute: '2-digit' })}.`;
+    }
+    return `Nous sommes le ${now.toLocaleDateString('fr-CA', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}.`;
+  },
+};
+
+const quickNotesPlugin: PluginDefinition = {
+  manifest: {
+    id: 'monvox.notes',
+    name: 'Notes rapides',
+    description: 'Enregistre une note dans vos mémoires, par exemple « note que le code du garage est 1234 ».',
+    version: '1.0.0',
+    permissions: ['memory.write'],
+    intents: ['note que', 'prends note que', 'souviens toi que', 'rappelle toi que'],
+  },
+  async execute({ argument }) {
+    if (!argument) {
+      return 'Que voulez-vous que je note ?';
+    }
+    await MemoryService.getInstance().saveMemory(argument, { type: 'note', source: 'monvox.notes' });
+    return `C'est noté : ${argument}`;
+  },
+};
+
+export const BUILTIN_PLUGINS: PluginDefinition[] = [dateTimePlugin, quickNotesPlugin];
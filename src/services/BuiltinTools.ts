@@ -0,0 +1,50 @@
+import { MemoryService } from './MemoryService';
+import FeatureFlagService, { FeatureFlags } from './FeatureFlagService';
+import type { Tool } from './ToolRegistry';
+
+const getCurrentDateTime: Tool<{ timeZone?: string }> = {
+  name: 'get_current_datetime',
+  description: "Returns the current date and time, in the device's time zone unless another IANA time zone is given.",
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone, e.g. America/Montreal' },
+    },
+  },
+  async execute({ timeZone }) {
+    const now = new Date();
+    const resolvedTimeZone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return {
+      iso: now.toISOString(),
+      local: now.toLocaleString('fr-CA', { timeZone: resolvedTimeZone, dateStyle: 'full', timeStyle: 'long' }),
+      timeZone: resolvedTimeZone,
+    };
+  },
+};
+
+const searchMemories: Tool<{ query: string; limit?: number }> = {
+  name: 'search_memories',
+  description: "Searches the user's saved memories and past conversations by meaning, most relevant first.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'What to look for, in a few words' },
+      limit: { type: 'integer', description: 'Maximum number of memories to return', minimum: 1, maximum: 10 },
+    },
+    required: ['query'],
+  },
+  async execute({ query, limit = 5 }) {
+    if (!FeatureFlagService.getInstance().isEnabled(FeatureFlags.CONTEXT_MEMORY)) {
+      throw new Error('Memory is disabled');
+    }
+
+    const memories = await MemoryService.getInstance().searchSimilar(query, limit);
+    return memories.map(memory => ({
+      content: memory.content,
+      createdAt: new Date(memory.timestamp).toISOString(),
+      relevance: Math.round((memory.relevanceScore || 0) * 100) / 100,
+    }));
+  },
+};
+
+export const BUILTIN_TOOLS: Tool[] = [getCurrentDateTime, searchMemories];
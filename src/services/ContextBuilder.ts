@@ -0,0 +1,201 @@
+import { AIMessage } from '../types/ai';
+import { Tokenizer, estimatePartTokens } from './Tokenizer';
+import { getMessageText } from '../api/message-format';
+
+export interface ContextBudget {
+  // Tokens the model accepts for prompt and completion together
+  contextLimit: number;
+  // Tokens reserved for the completion
+  maxTokens: number;
+}
+
+export interface ContextBuildOptions {
+  // Most recent messages that are always kept, truncated if they do not fit on their own
+  minRecentMessages?: number;
+  // Summary of the older turns; an extractive summary is built when it is missing
+  summary?: string;
+  // Leading messages the summary covers; dropped turns after them get an extractive summary
+  summarizedMessages?: number;
+}
+
+export interface BuiltContext {
+  messages: AIMessage[];
+  promptTokens: number;
+  droppedMessages: number;
+  summarized: boolean;
+  truncated: boolean;
+}
+
+// Role markers and separators the chat templates add around each message
+const MESSAGE_OVERHEAD = 4;
+// Keeps heuristic token counts from overshooting the real limit
+const SAFETY_MARGIN = 0.05;
+const MAX_SUMMARY_TOKENS = 500;
+const SUMMARY_LINE_LENGTH = 120;
+const TRUNCATION_MARKER = '…';
+
+/**
+ * Fits a conversation into a model's context window.
+ *
+ * System messages are merged into a single leading system prompt and always kept, as are the most
+ * recent messages. Older turns are added newest first while they fit; the ones left out are
+ * replaced by a short summary appended to the system prompt.
+ */
+export class ContextBuilder {
+  constructor(private readonly tokenizer: Tokenizer) {}
+
+  async build(messages: AIMessage[], budget: ContextBudget, options: ContextBuildOptions = {}): Promise<BuiltContext> {
+    const minRecentMessages = options.minRecentMessages ?? 4;
+    const reserved = Math.min(budget.maxTokens, Math.floor(budget.contextLimit / 2));
+    let remaining = Math.floor(budget.contextLimit * (1 - SAFETY_MARGIN)) - reserved;
+    let truncated = false;
+
+    const systemContent = messages
+      .filter(message => message.role === 'system')
+      .map(message => getMessageText(message.content))
+      .join('\n\n');
+    const conversation = messages.filter(message => message.role !== 'system');
+
+    // The system prompt may use at most half of the budget
+    let systemPrompt = systemContent;
+    if (systemPrompt) {
+      const limit = Math.floor(remaining / 2);
+      if ((await this.countMessage(systemPrompt)) > limit) {
+        systemPrompt = await this.truncate(systemPrompt, limit - MESSAGE_OVERHEAD, 'end');
+        truncated = true;
+      }
+      remaining -= await this.countMessage(systemPrompt);
+    }
+
+    // Recent messages are kept whatever their size; the oldest of them are shortened first
+    const recent = conversation.slice(-minRecentMessages);
+    const older = conversation.slice(0, conversation.length - recent.length);
+    const recentCounts = await Promise.all(recent.map(message => this.countMessage(message.content)));
+    let recentTokens = recentCounts.reduce((sum, count) => sum + count, 0);
+
+    for (let i = 0; i < recent.length && recentTokens > remaining; i++) {
+      // Messages with attachments or tool calls are kept whole
+      const text = recent[i].content;
+      if (typeof text !== 'string') continue;
+
+      const isLast = i === recent.length - 1;
+      const excess = recentTokens - remaining;
+      const target = isLast
+        ? Math.max(1, recentCounts[i] - excess - MESSAGE_OVERHEAD)
+        : Math.max(0, recentCounts[i] - excess - MESSAGE_OVERHEAD);
+      // The latest message keeps its end, which usually holds the actual question
+      const content = await this.truncate(text, target, isLast ? 'start' : 'end');
+      recent[i] = { ...recent[i], content };
+      recentTokens -= recentCounts[i] - (await this.countMessage(content));
+      truncated = true;
+    }
+    remaining -= recentTokens;
+
+    // Older turns, newest first, leaving room for the summary of what does not fit
+    const kept: AIMessage[] = [];
+    let olderTokens = 0;
+    const summaryBudget = Math.min(MAX_SUMMARY_TOKENS, Math.floor(remaining * 0.15));
+    for (let i = older.length - 1; i >= 0; i--) {
+      const tokens = await this.countMessage(older[i].content);
+      const room = i > 0 ? remaining - summaryBudget : remaining;
+      if (olderTokens + tokens > room) break;
+      kept.unshift(older[i]);
+      olderTokens += tokens;
+    }
+    remaining -= olderTokens;
+
+    const dropped = older.slice(0, older.length - kept.length);
+    let summarized = false;
+    if (dropped.length > 0 && remaining > MESSAGE_OVERHEAD) {
+      const summary = await this.fitSummary(this.buildSummary(dropped, options), remaining);
+      if (summary) {
+        systemPrompt = `${systemPrompt ? `${systemPrompt}\n\n` : ''}Résumé des échanges précédents :\n${summary}`;
+        summarized = true;
+      }
+    }
+
+    // Recent messages shortened to nothing are left out as well
+    const keptRecent = recent.filter(message => message.content.length > 0);
+    const result: AIMessage[] = [
+      ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+      ...kept,
+      ...keptRecent,
+    ];
+
+    let promptTokens = 0;
+    for (const message of result) {
+      promptTokens += await this.countMessage(message.content);
+    }
+
+    return {
+      messages: result,
+      promptTokens,
+      droppedMessages: dropped.length + recent.length - keptRecent.length,
+      summarized,
+      truncated,
+    };
+  }
+
+  private async countMessage(content: AIMessage['content']): Promise<number> {
+    const textTokens = await this.tokenizer.countTokens(getMessageText(content));
+    return textTokens + estimatePartTokens(content) + MESSAGE_OVERHEAD;
+  }
+
+  // The given summary stands in for the turns it covers, the others are summarized one line each
+  private buildSummary(dropped: AIMessage[], options: ContextBuildOptions): string {
+    if (!options.summary) {
+      return this.summarize(dropped);
+    }
+    const uncovered = dropped.slice(options.summarizedMessages ?? dropped.length);
+    return uncovered.length > 0 ? `${options.summary}\n${this.summarize(uncovered)}` : options.summary;
+  }
+
+  // One line per dropped message, starting with its first sentence
+  private summarize(messages: AIMessage[]): string {
+    return messages
+      .map(message => {
+        const text = getMessageText(message.content).trim() || '[pièce jointe]';
+        const firstSentence = text.split(/(?<=[.!?])\s/)[0];
+        const line = firstSentence.length > SUMMARY_LINE_LENGTH
+          ? `${firstSentence.slice(0, SUMMARY_LINE_LENGTH)}${TRUNCATION_MARKER}`
+          : firstSentence;
+        return `- ${message.role === 'user' ? 'Utilisateur' : 'Assistant'} : ${line}`;
+      })
+      .join('\n');
+  }
+
+  // Keeps the most recent lines of the summary that fit
+  private async fitSummary(summary: string, budget: number): Promise<string> {
+    const lines = summary.split('\n');
+    while (lines.length > 0 && (await this.tokenizer.countTokens(lines.join('\n'))) > budget - MESSAGE_OVERHEAD) {
+      lines.shift();
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Shorten text to at most maxTokens by cutting its start or its end
+   */
+  private async truncate(text: string, maxTokens: number, cut: 'start' | 'end'): Promise<string> {
+    if (maxTokens <= 0) return '';
+    if ((await this.tokenizer.countTokens(text)) <= maxTokens) return text;
+
+    // Binary search on the number of characters kept
+    let low = 0;
+    let high = text.length;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      const candidate = cut === 'end' ? text.slice(0, middle) : text.slice(text.length - middle);
+      if ((await this.tokenizer.countTokens(candidate)) + 1 <= maxTokens) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    if (low === 0) return '';
+    return cut === 'end'
+      ? `${text.slice(0, low)}${TRUNCATION_MARKER}`
+      : `${TRUNCATION_MARKER}${text.slice(text.length - low)}`;
+  }
+}
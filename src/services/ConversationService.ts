@@ -0,0 +1,504 @@
+import * as SQLite from 'expo-sqlite';
+import { AssistantMessage, Conversation, MessageAttachment } from '../types/core';
+import { ConversationListQuery, RestoreMode } from '../types/service';
+import { AuditService } from './AuditService';
+import AttachmentService from './AttachmentService';
+import FeatureFlagService from './FeatureFlagService';
+import { DatabaseCipher, ENCRYPTED_PREFIX, isEncryptedValue, isEncryptionEnabled, loadDatabaseCipher } from './DatabaseCipher';
+import { buildSnippet, matchesTerms, parseSearchQuery } from './MemoryIndex';
+
+// Rows encrypted per transaction when encryption is turned on
+const MIGRATION_BATCH_SIZE = 100;
+const MAX_TITLE_LENGTH = 60;
+const SCHEMA_VERSION = 1;
+
+export const DEFAULT_CONVERSATION_TITLE = 'Nouvelle conversation';
+
+// A conversation with its messages, as written to a backup
+export interface ConversationRecord {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  pinned: boolean;
+  archived: boolean;
+  messages: AssistantMessage[];
+}
+
+// Summary standing in for the start of a conversation, up to and including a message
+export interface ConversationSummary {
+  content: string;
+  throughMessageId: string;
+}
+
+/**
+ * A title on one line, shortened to fit the conversation list
+ */
+export function normalizeTitle(title: string): string {
+  const text = title.replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return DEFAULT_CONVERSATION_TITLE;
+  }
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Title given to a new conversation until a better one is generated: the start of its first message
+ */
+export function titleFromMessage(message: AssistantMessage): string {
+  return normalizeTitle(message.content);
+}
+
+/**
+ * Chat history in SQLite, one row per conversation and per message.
+ *
+ * Titles, message contents and attachment references are encrypted while ENHANCED_ENCRYPTION is
+ * on (see DatabaseCipher); dates and the pinned and archived flags stay in clear for sorting.
+ * Search therefore decrypts and filters in memory, which is fine at the size of a personal
+ * history.
+ *
+ * A conversation may also hold a generated summary of its early messages (see
+ * ConversationSummarizer), encrypted like the titles.
+ */
+export class ConversationService {
+  private static instance: ConversationService;
+  private db: SQLite.SQLiteDatabase | null = null;
+  private cipher: DatabaseCipher | null = null;
+  private initialization: Promise<void> | null = null;
+  // Writes are applied in the order they were made, so a conversation exists before its first message
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  public static getInstance(): ConversationService {
+    if (!ConversationService.instance) {
+      ConversationService.instance = new ConversationService();
+    }
+    return ConversationService.instance;
+  }
+
+  private constructor() {
+    this.initialize();
+  }
+
+  // Shared by concurrent callers; retried on the next call after a failure
+  private initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.openDatabase().catch(error => {
+        console.error('Failed to initialize conversation database:', error);
+        this.initialization = null;
+      });
+    }
+    return this.initialization;
+  }
+
+  private async openDatabase(): Promise<void> {
+    const db = await SQLite.openDatabaseAsync('mongars_conversations.db');
+
+    await db.execAsync(`
+      PRAGMA journal_mode = WAL;
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        pinned INTEGER NOT NULL DEFAULT 0,
+        archived INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS idx_conversations_list ON conversations(archived, pinned, updated_at);
+      CREATE TABLE IF NOT EXISTS conversation_messages (
+        conversation_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        is_user INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        interrupted INTEGER NOT NULL DEFAULT 0,
+        attachments TEXT,
+        PRIMARY KEY (conversation_id, id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_conversation_messages_order ON conversation_messages(conversation_id, timestamp);
+    `);
+
+    const versionRow = await db.getFirstAsync('PRAGMA user_version');
+    if (((versionRow as any)?.user_version ?? 0) < 1) {
+      // Whether the title may still be replaced by a generated one, and the rolling summary
+      await db.withTransactionAsync(() => db.execAsync(`
+        ALTER TABLE conversations ADD COLUMN title_pending INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE conversations ADD COLUMN summary TEXT;
+        ALTER TABLE conversations ADD COLUMN summary_through TEXT;
+        PRAGMA user_version = ${SCHEMA_VERSION};
+      `));
+    }
+
+    await FeatureFlagService.getInstance().initialize();
+    this.cipher = await loadDatabaseCipher(db, 'conversations_db');
+    this.db = db;
+
+    this.encryptExistingRows().catch(error => {
+      console.error('Failed to encrypt existing conversations:', error);
+    });
+  }
+
+  // Rows written before encryption was enabled, or while it was off
+  private async encryptExistingRows(): Promise<void> {
+    if (!isEncryptionEnabled()) return;
+
+    for (;;) {
+      const rows = await this.db!.getAllAsync(
+        `SELECT id, title, summary FROM conversations
+         WHERE substr(title, 1, ?) != ? OR (summary IS NOT NULL AND substr(summary, 1, ?) != ?)
+         LIMIT ?`,
+        [ENCRYPTED_PREFIX.length, ENCRYPTED_PREFIX, ENCRYPTED_PREFIX.length, ENCRYPTED_PREFIX, MIGRATION_BATCH_SIZE]
+      );
+      if (rows.length === 0) break;
+
+      await this.enqueue(() => this.db!.withTransactionAsync(async () => {
+        for (const row of rows as any[]) {
+          await this.db!.runAsync(
+            'UPDATE conversations SET title = ?, summary = ? WHERE id = ?',
+            [this.encryptOnce(row.title), row.summary === null ? null : this.encryptOnce(row.summary), row.id]
+          );
+        }
+      }));
+    }
+
+    for (;;) {
+      const rows = await this.db!.getAllAsync(
+        `SELECT conversation_id, id, content, attachments FROM conversation_messages
+         WHERE substr(content, 1, ?) != ? OR (attachments IS NOT NULL AND substr(attachments, 1, ?) != ?)
+         LIMIT ?`,
+        [ENCRYPTED_PREFIX.length, ENCRYPTED_PREFIX, ENCRYPTED_PREFIX.length, ENCRYPTED_PREFIX, MIGRATION_BATCH_SIZE]
+      );
+      if (rows.length === 0) break;
+
+      await this.enqueue(() => this.db!.withTransactionAsync(async () => {
+        for (const row of rows as any[]) {
+          await this.db!.runAsync(
+            'UPDATE conversation_messages SET content = ?, attachments = ? WHERE conversation_id = ? AND id = ?',
+            [
+              this.encryptOnce(row.content),
+              row.attachments === null ? null : this.encryptOnce(row.attachments),
+              row.conversation_id,
+              row.id,
+            ]
+          );
+        }
+      }));
+    }
+  }
+
+  private encryptOnce(value: string): string {
+    return isEncryptedValue(value) ? value : this.cipher!.encrypt(value);
+  }
+
+  private enqueue<T>(write: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(write);
+    this.writeQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  /**
+   * Conversations, pinned ones first, then the most recently updated
+   */
+  async listConversations(listQuery: ConversationListQuery = {}): Promise<Conversation[]> {
+    await this.initialize();
+
+    try {
+      const rows = await this.db!.getAllAsync(
+        `SELECT c.*, (SELECT COUNT(*) FROM conversation_messages m WHERE m.conversation_id = c.id) AS message_count
+         FROM conversations c
+         WHERE c.archived = ?
+         ORDER BY c.pinned DESC, c.updated_at DESC`,
+        [listQuery.archived ? 1 : 0]
+      );
+      const conversations = rows.map(row => this.toConversation(row));
+
+      const terms = parseSearchQuery(listQuery.query ?? '');
+      if (terms.length === 0) {
+        return conversations;
+      }
+
+      const matches: Conversation[] = [];
+      for (const conversation of conversations) {
+        const messages = await this.getMessages(conversation.id);
+        const text = [conversation.title, ...messages.map(message => message.content)].join('\n');
+        if (!matchesTerms(text, terms)) continue;
+
+        const matching = messages.find(message => matchesTerms(message.content, terms));
+        matches.push(matching ? { ...conversation, snippet: buildSnippet(matching.content, terms) } : conversation);
+      }
+      return matches;
+    } catch (error) {
+      console.error('Failed to list conversations:', error);
+      return [];
+    }
+  }
+
+  async getConversation(id: string): Promise<Conversation | null> {
+    await this.initialize();
+
+    try {
+      const row = await this.db!.getFirstAsync(
+        `SELECT c.*, (SELECT COUNT(*) FROM conversation_messages m WHERE m.conversation_id = c.id) AS message_count
+         FROM conversations c WHERE c.id = ?`,
+        [id]
+      );
+      return row ? this.toConversation(row) : null;
+    } catch (error) {
+      console.error('Failed to get conversation:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Messages of a conversation, oldest first
+   */
+  async getMessages(conversationId: string): Promise<AssistantMessage[]> {
+    await this.initialize();
+
+    const rows = await this.db!.getAllAsync(
+      'SELECT * FROM conversation_messages WHERE conversation_id = ? ORDER BY timestamp, rowid',
+      [conversationId]
+    );
+    return rows.map(row => this.toMessage(row));
+  }
+
+  // The title stays replaceable by a generated one until the conversation is renamed
+  async createConversation(id: string, title: string = DEFAULT_CONVERSATION_TITLE): Promise<void> {
+    await this.initialize();
+
+    const now = Date.now();
+    await this.enqueue(() => this.db!.runAsync(
+      'INSERT OR IGNORE INTO conversations (id, title, created_at, updated_at, title_pending) VALUES (?, ?, ?, ?, 1)',
+      [id, this.cipher!.encryptIfEnabled(title), now, now]
+    ));
+  }
+
+  /**
+   * Add a message to a conversation, or update it if it was saved before
+   */
+  async saveMessage(conversationId: string, message: AssistantMessage): Promise<void> {
+    await this.initialize();
+
+    const attachments = message.attachments?.length ? JSON.stringify(message.attachments) : null;
+    await this.enqueue(async () => {
+      await this.db!.runAsync(
+        `INSERT INTO conversation_messages (conversation_id, id, is_user, content, timestamp, interrupted, attachments)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (conversation_id, id) DO UPDATE SET
+           content = excluded.content, interrupted = excluded.interrupted, attachments = excluded.attachments`,
+        [
+          conversationId,
+          message.id,
+          message.isUser ? 1 : 0,
+          this.cipher!.encryptIfEnabled(message.content),
+          message.timestamp.getTime(),
+          message.interrupted ? 1 : 0,
+          attachments === null ? null : this.cipher!.encryptIfEnabled(attachments),
+        ]
+      );
+      await this.db!.runAsync('UPDATE conversations SET updated_at = ? WHERE id = ?', [Date.now(), conversationId]);
+    });
+  }
+
+  async renameConversation(id: string, title: string): Promise<void> {
+    await this.initialize();
+
+    await this.enqueue(() => this.db!.runAsync(
+      'UPDATE conversations SET title = ?, title_pending = 0 WHERE id = ?',
+      [this.cipher!.encryptIfEnabled(title.trim() || DEFAULT_CONVERSATION_TITLE), id]
+    ));
+  }
+
+  async isTitlePending(id: string): Promise<boolean> {
+    await this.initialize();
+
+    const row = await this.db!.getFirstAsync('SELECT title_pending FROM conversations WHERE id = ?', [id]);
+    return (row as any)?.title_pending === 1;
+  }
+
+  /**
+   * Replace the provisional title of a conversation; a conversation renamed meanwhile keeps its name
+   * @returns Whether the title was replaced
+   */
+  async setGeneratedTitle(id: string, title: string): Promise<boolean> {
+    await this.initialize();
+
+    const result = await this.enqueue(() => this.db!.runAsync(
+      'UPDATE conversations SET title = ?, title_pending = 0 WHERE id = ? AND title_pending = 1',
+      [this.cipher!.encryptIfEnabled(normalizeTitle(title)), id]
+    ));
+    return result.changes > 0;
+  }
+
+  async getSummary(id: string): Promise<ConversationSummary | null> {
+    await this.initialize();
+
+    const row = await this.db!.getFirstAsync(
+      'SELECT summary, summary_through FROM conversations WHERE id = ?',
+      [id]
+    ) as any;
+    if (!row?.summary || !row.summary_through) {
+      return null;
+    }
+    return { content: this.cipher!.decrypt(row.summary), throughMessageId: row.summary_through };
+  }
+
+  async saveSummary(id: string, summary: ConversationSummary): Promise<void> {
+    await this.initialize();
+
+    await this.enqueue(() => this.db!.runAsync(
+      'UPDATE conversations SET summary = ?, summary_through = ? WHERE id = ?',
+      [this.cipher!.encryptIfEnabled(summary.content), summary.throughMessageId, id]
+    ));
+  }
+
+  async setPinned(id: string, pinned: boolean): Promise<void> {
+    await this.initialize();
+
+    await this.enqueue(() => this.db!.runAsync('UPDATE conversations SET pinned = ? WHERE id = ?', [pinned ? 1 : 0, id]));
+  }
+
+  async setArchived(id: string, archived: boolean): Promise<void> {
+    await this.initialize();
+
+    await this.enqueue(() => this.db!.runAsync('UPDATE conversations SET archived = ? WHERE id = ?', [archived ? 1 : 0, id]));
+  }
+
+  /**
+   * Delete a conversation, its messages and the photos attached to them
+   */
+  async deleteConversation(id: string): Promise<boolean> {
+    await this.initialize();
+
+    try {
+      const messages = await this.getMessages(id);
+      await this.enqueue(() => this.db!.withTransactionAsync(async () => {
+        await this.db!.runAsync('DELETE FROM conversation_messages WHERE conversation_id = ?', [id]);
+        await this.db!.runAsync('DELETE FROM conversations WHERE id = ?', [id]);
+      }));
+      await AttachmentService.getInstance().deleteAttachments(messages.flatMap(message => message.attachments ?? []));
+
+      AuditService.getInstance().log('conversation_delete', `Conversation deleted: ${id.substring(0, 8)}...`, {
+        metadata: { messages: messages.length },
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+      return false;
+    }
+  }
+
+  // Attachment files are removed separately, with AttachmentService.clearAll()
+  async clearAllConversations(): Promise<void> {
+    await this.initialize();
+
+    try {
+      await this.enqueue(() => this.db!.withTransactionAsync(async () => {
+        await this.db!.runAsync('DELETE FROM conversation_messages');
+        await this.db!.runAsync('DELETE FROM conversations');
+      }));
+      AuditService.getInstance().log('conversation_delete', 'All conversations cleared');
+    } catch (error) {
+      console.error('Failed to clear conversations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every conversation with its messages, decrypted for a backup. Attachments are left out:
+   * their files stay on this device.
+   */
+  async exportConversations(): Promise<ConversationRecord[]> {
+    await this.initialize();
+
+    const rows = await this.db!.getAllAsync('SELECT * FROM conversations ORDER BY created_at, id');
+    const records: ConversationRecord[] = [];
+    for (const row of rows) {
+      const { messageCount, snippet, ...conversation } = this.toConversation(row);
+      const messages = await this.getMessages(conversation.id);
+      records.push({ ...conversation, messages: messages.map(({ attachments, ...message }) => message) });
+    }
+    return records;
+  }
+
+  /**
+   * Add conversations from a backup, keeping their ids and dates. Merging adds the conversations
+   * and messages missing from the device; replacing deletes the device's conversations first.
+   * Returns the number of conversations and messages added.
+   */
+  async importConversations(
+    records: ConversationRecord[],
+    mode: RestoreMode
+  ): Promise<{ conversations: number; messages: number }> {
+    await this.initialize();
+
+    const imported = { conversations: 0, messages: 0 };
+    await this.enqueue(() => this.db!.withTransactionAsync(async () => {
+      if (mode === 'replace') {
+        await this.db!.runAsync('DELETE FROM conversation_messages');
+        await this.db!.runAsync('DELETE FROM conversations');
+      }
+
+      for (const record of records) {
+        const result = await this.db!.runAsync(
+          `INSERT OR IGNORE INTO conversations (id, title, created_at, updated_at, pinned, archived)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            record.id,
+            this.cipher!.encryptIfEnabled(record.title),
+            record.createdAt.getTime(),
+            record.updatedAt.getTime(),
+            record.pinned ? 1 : 0,
+            record.archived ? 1 : 0,
+          ]
+        );
+        imported.conversations += result.changes;
+
+        // Oldest first, since messages with the same timestamp keep their insertion order
+        const messages = [...record.messages].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        for (const message of messages) {
+          const inserted = await this.db!.runAsync(
+            `INSERT OR IGNORE INTO conversation_messages (conversation_id, id, is_user, content, timestamp, interrupted)
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            [
+              record.id,
+              message.id,
+              message.isUser ? 1 : 0,
+              this.cipher!.encryptIfEnabled(message.content),
+              message.timestamp.getTime(),
+              message.interrupted ? 1 : 0,
+            ]
+          );
+          imported.messages += inserted.changes;
+        }
+      }
+    }));
+
+    return imported;
+  }
+
+  private toConversation(row: any): Conversation {
+    return {
+      id: row.id,
+      title: this.cipher!.decrypt(row.title),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      pinned: row.pinned === 1,
+      archived: row.archived === 1,
+      messageCount: row.message_count ?? 0,
+    };
+  }
+
+  private toMessage(row: any): AssistantMessage {
+    const attachments: MessageAttachment[] | undefined = row.attachments
+      ? JSON.parse(this.cipher!.decrypt(row.attachments))
+      : undefined;
+    return {
+      id: row.id,
+      content: this.cipher!.decrypt(row.content),
+      isUser: row.is_user === 1,
+      timestamp: new Date(row.timestamp),
+      ...(row.interrupted === 1 && { interrupted: true }),
+      ...(attachments && { attachments }),
+    };
+  }
+}
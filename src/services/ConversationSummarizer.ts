@@ -0,0 +1,190 @@
+import { AssistantMessage } from '../types/core';
+import { AIMessage } from '../types/ai';
+import { ConversationService, ConversationSummary } from './ConversationService';
+import EgressGuard from './EgressGuard';
+import ResilientLLMService, { LLMFactory, LocalLLMProvider } from './LLMProvider';
+import { estimateTokens } from './Tokenizer';
+
+// The latest messages always reach the model as they are, so they are never summarized
+const RECENT_MESSAGES_KEPT = 6;
+// Older messages are folded into the summary once they add up to this many tokens
+const SUMMARY_THRESHOLD_TOKENS = 1000;
+// Messages folded per model call, small enough for the on-device model's context
+const SUMMARY_INPUT_TOKENS = 1500;
+// A single message longer than this is cut, so that it still fits on its own
+const SUMMARY_EXCERPT_LENGTH = 4000;
+const SUMMARY_MAX_TOKENS = 400;
+const TITLE_MAX_TOKENS = 24;
+// Characters of each message of the first exchange shown to the model for the title
+const TITLE_EXCERPT_LENGTH = 500;
+const TEMPERATURE = 0.3;
+
+const TITLE_PROMPT = `Tu donnes des titres courts aux conversations entre un utilisateur et son assistant.
+Réponds uniquement par un titre en français de 6 mots au maximum, sans guillemets ni ponctuation finale.`;
+
+const SUMMARY_PROMPT = `Tu résumes une conversation entre un utilisateur et monVOX, son assistant.
+Rédige en français une liste à puces concise, 10 points au maximum, qui conserve les faits, les préférences, les décisions et les questions en suspens.
+Réponds uniquement par la liste.`;
+
+function transcript(messages: AssistantMessage[], excerptLength?: number): string {
+  return messages
+    .map(message => {
+      let text = message.content.trim();
+      if (excerptLength && text.length > excerptLength) {
+        text = `${text.slice(0, excerptLength)}…`;
+      }
+      if (message.attachments?.length) {
+        text = `[photo] ${text}`.trim();
+      }
+      return `${message.isUser ? 'Utilisateur' : 'Assistant'} : ${text}`;
+    })
+    .join('\n');
+}
+
+// Models tend to wrap the title in quotes or prefix it despite the instructions
+function cleanTitle(response: string): string {
+  const line = response.trim().split('\n')[0] ?? '';
+  return line
+    .replace(/^titre\s*:\s*/i, '')
+    .replace(/^["'«“\s]+|["'»”.!:;,\s]+$/g, '');
+}
+
+/**
+ * Background upkeep of stored conversations, run after each exchange: a short title generated
+ * from the first exchange, and a rolling summary of the messages that are no longer recent,
+ * which AssistantService sends in place of the early turns that do not fit a model's context.
+ *
+ * Requests go straight to the provider a chat request would start with, or to the on-device model
+ * in strict local mode; nothing is generated when it is unavailable, or when it is the reference
+ * engine, whose canned sentences would make poor titles and replace the early turns with text
+ * unrelated to them. Requests bypass ResilientLLMService so that background work stays out of
+ * the router's latency, error and cost statistics.
+ */
+class ConversationSummarizer {
+  private static instance: ConversationSummarizer;
+  // One update at a time per conversation; the latest messages received meanwhile are processed next
+  private running = new Set<string>();
+  private pending = new Map<string, AssistantMessage[]>();
+
+  public static getInstance(): ConversationSummarizer {
+    if (!ConversationSummarizer.instance) {
+      ConversationSummarizer.instance = new ConversationSummarizer();
+    }
+    return ConversationSummarizer.instance;
+  }
+
+  private constructor() {}
+
+  /**
+   * Update the title and summary of a conversation in the background
+   * @param messages The whole conversation, oldest first
+   */
+  scheduleUpdate(conversationId: string, messages: AssistantMessage[]): void {
+    if (this.running.has(conversationId)) {
+      this.pending.set(conversationId, messages);
+      return;
+    }
+
+    this.running.add(conversationId);
+    this.update(conversationId, messages)
+      .catch(error => {
+        console.error('Failed to update conversation title or summary:', error);
+      })
+      .finally(() => {
+        this.running.delete(conversationId);
+        const next = this.pending.get(conversationId);
+        if (next) {
+          this.pending.delete(conversationId);
+          this.scheduleUpdate(conversationId, next);
+        }
+      });
+  }
+
+  private async update(conversationId: string, messages: AssistantMessage[]): Promise<void> {
+    const conversationService = ConversationService.getInstance();
+
+    if (await conversationService.isTitlePending(conversationId)) {
+      await this.generateTitle(conversationId, messages);
+    }
+    await this.updateSummary(conversationId, messages);
+  }
+
+  // Waits for a first exchange with an answer, so a failed attempt is retried after the next one
+  private async generateTitle(conversationId: string, messages: AssistantMessage[]): Promise<void> {
+    const questionIndex = messages.findIndex(message => message.isUser);
+    const answer = messages.slice(questionIndex + 1).find(message => !message.isUser && message.content.trim());
+    if (questionIndex < 0 || !answer) return;
+
+    const response = await this.complete([
+      { role: 'system', content: TITLE_PROMPT },
+      { role: 'user', content: transcript([messages[questionIndex], answer], TITLE_EXCERPT_LENGTH) },
+    ], TITLE_MAX_TOKENS);
+
+    const title = response && cleanTitle(response);
+    if (title) {
+      await ConversationService.getInstance().setGeneratedTitle(conversationId, title);
+    }
+  }
+
+  /**
+   * Fold the messages between the current summary and the recent ones into the summary, a batch
+   * at a time. A summary whose last message is no longer in the conversation is started over.
+   */
+  private async updateSummary(conversationId: string, messages: AssistantMessage[]): Promise<void> {
+    const conversationService = ConversationService.getInstance();
+    let summary: ConversationSummary | null = await conversationService.getSummary(conversationId);
+
+    const summarizedIndex = summary ? messages.findIndex(message => message.id === summary!.throughMessageId) : -1;
+    if (summarizedIndex < 0) {
+      summary = null;
+    }
+
+    const older = messages.slice(summarizedIndex + 1, Math.max(0, messages.length - RECENT_MESSAGES_KEPT));
+    const olderTokens = older.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+    if (olderTokens < SUMMARY_THRESHOLD_TOKENS) return;
+
+    let start = 0;
+    while (start < older.length) {
+      // At least one message per batch, however long
+      let end = start + 1;
+      let tokens = estimateTokens(older[start].content);
+      while (end < older.length && tokens + estimateTokens(older[end].content) <= SUMMARY_INPUT_TOKENS) {
+        tokens += estimateTokens(older[end].content);
+        end++;
+      }
+
+      const batch = older.slice(start, end);
+      const response = await this.complete([
+        { role: 'system', content: SUMMARY_PROMPT },
+        {
+          role: 'user',
+          content: `${summary ? `Résumé actuel :\n${summary.content}\n\n` : ''}Suite de la conversation :\n${transcript(batch, SUMMARY_EXCERPT_LENGTH)}`,
+        },
+      ], SUMMARY_MAX_TOKENS);
+      if (!response?.trim()) return;
+
+      summary = { content: response.trim(), throughMessageId: batch[batch.length - 1].id };
+      await conversationService.saveSummary(conversationId, summary);
+      start = end;
+    }
+  }
+
+  /**
+   * One completion, without fallback: a failed update is retried after the next exchange.
+   * Resolves null when the provider is unavailable or only has the reference engine.
+   */
+  private async complete(messages: AIMessage[], maxTokens: number): Promise<string | null> {
+    const provider = EgressGuard.getInstance().isStrictLocalMode()
+      ? LLMFactory.getProvider('local')
+      : ResilientLLMService.getInstance().getCurrentProvider();
+    if (provider instanceof LocalLLMProvider && provider.getEngine().isReference) {
+      return null;
+    }
+    if (!(await provider.isAvailable())) {
+      return null;
+    }
+    return (await provider.generateResponse(messages, { maxTokens, temperature: TEMPERATURE })).content;
+  }
+}
+
+export default ConversationSummarizer;
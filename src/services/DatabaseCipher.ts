@@ -0,0 +1,114 @@
+import * as SQLite from 'expo-sqlite';
+import { gcmsiv } from '@noble/ciphers/aes';
+import SecretsManager from './SecretsManager';
+import FeatureFlagService, { FeatureFlags } from './FeatureFlagService';
+import { decryptBytes, encryptBytes, encryptString, decryptString, generateEncryptionKey } from '../utils/crypto';
+import { base64ToBytes, bytesToBase64, bytesToHex, utf8ToBytes } from '../utils/encoding';
+import { LRUCache } from '../utils/performance';
+
+/**
+ * Column encryption for the app's SQLite databases (envelope encryption).
+ *
+ * Each database has its own data keys, stored in the database wrapped by a key-encryption key
+ * that never leaves the keychain. Copying the database file off the device is therefore not
+ * enough to read it.
+ */
+
+// Marks encrypted text values, so rows written before encryption was enabled stay readable
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+const SIV_NONCE = new Uint8Array(12);
+// Blind tokens keep 64 bits of the keyed hash: collisions stay negligible for a personal index
+const BLIND_TOKEN_BYTES = 8;
+
+export function isEncryptionEnabled(): boolean {
+  return FeatureFlagService.getInstance().isEnabled(FeatureFlags.ENHANCED_ENCRYPTION);
+}
+
+export function isEncryptedValue(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export class DatabaseCipher {
+  // Indexing hashes the same words over and over
+  private blindTokens = new LRUCache<string, string>(5000);
+
+  constructor(
+    private readonly dataKey: Uint8Array,
+    private readonly indexKey: Uint8Array
+  ) {}
+
+  encrypt(plaintext: string): string {
+    return ENCRYPTED_PREFIX + encryptString(plaintext, this.dataKey);
+  }
+
+  // Values without the prefix were stored in clear and are returned as is
+  decrypt(value: string): string {
+    return isEncryptedValue(value) ? decryptString(value.slice(ENCRYPTED_PREFIX.length), this.dataKey) : value;
+  }
+
+  // Text columns are only encrypted while the flag is on
+  encryptIfEnabled(plaintext: string): string {
+    return isEncryptionEnabled() ? this.encrypt(plaintext) : plaintext;
+  }
+
+  encryptBytes(plaintext: Uint8Array): Uint8Array {
+    return encryptBytes(plaintext, this.dataKey);
+  }
+
+  decryptBytes(payload: Uint8Array): Uint8Array {
+    return decryptBytes(payload, this.dataKey);
+  }
+
+  /**
+   * Deterministic keyed token for a search term. The synthetic IV of AES-GCM-SIV under a fixed
+   * nonce is a keyed hash of the input, so equal terms give equal tokens that reveal nothing
+   * about the term without the index key.
+   */
+  blindToken(term: string): string {
+    let token = this.blindTokens.get(term);
+    if (!token) {
+      const sealed = gcmsiv(this.indexKey, SIV_NONCE).encrypt(utf8ToBytes(term));
+      token = bytesToHex(sealed.subarray(sealed.length - 16, sealed.length - 16 + BLIND_TOKEN_BYTES));
+      this.blindTokens.set(term, token);
+    }
+    return token;
+  }
+}
+
+/**
+ * Load the keys of a database, creating them on first use. The table holding the wrapped keys
+ * is created in the database if needed.
+ */
+export async function loadDatabaseCipher(db: SQLite.SQLiteDatabase, name: string): Promise<DatabaseCipher> {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS encryption_keys (
+      name TEXT PRIMARY KEY,
+      wrapped_key TEXT NOT NULL
+    );
+  `);
+
+  const keyEncryptionKey = await SecretsManager.getInstance().getOrCreateEncryptionKey(`${name}_kek`);
+  // Keys wrapped by a key encryption key that an emergency wipe removed can never be unwrapped
+  // again, and neither can what they encrypted: they are replaced
+  if (SecretsManager.getInstance().isNewEncryptionKey(`${name}_kek`)) {
+    await db.runAsync('DELETE FROM encryption_keys');
+  }
+  const dataKey = await loadWrappedKey(db, 'data', keyEncryptionKey);
+  const indexKey = await loadWrappedKey(db, 'index', keyEncryptionKey);
+  return new DatabaseCipher(dataKey, indexKey);
+}
+
+async function loadWrappedKey(db: SQLite.SQLiteDatabase, name: string, keyEncryptionKey: Uint8Array): Promise<Uint8Array> {
+  const row = await db.getFirstAsync('SELECT wrapped_key FROM encryption_keys WHERE name = ?', [name]);
+  if (row) {
+    // Throws when the keychain no longer holds the key that wrapped it
+    return decryptBytes(base64ToBytes((row as any).wrapped_key), keyEncryptionKey);
+  }
+
+  const key = generateEncryptionKey();
+  await db.runAsync(
+    'INSERT INTO encryption_keys (name, wrapped_key) VALUES (?, ?)',
+    [name, bytesToBase64(encryptBytes(key, keyEncryptionKey))]
+  );
+  return key;
+}
@@ -0,0 +1,122 @@
+import FeatureFlagService, { FeatureFlags } from './FeatureFlagService';
+import { AuditService } from './AuditService';
+
+/**
+ * Single checkpoint for every outbound network call.
+ *
+ * In strict local mode nothing that carries user data may leave the user's network:
+ * cloud LLMs, the backend proxy, transcription and image generation are refused.
+ * Servers on the device or the local network stay reachable, and model downloads are
+ * allowed because they only fetch public weights and send nothing about the user.
+ */
+
+export type EgressDestination =
+  | 'cloud_llm'
+  | 'backend_proxy'
+  | 'transcription'
+  | 'image_generation'
+  | 'model_download'
+  | 'local_network';
+
+export interface EgressRequest {
+  destination: EgressDestination;
+  // URL or host name of the remote endpoint
+  target: string;
+}
+
+export class EgressBlockedError extends Error {
+  constructor(
+    public readonly destination: EgressDestination,
+    public readonly target: string
+  ) {
+    super(`Strict local mode blocked a ${destination} request to ${target}`);
+    this.name = 'EgressBlockedError';
+  }
+}
+
+const STRICT_MODE_ALLOWED: EgressDestination[] = ['local_network', 'model_download'];
+
+class EgressGuard {
+  private static instance: EgressGuard;
+  private blockedCount = 0;
+
+  public static getInstance(): EgressGuard {
+    if (!EgressGuard.instance) {
+      EgressGuard.instance = new EgressGuard();
+    }
+    return EgressGuard.instance;
+  }
+
+  private constructor() {}
+
+  isStrictLocalMode(): boolean {
+    return FeatureFlagService.getInstance().isEnabled(FeatureFlags.STRICT_LOCAL_MODE);
+  }
+
+  /**
+   * Whether a request would pass, without recording anything
+   */
+  isAllowed(request: EgressRequest): boolean {
+    if (!this.isStrictLocalMode()) {
+      return true;
+    }
+    if (!STRICT_MODE_ALLOWED.includes(request.destination)) {
+      return false;
+    }
+    // A "local" server configured with a public address is still the cloud
+    return request.destination !== 'local_network' || isLocalNetworkAddress(request.target);
+  }
+
+  /**
+   * Throw EgressBlockedError and audit the attempt when the request is not allowed
+   */
+  assertAllowed(request: EgressRequest): void {
+    if (this.isAllowed(request)) {
+      return;
+    }
+
+    this.blockedCount++;
+    const target = describeTarget(request.target);
+    AuditService.getInstance().log(
+      'egress_blocked',
+      `Blocked ${request.destination} request to ${target} (strict local mode)`,
+      { metadata: { destination: request.destination, target } }
+    );
+    throw new EgressBlockedError(request.destination, target);
+  }
+
+  getBlockedCount(): number {
+    return this.blockedCount;
+  }
+}
+
+function getHost(target: string): string {
+  const match = target.match(/^[a-z][a-z0-9+.-]*:\/\/(?:[^@/]*@)?(\[[^\]]+\]|[^:/?#]+)/i);
+  return (match ? match[1] : target).replace(/^\[|\]$/g, '').toLowerCase();
+}
+
+// Only the host is recorded, so paths and query strings never reach the audit log
+function describeTarget(target: string): string {
+  return getHost(target) || 'unknown host';
+}
+
+/**
+ * Loopback, private (RFC 1918), link-local, unique local IPv6 and mDNS (.local) addresses
+ */
+export function isLocalNetworkAddress(target: string): boolean {
+  const host = getHost(target);
+
+  if (host === 'localhost' || host.endsWith('.local') || host === '::1') {
+    return true;
+  }
+
+  const ipv4 = host.match(/^(\d{1,3})\.(\d{1,3})\.\d{1,3}\.\d{1,3}$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return a === 127 || a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 169 && b === 254);
+  }
+
+  return /^(fc|fd)[0-9a-f]{2}:/.test(host) || /^fe[89ab][0-9a-f]:/.test(host);
+}
+
+export default EgressGuard;
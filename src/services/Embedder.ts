@@ -0,0 +1,111 @@
+/**
+ * Text embeddings for semantic memory search.
+ *
+ * The default embedder works offline: it hashes words and character trigrams into a fixed
+ * number of dimensions, with sublinear term frequencies, so texts sharing vocabulary (or word
+ * stems, through the trigrams) end up close to each other.
+ */
+
+export interface Embedder {
+  // Stored with each vector; vectors from another embedder are recomputed
+  readonly id: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+// Frequent French and English words that say nothing about the topic of a text
+const STOPWORDS = new Set([
+  'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'et', 'ou', 'a', 'au', 'aux', 'en', 'dans', 'sur',
+  'pour', 'par', 'avec', 'que', 'qui', 'quoi', 'est', 'sont', 'je', 'tu', 'il', 'elle', 'on', 'nous',
+  'vous', 'ils', 'elles', 'ce', 'cet', 'cette', 'ces', 'mon', 'ma', 'mes', 'ton', 'ta', 'tes', 'son',
+  'sa', 'ses', 'ne', 'pas', 'plus', 'se', 'me', 'te', 'y', 'l', 'd', 'j', 'c', 'qu', 'n', 's', 'm', 't',
+  'the', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'are', 'it', 'i', 'you', 'my',
+]);
+
+const TRIGRAM_WEIGHT = 0.5;
+
+export class HashingEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(readonly dimensions: number = 512) {
+    this.id = `hashing-v1-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): Float32Array {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+
+    for (const word of tokenize(text)) {
+      add(`w:${word}`, 1);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    // Signed hashing keeps collisions from always adding up
+    const vector = new Float32Array(this.dimensions);
+    counts.forEach((count, feature) => {
+      const hash = fnv1a(feature);
+      const sign = hash & 1 ? 1 : -1;
+      vector[(hash >>> 1) % this.dimensions] += sign * (1 + Math.log(count));
+    });
+
+    return normalize(vector);
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 0 && !STOPWORDS.has(word));
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Vectors are stored in SQLite as the raw bytes of their 32-bit floats
+export function vectorToBlob(vector: Float32Array): Uint8Array {
+  return new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function blobToVector(blob: Uint8Array): Float32Array {
+  return new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength));
+}
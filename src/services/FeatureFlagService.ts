@@ -13,6 +13,8 @@ export enum FeatureFlags {
   LOCAL_LLM = 'local_llm',
   STREAMING_RESPONSES = 'streaming_responses',
   CONTEXT_MEMORY = 'context_memory',
+  GROK_FALLBACK = 'grok_fallback',
+  TOOL_CALLING = 'tool_calling',
   
   // Voice & Audio
   VOICE_WAKE_WORD = 'voice_wake_word',
@@ -68,6 +70,8 @@ class FeatureFlagService {
       // Core AI - Enabled for production
       { key: FeatureFlags.STREAMING_RESPONSES, enabled: true, description: 'Real-time streaming AI responses' },
       { key: FeatureFlags.CONTEXT_MEMORY, enabled: true, description: 'Long-term conversation memory' },
+      { key: FeatureFlags.GROK_FALLBACK, enabled: false, description: 'Use xAI Grok as a fallback LLM provider' },
+      { key: FeatureFlags.TOOL_CALLING, enabled: true, description: 'Let the assistant call tools such as memory search' },
       
       // Local LLM - Behind flag for beta testing
       { key: FeatureFlags.LOCAL_LLM, enabled: false, description: 'On-device LLM processing', rolloutPercentage: 20 },
@@ -213,6 +217,31 @@ class FeatureFlagService {
     return this.flags.get(flagKey);
   }
 
+  async getOverrides(): Promise<Record<string, boolean>> {
+    return this.getStoredOverrides();
+  }
+
+  /**
+   * Apply overrides from a backup; unknown flags are ignored
+   */
+  async importOverrides(overrides: Record<string, boolean>, replace: boolean): Promise<void> {
+    const known = Object.entries(overrides).filter(
+      ([key, enabled]) => this.flags.has(key) && typeof enabled === 'boolean'
+    );
+    const merged = replace
+      ? Object.fromEntries(known)
+      : { ...(await this.getStoredOverrides()), ...Object.fromEntries(known) };
+
+    await AsyncStorage.setItem('feature_flags_override', JSON.stringify(merged));
+    this.initializeDefaultFlags();
+    Object.entries(merged).forEach(([key, enabled]) => {
+      const flag = this.flags.get(key);
+      if (flag) {
+        this.flags.set(key, { ...flag, enabled });
+      }
+    });
+  }
+
   private async getStoredOverrides(): Promise<Record<string, boolean>> {
     try {
       const stored = await AsyncStorage.getItem('feature_flags_override');
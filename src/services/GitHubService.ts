@@ -81,8 +81,9 @@ class GitHubService {
 
     // Log API usage (but never the token)
     AuditService.getInstance().log(
-      'memory_write', 
-      `GitHub API call via proxy: ${endpoint}`
+      'api_call',
+      `GitHub API call via proxy: ${endpoint}`,
+      { metadata: { provider: 'github', endpoint } }
     );
     
     return proxyResponse.data;
@@ -124,7 +125,9 @@ class GitHubService {
         }
       );
       
-      AuditService.getInstance().log('memory_write', `Created GitHub issue: ${title}`);
+      AuditService.getInstance().log('api_call', `Created GitHub issue: ${title}`, {
+        metadata: { provider: 'github' },
+      });
       return issue;
     } catch (error) {
       console.error('Failed to create issue:', error);
@@ -193,7 +196,9 @@ class GitHubService {
         }
       );
       
-      AuditService.getInstance().log('memory_write', `Created GitHub release: ${name}`);
+      AuditService.getInstance().log('api_call', `Created GitHub release: ${name}`, {
+        metadata: { provider: 'github', tagName },
+      });
       return release;
     } catch (error) {
       console.error('Failed to create release:', error);
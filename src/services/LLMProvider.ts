@@ -1,9 +1,42 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import SecretsManager, { BackendProxyRequest } from './SecretsManager';
 import FeatureFlagService, { FeatureFlags } from './FeatureFlagService';
 import { AuditService } from './AuditService';
 import PerformanceMonitor from './PerformanceMonitor';
-import { getAnthropicTextResponse, getOpenAITextResponse, getGrokTextResponse } from '../api/chat-service';
-import { AIMessage } from '../types/ai';
+import {
+  getAnthropicTextResponse,
+  getOpenAITextResponse,
+  getGrokTextResponse,
+  streamAnthropicTextResponse,
+  streamOpenAITextResponse,
+  streamGrokTextResponse,
+  getChatCompletion,
+  streamChatCompletion,
+} from '../api/chat-service';
+import { getLocalEndpointClient } from '../api/local-endpoint';
+import { AIMediaType, AIMessage, AIToolCall, AIToolDefinition } from '../types/ai';
+import { MediaSupport, TEXT_ONLY, UnsupportedContentError, getMediaTypes } from '../api/message-format';
+import { LLMHealthCheck } from '../types/service';
+import {
+  LocalInferenceEngine,
+  LocalModelDescriptor,
+  ReferenceInferenceEngine,
+  DEFAULT_LOCAL_MODEL,
+} from './LocalInferenceEngine';
+import ProviderRouter, { PrivacyLevel } from './ProviderRouter';
+import EgressGuard, { EgressBlockedError } from './EgressGuard';
+import ResponseCache from './ResponseCache';
+import { ContextBuilder } from './ContextBuilder';
+import {
+  Tokenizer,
+  EngineTokenizer,
+  DEFAULT_CONTEXT_LIMIT,
+  getModelContextLimit,
+  heuristicTokenizer,
+} from './Tokenizer';
+import { buildToolPrompt, filterToolCallTokens, parseToolCalls, renderToolMessages } from './ToolPrompt';
+
+export type LLMProviderType = 'openai' | 'anthropic' | 'grok' | 'local' | 'local_endpoint' | 'auto';
 
 export interface LLMOptions {
   maxTokens?: number;
@@ -11,10 +44,20 @@ export interface LLMOptions {
   model?: string;
   streaming?: boolean;
   systemPrompt?: string;
+  // Cancels the underlying request or stream when aborted
+  signal?: AbortSignal;
+  // Overrides the routing policy's default privacy level for this request
+  privacyLevel?: PrivacyLevel;
+  // Tools the model may call; "none" asks for a text answer
+  tools?: AIToolDefinition[];
+  toolChoice?: 'auto' | 'none';
+  // Summary of the first messages of the conversation, sent instead of them when they do not fit
+  conversationSummary?: { content: string; summarizedMessages: number };
 }
 
 export interface LLMResponse {
   content: string;
+  toolCalls?: AIToolCall[];
   usage?: {
     promptTokens: number;
     completionTokens: number;
@@ -27,17 +70,28 @@ export interface LLMResponse {
 }
 
 export interface StreamingCallback {
+  // Receives each text delta as it arrives, not the accumulated text
   onToken: (token: string) => void;
   onComplete: (response: LLMResponse) => void;
   onError: (error: Error) => void;
 }
 
+// Raised by providers that have no native cancellation when their signal is aborted
+export class GenerationAbortedError extends Error {
+  constructor(message = 'Generation cancelled') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
 // Abstract base class for all LLM providers
 export abstract class LLMProvider {
   abstract readonly name: string;
   abstract readonly supportsStreaming: boolean;
   abstract readonly isLocal: boolean;
   abstract readonly requiresNetwork: boolean;
+  // Media the provider's default model reads besides text
+  readonly media: MediaSupport = TEXT_ONLY;
 
   abstract generateResponse(
     messages: AIMessage[],
@@ -52,6 +106,50 @@ export abstract class LLMProvider {
 
   abstract isAvailable(): Promise<boolean>;
   abstract getModelInfo(): { name: string; version: string; size?: string };
+
+  // Tokens the model accepts for prompt and completion together
+  getContextLimit(model?: string): number {
+    return getModelContextLimit(model || this.getModelInfo().version);
+  }
+
+  getTokenizer(): Tokenizer {
+    return heuristicTokenizer;
+  }
+
+  supportsMedia(mediaTypes: AIMediaType[]): boolean {
+    return mediaTypes.every(type => this.media[type]);
+  }
+
+  /**
+   * For models without a tool API: describe the tools in the system prompt and write tool turns as text
+   */
+  protected withToolPrompt(messages: AIMessage[], options?: LLMOptions): { messages: AIMessage[]; systemPrompt?: string } {
+    if (!options?.tools?.length) {
+      return { messages, systemPrompt: options?.systemPrompt };
+    }
+
+    const rendered = renderToolMessages(messages);
+    if (options.toolChoice === 'none') {
+      return { messages: rendered, systemPrompt: options.systemPrompt };
+    }
+    return {
+      messages: rendered,
+      systemPrompt: [options.systemPrompt, buildToolPrompt(options.tools)].filter(Boolean).join('\n\n'),
+    };
+  }
+
+  // Keeps the tool call tags written by prompted models off the screen
+  protected withToolTokenFilter(onToken: (token: string) => void, options?: LLMOptions): (token: string) => void {
+    return options?.tools?.length && options.toolChoice !== 'none' ? filterToolCallTokens(onToken) : onToken;
+  }
+
+  protected parseToolResponse(text: string, options?: LLMOptions): { content: string; toolCalls?: AIToolCall[] } {
+    if (!options?.tools?.length || options.toolChoice === 'none') {
+      return { content: text };
+    }
+    const parsed = parseToolCalls(text);
+    return parsed.toolCalls.length > 0 ? { content: parsed.text, toolCalls: parsed.toolCalls } : { content: text };
+  }
 }
 
 // OpenAI Provider (via secure backend proxy)
@@ -60,6 +158,7 @@ export class OpenAIProvider extends LLMProvider {
   readonly supportsStreaming = true;
   readonly isLocal = false;
   readonly requiresNetwork = true;
+  readonly media: MediaSupport = { image: true, audio: false };
 
   async generateResponse(messages: AIMessage[], options?: LLMOptions): Promise<LLMResponse> {
     const operationId = `openai_${Date.now()}`;
@@ -68,8 +167,12 @@ export class OpenAIProvider extends LLMProvider {
     try {
       const response = await getOpenAITextResponse(messages, {
         model: options?.model || 'gpt-4o',
-        temperature: options?.temperature || 0.7,
+        temperature: options?.temperature ?? 0.7,
         maxTokens: options?.maxTokens || 1024,
+        systemPrompt: options?.systemPrompt,
+        tools: options?.tools,
+        toolChoice: options?.toolChoice,
+        signal: options?.signal,
       });
 
       const processingTime = PerformanceMonitor.getInstance().endTimer(operationId, 'apiResponseTime');
@@ -80,10 +183,13 @@ export class OpenAIProvider extends LLMProvider {
         PerformanceMonitor.getInstance().recordMetric({ tokensPerSecond });
       }
 
-      AuditService.getInstance().log('memory_write', `OpenAI API call completed in ${processingTime}ms`);
+      AuditService.getInstance().log('api_call', `OpenAI API call completed in ${processingTime}ms`, {
+        metadata: { provider: this.name, durationMs: processingTime },
+      });
 
       return {
         content: response.content,
+        toolCalls: response.toolCalls,
         usage: response.usage,
         model: options?.model || 'gpt-4o',
         provider: this.name,
@@ -91,7 +197,9 @@ export class OpenAIProvider extends LLMProvider {
       };
     } catch (error) {
       PerformanceMonitor.getInstance().endTimer(operationId, 'apiResponseTime');
-      AuditService.getInstance().log('auth_failed', `OpenAI API call failed: ${error}`);
+      AuditService.getInstance().log('api_error', `OpenAI API call failed: ${error}`, {
+        metadata: { provider: this.name },
+      });
       throw error;
     }
   }
@@ -101,29 +209,44 @@ export class OpenAIProvider extends LLMProvider {
     options: LLMOptions,
     callbacks: StreamingCallback
   ): Promise<void> {
-    const startTime = Date.now();
-    
+    const operationId = `openai_stream_${Date.now()}`;
+    PerformanceMonitor.getInstance().startTimer(operationId);
+
     try {
-      // For streaming, we'll simulate by chunking the response
-      const response = await this.generateResponse(messages, options);
-      
-      // Simulate streaming by splitting response into words
-      const words = response.content.split(' ');
-      let accumulated = '';
-      
-      for (let i = 0; i < words.length; i++) {
-        accumulated += (i > 0 ? ' ' : '') + words[i];
-        callbacks.onToken(accumulated);
-        
-        // Small delay to simulate streaming
-        await new Promise(resolve => setTimeout(resolve, 50));
+      const response = await streamOpenAITextResponse(messages, callbacks.onToken, {
+        model: options.model || 'gpt-4o',
+        temperature: options.temperature ?? 0.7,
+        maxTokens: options.maxTokens || 1024,
+        systemPrompt: options.systemPrompt,
+        tools: options.tools,
+        toolChoice: options.toolChoice,
+        signal: options.signal,
+      });
+
+      const processingTime = PerformanceMonitor.getInstance().endTimer(operationId, 'apiResponseTime');
+
+      if (response.usage?.completionTokens) {
+        const tokensPerSecond = (response.usage.completionTokens / processingTime) * 1000;
+        PerformanceMonitor.getInstance().recordMetric({ tokensPerSecond });
       }
-      
+
+      AuditService.getInstance().log('api_call', `OpenAI streaming call completed in ${processingTime}ms`, {
+        metadata: { provider: this.name, durationMs: processingTime },
+      });
+
       callbacks.onComplete({
-        ...response,
-        processingTime: Date.now() - startTime,
+        content: response.content,
+        toolCalls: response.toolCalls,
+        usage: response.usage,
+        model: options.model || 'gpt-4o',
+        provider: this.name,
+        processingTime,
       });
     } catch (error) {
+      PerformanceMonitor.getInstance().endTimer(operationId, 'apiResponseTime');
+      AuditService.getInstance().log('api_error', `OpenAI streaming call failed: ${error}`, {
+        metadata: { provider: this.name },
+      });
       callbacks.onError(error instanceof Error ? error : new Error('Unknown error'));
     }
   }
@@ -144,6 +267,7 @@ export class AnthropicProvider extends LLMProvider {
   readonly supportsStreaming = true;
   readonly isLocal = false;
   readonly requiresNetwork = true;
+  readonly media: MediaSupport = { image: true, audio: false };
 
   async generateResponse(messages: AIMessage[], options?: LLMOptions): Promise<LLMResponse> {
     const operationId = `anthropic_${Date.now()}`;
@@ -152,8 +276,12 @@ export class AnthropicProvider extends LLMProvider {
     try {
       const response = await getAnthropicTextResponse(messages, {
         model: options?.model || 'claude-3-5-sonnet-20240620',
-        temperature: options?.temperature || 0.7,
+        temperature: options?.temperature ?? 0.7,
         maxTokens: options?.maxTokens || 1024,
+        systemPrompt: options?.systemPrompt,
+        tools: options?.tools,
+        toolChoice: options?.toolChoice,
+        signal: options?.signal,
       });
 
       const processingTime = PerformanceMonitor.getInstance().endTimer(operationId, 'apiResponseTime');
@@ -164,10 +292,13 @@ export class AnthropicProvider extends LLMProvider {
         PerformanceMonitor.getInstance().recordMetric({ tokensPerSecond });
       }
 
-      AuditService.getInstance().log('memory_write', `Anthropic API call completed in ${processingTime}ms`);
+      AuditService.getInstance().log('api_call', `Anthropic API call completed in ${processingTime}ms`, {
+        metadata: { provider: this.name, durationMs: processingTime },
+      });
 
       return {
         content: response.content,
+        toolCalls: response.toolCalls,
         usage: response.usage,
         model: options?.model || 'claude-3-5-sonnet-20240620',
         provider: this.name,
@@ -175,7 +306,9 @@ export class AnthropicProvider extends LLMProvider {
       };
     } catch (error) {
       PerformanceMonitor.getInstance().endTimer(operationId, 'apiResponseTime');
-      AuditService.getInstance().log('auth_failed', `Anthropic API call failed: ${error}`);
+      AuditService.getInstance().log('api_error', `Anthropic API call failed: ${error}`, {
+        metadata: { provider: this.name },
+      });
       throw error;
     }
   }
@@ -185,26 +318,44 @@ export class AnthropicProvider extends LLMProvider {
     options: LLMOptions,
     callbacks: StreamingCallback
   ): Promise<void> {
-    const startTime = Date.now();
-    
+    const operationId = `anthropic_stream_${Date.now()}`;
+    PerformanceMonitor.getInstance().startTimer(operationId);
+
     try {
-      const response = await this.generateResponse(messages, options);
-      
-      // Simulate streaming
-      const words = response.content.split(' ');
-      let accumulated = '';
-      
-      for (let i = 0; i < words.length; i++) {
-        accumulated += (i > 0 ? ' ' : '') + words[i];
-        callbacks.onToken(accumulated);
-        await new Promise(resolve => setTimeout(resolve, 40));
+      const response = await streamAnthropicTextResponse(messages, callbacks.onToken, {
+        model: options.model || 'claude-3-5-sonnet-20240620',
+        temperature: options.temperature ?? 0.7,
+        maxTokens: options.maxTokens || 1024,
+        systemPrompt: options.systemPrompt,
+        tools: options.tools,
+        toolChoice: options.toolChoice,
+        signal: options.signal,
+      });
+
+      const processingTime = PerformanceMonitor.getInstance().endTimer(operationId, 'apiResponseTime');
+
+      if (response.usage?.completionTokens) {
+        const tokensPerSecond = (response.usage.completionTokens / processingTime) * 1000;
+        PerformanceMonitor.getInstance().recordMetric({ tokensPerSecond });
       }
-      
+
+      AuditService.getInstance().log('api_call', `Anthropic streaming call completed in ${processingTime}ms`, {
+        metadata: { provider: this.name, durationMs: processingTime },
+      });
+
       callbacks.onComplete({
-        ...response,
-        processingTime: Date.now() - startTime,
+        content: response.content,
+        toolCalls: response.toolCalls,
+        usage: response.usage,
+        model: options.model || 'claude-3-5-sonnet-20240620',
+        provider: this.name,
+        processingTime,
       });
     } catch (error) {
+      PerformanceMonitor.getInstance().endTimer(operationId, 'apiResponseTime');
+      AuditService.getInstance().log('api_error', `Anthropic streaming call failed: ${error}`, {
+        metadata: { provider: this.name },
+      });
       callbacks.onError(error instanceof Error ? error : new Error('Unknown error'));
     }
   }
@@ -218,53 +369,424 @@ export class AnthropicProvider extends LLMProvider {
   }
 }
 
-// Local LLM Provider (for future Core ML integration)
+// Grok Provider (xAI, OpenAI-compatible API)
+export class GrokProvider extends LLMProvider {
+  readonly name = 'Grok';
+  readonly supportsStreaming = true;
+  readonly isLocal = false;
+  readonly requiresNetwork = true;
+
+  async generateResponse(messages: AIMessage[], options?: LLMOptions): Promise<LLMResponse> {
+    const operationId = `grok_${Date.now()}`;
+    PerformanceMonitor.getInstance().startTimer(operationId);
+    
+    try {
+      const response = await getGrokTextResponse(messages, {
+        model: options?.model || 'grok-3-beta',
+        temperature: options?.temperature ?? 0.7,
+        maxTokens: options?.maxTokens || 1024,
+        systemPrompt: options?.systemPrompt,
+        tools: options?.tools,
+        toolChoice: options?.toolChoice,
+        signal: options?.signal,
+      });
+
+      const processingTime = PerformanceMonitor.getInstance().endTimer(operationId, 'apiResponseTime');
+      
+      if (response.usage?.completionTokens) {
+        const tokensPerSecond = (response.usage.completionTokens / processingTime) * 1000;
+        PerformanceMonitor.getInstance().recordMetric({ tokensPerSecond });
+      }
+
+      AuditService.getInstance().log('api_call', `Grok API call completed in ${processingTime}ms`, {
+        metadata: { provider: this.name, durationMs: processingTime },
+      });
+
+      return {
+        content: response.content,
+        toolCalls: response.toolCalls,
+        usage: response.usage,
+        model: options?.model || 'grok-3-beta',
+        provider: this.name,
+        processingTime,
+      };
+    } catch (error) {
+      PerformanceMonitor.getInstance().endTimer(operationId, 'apiResponseTime');
+      AuditService.getInstance().log('api_error', `Grok API call failed: ${error}`, {
+        metadata: { provider: this.name },
+      });
+      throw error;
+    }
+  }
+
+  async streamResponse(
+    messages: AIMessage[],
+    options: LLMOptions,
+    callbacks: StreamingCallback
+  ): Promise<void> {
+    const operationId = `grok_stream_${Date.now()}`;
+    PerformanceMonitor.getInstance().startTimer(operationId);
+
+    try {
+      const response = await streamGrokTextResponse(messages, callbacks.onToken, {
+        model: options.model || 'grok-3-beta',
+        temperature: options.temperature ?? 0.7,
+        maxTokens: options.maxTokens || 1024,
+        systemPrompt: options.systemPrompt,
+        tools: options.tools,
+        toolChoice: options.toolChoice,
+        signal: options.signal,
+      });
+
+      const processingTime = PerformanceMonitor.getInstance().endTimer(operationId, 'apiResponseTime');
+
+      if (response.usage?.completionTokens) {
+        const tokensPerSecond = (response.usage.completionTokens / processingTime) * 1000;
+        PerformanceMonitor.getInstance().recordMetric({ tokensPerSecond });
+      }
+
+      AuditService.getInstance().log('api_call', `Grok streaming call completed in ${processingTime}ms`, {
+        metadata: { provider: this.name, durationMs: processingTime },
+      });
+
+      callbacks.onComplete({
+        content: response.content,
+        toolCalls: response.toolCalls,
+        usage: response.usage,
+        model: options.model || 'grok-3-beta',
+        provider: this.name,
+        processingTime,
+      });
+    } catch (error) {
+      PerformanceMonitor.getInstance().endTimer(operationId, 'apiResponseTime');
+      AuditService.getInstance().log('api_error', `Grok streaming call failed: ${error}`, {
+        metadata: { provider: this.name },
+      });
+      callbacks.onError(error instanceof Error ? error : new Error('Unknown error'));
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    // The Grok client only warns on a missing key, so check it here before any request
+    return !!process.env.EXPO_PUBLIC_VIBECODE_GROK_API_KEY;
+  }
+
+  getModelInfo() {
+    return { name: 'Grok 3', version: 'grok-3-beta', size: 'N/A (Cloud)' };
+  }
+}
+
+// Local LLM Provider, delegating inference to a pluggable on-device engine
 export class LocalLLMProvider extends LLMProvider {
   readonly name = 'Local';
   readonly supportsStreaming = true;
   readonly isLocal = true;
   readonly requiresNetwork = false;
+  private engine: LocalInferenceEngine;
+  private model: LocalModelDescriptor;
+
+  constructor(
+    engine: LocalInferenceEngine = new ReferenceInferenceEngine({ tokenDelayMs: 25 }),
+    model: LocalModelDescriptor = DEFAULT_LOCAL_MODEL
+  ) {
+    super();
+    this.engine = engine;
+    this.model = model;
+  }
+
+  /**
+   * Replace the inference engine, e.g. with a native module once it is available
+   */
+  async setEngine(engine: LocalInferenceEngine, model: LocalModelDescriptor = this.model): Promise<void> {
+    if (this.engine.isModelLoaded()) {
+      await this.engine.unloadModel();
+    }
+    this.engine = engine;
+    this.model = model;
+    AuditService.getInstance().log('settings_change', `Local inference engine set to ${engine.name}`);
+  }
+
+  getEngine(): LocalInferenceEngine {
+    return this.engine;
+  }
+
+  /**
+   * Select the model the engine loads on the next inference
+   */
+  async setModel(model: LocalModelDescriptor): Promise<void> {
+    if (this.engine.getLoadedModel()?.id !== model.id && this.engine.isModelLoaded()) {
+      await this.engine.unloadModel();
+    }
+    this.model = model;
+  }
 
   async generateResponse(messages: AIMessage[], options?: LLMOptions): Promise<LLMResponse> {
+    return this.runInference(messages, options || {});
+  }
+
+  async streamResponse(
+    messages: AIMessage[],
+    options: LLMOptions,
+    callbacks: StreamingCallback
+  ): Promise<void> {
+    try {
+      const response = await this.runInference(messages, options, callbacks.onToken);
+      callbacks.onComplete(response);
+    } catch (error) {
+      callbacks.onError(error instanceof Error ? error : new Error('Local LLM error'));
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return FeatureFlagService.getInstance().isEnabled(FeatureFlags.LOCAL_LLM);
+  }
+
+  getModelInfo() {
+    const model = this.engine.getLoadedModel() || this.model;
+    const size = model.sizeBytes ? `${(model.sizeBytes / 1024 / 1024 / 1024).toFixed(1)}GB` : 'N/A';
+    return {
+      name: model.name,
+      version: model.version,
+      size: model.quantization ? `${size} (${model.quantization})` : size,
+    };
+  }
+
+  getContextLimit(): number {
+    return this.model.contextLength || this.engine.getContextLength();
+  }
+
+  getTokenizer(): Tokenizer {
+    return new EngineTokenizer(this.engine);
+  }
+
+  private async runInference(
+    messages: AIMessage[],
+    options: LLMOptions,
+    onToken?: (token: string) => void
+  ): Promise<LLMResponse> {
     if (!FeatureFlagService.getInstance().isEnabled(FeatureFlags.LOCAL_LLM)) {
       throw new Error('Local LLM is not enabled');
     }
 
+    const [mediaType] = getMediaTypes(messages);
+    if (mediaType) {
+      throw new UnsupportedContentError(mediaType, this.name);
+    }
+
+    if (options.signal?.aborted) {
+      throw new GenerationAbortedError();
+    }
+
+    await this.ensureModelLoaded();
+
     const operationId = `local_llm_${Date.now()}`;
     PerformanceMonitor.getInstance().startTimer(operationId);
 
     try {
-      // Placeholder for Core ML integration
-      // In a real implementation, this would call the Turbo Module
-      const simulatedResponse = this.generateSimulatedResponse(messages);
-      
+      const toolPrompt = this.withToolPrompt(messages, options);
+      const prompt: AIMessage[] = toolPrompt.systemPrompt
+        ? [{ role: 'system', content: toolPrompt.systemPrompt }, ...toolPrompt.messages]
+        : toolPrompt.messages;
+      const result = await this.engine.generate(prompt, {
+        maxTokens: options.maxTokens || 1024,
+        temperature: options.temperature ?? 0.7,
+        signal: options.signal,
+        onToken: onToken && this.withToolTokenFilter(onToken, options),
+      });
+
       const processingTime = PerformanceMonitor.getInstance().endTimer(operationId, 'inferenceTime');
-      
-      // Calculate tokens per second for local inference
-      const completionTokens = simulatedResponse.length / 4;
-      const tokensPerSecond = (completionTokens / processingTime) * 1000;
-      
-      PerformanceMonitor.getInstance().recordMetric({ 
-        tokensPerSecond,
-        inferenceTime: processingTime
+
+      if (result.stopReason === 'aborted') {
+        throw new GenerationAbortedError();
+      }
+
+      if (result.completionTokens > 0 && processingTime > 0) {
+        const tokensPerSecond = (result.completionTokens / processingTime) * 1000;
+        PerformanceMonitor.getInstance().recordMetric({
+          tokensPerSecond,
+          memoryUsage: this.engine.getMemoryFootprint(),
+        });
+      }
+
+      AuditService.getInstance().log('api_call', `Local LLM inference completed in ${processingTime}ms`, {
+        metadata: { provider: this.name, durationMs: processingTime },
       });
-      
-      AuditService.getInstance().log('memory_write', `Local LLM inference completed in ${processingTime}ms`);
 
       return {
-        content: simulatedResponse,
+        ...this.parseToolResponse(result.text, options),
         usage: {
-          promptTokens: messages.reduce((acc, msg) => acc + msg.content.length / 4, 0),
-          completionTokens,
-          totalTokens: 0,
+          promptTokens: result.promptTokens,
+          completionTokens: result.completionTokens,
+          totalTokens: result.promptTokens + result.completionTokens,
         },
-        model: 'phi-3-mini',
+        model: this.model.version,
+        provider: this.name,
+        processingTime,
+      };
+    } catch (error) {
+      // Aborted generations have already been timed above
+      if (!(error instanceof GenerationAbortedError)) {
+        PerformanceMonitor.getInstance().endTimer(operationId, 'inferenceTime');
+        AuditService.getInstance().log('api_error', `Local LLM inference failed: ${error}`, {
+          metadata: { provider: this.name },
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async ensureModelLoaded(): Promise<void> {
+    if (this.engine.isModelLoaded()) {
+      return;
+    }
+
+    const operationId = `local_model_load_${Date.now()}`;
+    PerformanceMonitor.getInstance().startTimer(operationId);
+    await this.engine.loadModel(this.model);
+    PerformanceMonitor.getInstance().endTimer(operationId, 'modelLoadTime');
+  }
+}
+
+// OpenAI-compatible server on the device or the local network (llama.cpp server, Ollama...)
+export interface LocalEndpointConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+const LOCAL_ENDPOINT_CONFIG_KEY = 'local_endpoint_config';
+
+export class LocalEndpointProvider extends LLMProvider {
+  readonly name = 'LocalEndpoint';
+  readonly supportsStreaming = true;
+  readonly isLocal = true;
+  readonly requiresNetwork = true;
+  private config: LocalEndpointConfig | null = null;
+  private configLoaded = false;
+  private lastHealthCheck: LLMHealthCheck | null = null;
+  private requestCount = 0;
+  private failedRequestCount = 0;
+  private readonly HEALTH_CHECK_TTL = 30000; // 30 seconds
+  private readonly HEALTH_CHECK_TIMEOUT = 3000; // 3 seconds
+
+  async loadConfig(): Promise<LocalEndpointConfig | null> {
+    if (this.configLoaded) {
+      return this.config;
+    }
+
+    try {
+      const stored = await AsyncStorage.getItem(LOCAL_ENDPOINT_CONFIG_KEY);
+      this.config = stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Failed to load local endpoint config:', error);
+    }
+
+    this.configLoaded = true;
+    return this.config;
+  }
+
+  async configure(config: LocalEndpointConfig | null): Promise<void> {
+    this.config = config ? { ...config, baseUrl: config.baseUrl.trim().replace(/\/+$/, '') } : null;
+    this.configLoaded = true;
+    this.lastHealthCheck = null;
+
+    if (this.config) {
+      await AsyncStorage.setItem(LOCAL_ENDPOINT_CONFIG_KEY, JSON.stringify(this.config));
+      AuditService.getInstance().log('settings_change', `Local endpoint configured: ${this.config.baseUrl}`);
+    } else {
+      await AsyncStorage.removeItem(LOCAL_ENDPOINT_CONFIG_KEY);
+      AuditService.getInstance().log('settings_change', 'Local endpoint removed');
+    }
+  }
+
+  getConfig(): LocalEndpointConfig | null {
+    return this.config;
+  }
+
+  isConfigured(): boolean {
+    return !!this.config?.baseUrl;
+  }
+
+  /**
+   * Discover the models served by the endpoint through GET /models
+   */
+  async listModels(config: LocalEndpointConfig | null = this.config): Promise<string[]> {
+    if (!config?.baseUrl) {
+      throw new Error('Local endpoint is not configured');
+    }
+
+    const client = getLocalEndpointClient(config.baseUrl, config.apiKey);
+    const page = await client.models.list({ timeout: this.HEALTH_CHECK_TIMEOUT, maxRetries: 0 });
+    return page.data.map(model => model.id);
+  }
+
+  /**
+   * Probe the endpoint and report its health, including the error rate of past requests
+   */
+  async checkHealth(): Promise<LLMHealthCheck> {
+    const startTime = Date.now();
+    let available = false;
+
+    if (this.isConfigured()) {
+      try {
+        await this.listModels();
+        available = true;
+      } catch (error) {
+        console.warn('Local endpoint health check failed:', error);
+      }
+    }
+
+    this.lastHealthCheck = {
+      provider: this.name,
+      available,
+      responseTime: Date.now() - startTime,
+      errorRate: this.requestCount > 0 ? this.failedRequestCount / this.requestCount : 0,
+      lastCheck: Date.now(),
+    };
+
+    return this.lastHealthCheck;
+  }
+
+  async generateResponse(messages: AIMessage[], options?: LLMOptions): Promise<LLMResponse> {
+    const config = this.requireConfig();
+    const model = options?.model || config.model;
+    const operationId = `local_endpoint_${Date.now()}`;
+    PerformanceMonitor.getInstance().startTimer(operationId);
+    this.requestCount++;
+
+    try {
+      const prompt = this.withToolPrompt(messages, options);
+      const response = await getChatCompletion(getLocalEndpointClient(config.baseUrl, config.apiKey), model, prompt.messages, {
+        temperature: options?.temperature ?? 0.7,
+        maxTokens: options?.maxTokens || 1024,
+        systemPrompt: prompt.systemPrompt,
+        signal: options?.signal,
+      });
+
+      const processingTime = PerformanceMonitor.getInstance().endTimer(operationId, 'inferenceTime');
+
+      if (response.usage?.completionTokens) {
+        const tokensPerSecond = (response.usage.completionTokens / processingTime) * 1000;
+        PerformanceMonitor.getInstance().recordMetric({ tokensPerSecond });
+      }
+
+      AuditService.getInstance().log('api_call', `Local endpoint inference completed in ${processingTime}ms`, {
+        metadata: { provider: this.name, durationMs: processingTime },
+      });
+
+      return {
+        ...this.parseToolResponse(response.content, options),
+        usage: response.usage,
+        model,
         provider: this.name,
         processingTime,
       };
     } catch (error) {
       PerformanceMonitor.getInstance().endTimer(operationId, 'inferenceTime');
-      AuditService.getInstance().log('auth_failed', `Local LLM inference failed: ${error}`);
+      this.failedRequestCount++;
+      AuditService.getInstance().log('api_error', `Local endpoint inference failed: ${error}`, {
+        metadata: { provider: this.name },
+      });
       throw error;
     }
   }
@@ -274,48 +796,85 @@ export class LocalLLMProvider extends LLMProvider {
     options: LLMOptions,
     callbacks: StreamingCallback
   ): Promise<void> {
-    const startTime = Date.now();
-    
+    const operationId = `local_endpoint_stream_${Date.now()}`;
+    PerformanceMonitor.getInstance().startTimer(operationId);
+    this.requestCount++;
+
     try {
-      const response = await this.generateResponse(messages, options);
-      
-      // Simulate faster streaming for local processing
-      const tokens = response.content.split(' ');
-      let accumulated = '';
-      
-      for (let i = 0; i < tokens.length; i++) {
-        accumulated += (i > 0 ? ' ' : '') + tokens[i];
-        callbacks.onToken(accumulated);
-        await new Promise(resolve => setTimeout(resolve, 25)); // Faster than cloud
+      const config = this.requireConfig();
+      const model = options.model || config.model;
+      const prompt = this.withToolPrompt(messages, options);
+      const response = await streamChatCompletion(
+        getLocalEndpointClient(config.baseUrl, config.apiKey),
+        model,
+        prompt.messages,
+        this.withToolTokenFilter(callbacks.onToken, options),
+        {
+          temperature: options.temperature ?? 0.7,
+          maxTokens: options.maxTokens || 1024,
+          systemPrompt: prompt.systemPrompt,
+          signal: options.signal,
+        }
+      );
+
+      const processingTime = PerformanceMonitor.getInstance().endTimer(operationId, 'inferenceTime');
+
+      if (response.usage?.completionTokens) {
+        const tokensPerSecond = (response.usage.completionTokens / processingTime) * 1000;
+        PerformanceMonitor.getInstance().recordMetric({ tokensPerSecond });
       }
-      
+
+      AuditService.getInstance().log('api_call', `Local endpoint streaming completed in ${processingTime}ms`, {
+        metadata: { provider: this.name, durationMs: processingTime },
+      });
+
       callbacks.onComplete({
-        ...response,
-        processingTime: Date.now() - startTime,
+        ...this.parseToolResponse(response.content, options),
+        usage: response.usage,
+        model,
+        provider: this.name,
+        processingTime,
       });
     } catch (error) {
-      callbacks.onError(error instanceof Error ? error : new Error('Local LLM error'));
+      PerformanceMonitor.getInstance().endTimer(operationId, 'inferenceTime');
+      this.failedRequestCount++;
+      AuditService.getInstance().log('api_error', `Local endpoint streaming failed: ${error}`, {
+        metadata: { provider: this.name },
+      });
+      callbacks.onError(error instanceof Error ? error : new Error('Local endpoint error'));
     }
   }
 
   async isAvailable(): Promise<boolean> {
-    return FeatureFlagService.getInstance().isEnabled(FeatureFlags.LOCAL_LLM);
+    await this.loadConfig();
+    if (!this.isConfigured()) {
+      return false;
+    }
+
+    if (this.lastHealthCheck && Date.now() - this.lastHealthCheck.lastCheck < this.HEALTH_CHECK_TTL) {
+      return this.lastHealthCheck.available;
+    }
+
+    return (await this.checkHealth()).available;
   }
 
   getModelInfo() {
-    return { name: 'Phi-3 Mini', version: 'phi-3-mini-4k-instruct', size: '2.4GB (Q4)' };
+    return {
+      name: this.config?.model || 'Serveur local',
+      version: this.config?.model || 'non configuré',
+      size: 'N/A (Serveur local)',
+    };
   }
 
-  private generateSimulatedResponse(messages: AIMessage[]): string {
-    const lastMessage = messages[messages.length - 1];
-    const responses = [
-      "Je comprends votre question. En tant qu'assistant IA privé fonctionnant entièrement sur votre appareil, je peux vous aider de manière sécurisée.",
-      "Voici une réponse générée localement sur votre appareil. Vos données restent privées et ne quittent jamais votre iPhone.",
-      "Excellente question ! En mode local, je traite vos demandes sans connexion internet, garantissant une confidentialité absolue.",
-      "Je traite cette demande directement sur votre appareil. Cela peut prendre un peu plus de temps, mais vos données restent entièrement privées.",
-    ];
-    
-    return responses[Math.floor(Math.random() * responses.length)];
+  getContextLimit(): number {
+    return getModelContextLimit(this.config?.model || '', DEFAULT_CONTEXT_LIMIT);
+  }
+
+  private requireConfig(): LocalEndpointConfig {
+    if (!this.config?.baseUrl) {
+      throw new Error('Local endpoint is not configured');
+    }
+    return this.config;
   }
 }
 
@@ -323,9 +882,9 @@ export class LocalLLMProvider extends LLMProvider {
 export class LLMFactory {
   private static providers: Map<string, LLMProvider> = new Map();
 
-  static getProvider(type: 'openai' | 'anthropic' | 'local' | 'auto'): LLMProvider {
+  static getProvider(type: LLMProviderType): LLMProvider {
     if (type === 'auto') {
-      return this.getOptimalProvider();
+      return ProviderRouter.getInstance().peekProvider();
     }
 
     let provider = this.providers.get(type);
@@ -338,9 +897,15 @@ export class LLMFactory {
         case 'anthropic':
           provider = new AnthropicProvider();
           break;
+        case 'grok':
+          provider = new GrokProvider();
+          break;
         case 'local':
           provider = new LocalLLMProvider();
           break;
+        case 'local_endpoint':
+          provider = new LocalEndpointProvider();
+          break;
         default:
           throw new Error(`Unknown LLM provider type: ${type}`);
       }
@@ -350,31 +915,20 @@ export class LLMFactory {
     
     return provider;
   }
+}
 
-  private static getOptimalProvider(): LLMProvider {
-    // Decision logic based on feature flags and availability
-    const flags = FeatureFlagService.getInstance();
-    
-    if (flags.isEnabled(FeatureFlags.STRICT_LOCAL_MODE)) {
-      return this.getProvider('local');
-    }
-    
-    if (flags.isEnabled(FeatureFlags.LOCAL_LLM)) {
-      return this.getProvider('local');
-    }
-    
-    // Default to Anthropic for better responses
-    return this.getProvider('anthropic');
-  }
+// Providers tried for one request, in order
+export interface ProviderChain {
+  primary: LLMProvider;
+  fallbacks: LLMProvider[];
 }
 
 // Resilient LLM Service with fallback strategies and circuit breaker
 export class ResilientLLMService {
   private static instance: ResilientLLMService;
-  private primaryProvider: LLMProvider;
-  private fallbackProviders: LLMProvider[];
   private failureCount: Map<string, number> = new Map();
   private lastFailureTime: Map<string, number> = new Map();
+  private selectedProviderType: LLMProviderType = 'auto';
   private readonly CIRCUIT_BREAKER_THRESHOLD = 3;
   private readonly CIRCUIT_BREAKER_TIMEOUT = 60000; // 1 minute
 
@@ -385,61 +939,104 @@ export class ResilientLLMService {
     return ResilientLLMService.instance;
   }
 
-  constructor() {
-    // Delay provider initialization to avoid feature flag timing issues
-    this.primaryProvider = LLMFactory.getProvider('anthropic'); // Default safe provider
-    this.fallbackProviders = [
-      LLMFactory.getProvider('openai'),
-    ];
-  }
+  /**
+   * Build the provider chain for a request once feature flags are ready. The chain belongs to the
+   * request, so concurrent requests never see each other's routing.
+   */
+  async selectProviders(messages: AIMessage[], options?: LLMOptions): Promise<ProviderChain> {
+    await (LLMFactory.getProvider('local_endpoint') as LocalEndpointProvider).loadConfig();
 
-  // Initialize providers after feature flags are ready
-  private async initializeProviders(): Promise<void> {
-    this.primaryProvider = LLMFactory.getProvider('auto');
-    this.fallbackProviders = [
+    if (this.selectedProviderType === 'auto') {
+      const decision = await ProviderRouter.getInstance().route({
+        messages,
+        maxTokens: options?.maxTokens,
+        privacyLevel: options?.privacyLevel,
+      });
+      return this.excludeUnsupportedProviders({ primary: decision.provider, fallbacks: decision.fallbacks }, messages);
+    }
+
+    // A manually selected provider keeps the static cloud fallback chain
+    const primary = LLMFactory.getProvider(this.selectedProviderType);
+    let fallbacks = [
       LLMFactory.getProvider('anthropic'),
       LLMFactory.getProvider('openai'),
-    ];
+    ].filter(provider => provider !== primary);
+
+    // Grok is opt-in as the last resort in the chain
+    const grokProvider = LLMFactory.getProvider('grok');
+    if (FeatureFlagService.getInstance().isEnabled(FeatureFlags.GROK_FALLBACK) && grokProvider !== primary) {
+      fallbacks.push(grokProvider);
+    }
+
+    // In strict local mode the on-device model is the only fallback
+    if (EgressGuard.getInstance().isStrictLocalMode()) {
+      fallbacks = [LLMFactory.getProvider('local')].filter(provider => provider !== primary);
+    }
+
+    return this.excludeUnsupportedProviders({ primary, fallbacks }, messages);
   }
 
   /**
    * Generate response with circuit breaker pattern and intelligent fallback
+   * @param chain Providers already selected for this request; routed here when omitted
    */
   async generateResponse(
     messages: AIMessage[],
-    options?: LLMOptions
+    options?: LLMOptions,
+    chain?: ProviderChain
   ): Promise<LLMResponse> {
-    // Ensure providers are initialized with current feature flags
-    await this.initializeProviders();
+    const { primary, fallbacks } = chain ?? await this.selectProviders(messages, options);
+
+    const cached = await ResponseCache.getInstance().get(primary.name, messages, options);
+    if (cached) {
+      return cached;
+    }
     
     // Try primary provider with circuit breaker
-    if (this.shouldAttemptProvider(this.primaryProvider.name)) {
+    if (this.shouldAttemptProvider(primary.name)) {
+      const startTime = Date.now();
       try {
-        if (await this.primaryProvider.isAvailable()) {
-          const response = await this.primaryProvider.generateResponse(messages, options);
-          this.recordSuccess(this.primaryProvider.name);
+        if (await primary.isAvailable()) {
+          const context = await this.fitContext(primary, messages, options);
+          const response = await primary.generateResponse(context, options);
+          this.recordSuccess(primary, startTime, response);
+          ResponseCache.getInstance().set(primary.name, messages, options, response);
           return response;
         }
       } catch (error) {
-        this.recordFailure(this.primaryProvider.name);
+        // A cancelled request is not a provider failure and must not trigger a fallback
+        if (options?.signal?.aborted) {
+          throw error;
+        }
+        this.recordFailure(primary, startTime, error);
         console.warn('Primary LLM provider failed:', error);
-        AuditService.getInstance().log('auth_failed', `Primary LLM failed: ${error}`);
+        AuditService.getInstance().log('api_error', `Primary LLM failed: ${error}`, {
+          metadata: { provider: primary.name },
+        });
       }
     }
 
     // Try fallback providers with circuit breaker
-    for (const fallback of this.fallbackProviders) {
+    for (const fallback of fallbacks) {
       if (!this.shouldAttemptProvider(fallback.name)) continue;
       
+      const startTime = Date.now();
       try {
         if (await fallback.isAvailable()) {
-          AuditService.getInstance().log('settings_change', `Falling back to ${fallback.name}`);
-          const response = await fallback.generateResponse(messages, options);
-          this.recordSuccess(fallback.name);
+          AuditService.getInstance().log('provider_fallback', `Falling back to ${fallback.name}`, {
+            metadata: { provider: fallback.name },
+          });
+          const context = await this.fitContext(fallback, messages, options);
+          const response = await fallback.generateResponse(context, options);
+          this.recordSuccess(fallback, startTime, response);
+          ResponseCache.getInstance().set(fallback.name, messages, options, response);
           return response;
         }
       } catch (error) {
-        this.recordFailure(fallback.name);
+        if (options?.signal?.aborted) {
+          throw error;
+        }
+        this.recordFailure(fallback, startTime, error);
         console.warn(`Fallback provider ${fallback.name} failed:`, error);
       }
     }
@@ -447,6 +1044,39 @@ export class ResilientLLMService {
     throw new Error('All LLM providers are currently unavailable');
   }
 
+  /**
+   * Take the providers that cannot read the conversation's attachments out of the chain
+   */
+  private excludeUnsupportedProviders(chain: ProviderChain, messages: AIMessage[]): ProviderChain {
+    const mediaTypes = getMediaTypes(messages);
+    if (mediaTypes.length === 0) return chain;
+
+    const [primary, ...fallbacks] = [chain.primary, ...chain.fallbacks].filter(provider => provider.supportsMedia(mediaTypes));
+    if (!primary) {
+      const unsupported = mediaTypes.find(type => !chain.primary.media[type]) || mediaTypes[0];
+      throw new UnsupportedContentError(unsupported, chain.primary.name);
+    }
+
+    if (__DEV__ && primary !== chain.primary) {
+      console.log(`${chain.primary.name} cannot read ${mediaTypes.join(', ')}, using ${primary.name}`);
+    }
+    return { primary, fallbacks };
+  }
+
+  /**
+   * Trim the conversation to the provider's context window, keeping the system prompt and recent turns
+   */
+  private async fitContext(provider: LLMProvider, messages: AIMessage[], options?: LLMOptions): Promise<AIMessage[]> {
+    const context = await new ContextBuilder(provider.getTokenizer()).build(messages, {
+      contextLimit: provider.getContextLimit(options?.model),
+      maxTokens: options?.maxTokens || 1024,
+    }, {
+      summary: options?.conversationSummary?.content,
+      summarizedMessages: options?.conversationSummary?.summarizedMessages,
+    });
+    return context.messages;
+  }
+
   /**
    * Circuit breaker logic to prevent cascading failures
    */
@@ -462,51 +1092,132 @@ export class ResilientLLMService {
     return Date.now() - lastFailure > this.CIRCUIT_BREAKER_TIMEOUT;
   }
 
-  private recordSuccess(providerName: string): void {
-    this.failureCount.set(providerName, 0);
-    this.lastFailureTime.delete(providerName);
+  private recordSuccess(provider: LLMProvider, startTime: number, response: LLMResponse): void {
+    this.failureCount.set(provider.name, 0);
+    this.lastFailureTime.delete(provider.name);
+    ProviderRouter.getInstance().recordOutcome(provider, {
+      success: true,
+      latencyMs: Date.now() - startTime,
+      totalTokens: response.usage?.totalTokens,
+    });
   }
 
-  private recordFailure(providerName: string): void {
-    const currentFailures = this.failureCount.get(providerName) || 0;
-    this.failureCount.set(providerName, currentFailures + 1);
-    this.lastFailureTime.set(providerName, Date.now());
+  private recordFailure(provider: LLMProvider, startTime: number, error: unknown): void {
+    // A request refused by the egress guard says nothing about the provider's health
+    if (error instanceof EgressBlockedError) {
+      return;
+    }
+
+    const currentFailures = this.failureCount.get(provider.name) || 0;
+    this.failureCount.set(provider.name, currentFailures + 1);
+    this.lastFailureTime.set(provider.name, Date.now());
+    ProviderRouter.getInstance().recordOutcome(provider, { success: false, latencyMs: Date.now() - startTime });
   }
 
+  /**
+   * @param chain Providers already selected for this request; routed here when omitted
+   */
   async streamResponse(
     messages: AIMessage[],
     options: LLMOptions,
-    callbacks: StreamingCallback
+    callbacks: StreamingCallback,
+    chain?: ProviderChain
   ): Promise<void> {
-    // Ensure providers are initialized with current feature flags
-    await this.initializeProviders();
+    const providers = chain ?? await this.selectProviders(messages, options);
+    const primaryProvider = providers.primary;
+
+    // A cached answer is delivered as a single token
+    const cached = await ResponseCache.getInstance().get(primaryProvider.name, messages, options);
+    if (cached) {
+      callbacks.onToken(cached.content);
+      callbacks.onComplete(cached);
+      return;
+    }
     
+    // Set when the primary stream failed before its first token
+    let primaryFailure: Error | null = null;
+
     // Try primary provider with streaming
-    try {
-      if (await this.primaryProvider.isAvailable() && this.primaryProvider.supportsStreaming) {
-        await this.primaryProvider.streamResponse!(messages, options, callbacks);
-        return;
+    if (this.shouldAttemptProvider(primaryProvider.name)) {
+      const startTime = Date.now();
+      try {
+        if (await primaryProvider.isAvailable() && primaryProvider.supportsStreaming) {
+          let hasEmittedTokens = false;
+          let streamError: Error | null = null;
+
+          const context = await this.fitContext(primaryProvider, messages, options);
+          await primaryProvider.streamResponse!(context, options, {
+            onToken: (token) => {
+              hasEmittedTokens = true;
+              callbacks.onToken(token);
+            },
+            onComplete: (response) => {
+              this.recordSuccess(primaryProvider, startTime, response);
+              ResponseCache.getInstance().set(primaryProvider.name, messages, options, response);
+              callbacks.onComplete(response);
+            },
+            onError: (error) => {
+              streamError = error;
+            },
+          });
+
+          if (!streamError) {
+            return;
+          }
+
+          if (options.signal?.aborted) {
+            callbacks.onError(streamError);
+            return;
+          }
+
+          this.recordFailure(primaryProvider, startTime, streamError);
+          console.warn('Primary streaming provider failed:', streamError);
+
+          // Once part of the answer is on screen a fallback would restart it from scratch
+          if (hasEmittedTokens) {
+            callbacks.onError(streamError);
+            return;
+          }
+          primaryFailure = streamError;
+        }
+      } catch (error) {
+        if (options.signal?.aborted) {
+          callbacks.onError(error instanceof Error ? error : new GenerationAbortedError());
+          return;
+        }
+        this.recordFailure(primaryProvider, startTime, error);
+        console.warn('Primary streaming provider failed:', error);
+        primaryFailure = error instanceof Error ? error : new Error('Primary streaming provider failed');
       }
-    } catch (error) {
-      console.warn('Primary streaming provider failed:', error);
-      callbacks.onError(error instanceof Error ? error : new Error('Streaming failed'));
     }
 
-    // Fallback to non-streaming response
+    // Fallback to non-streaming response, without retrying a primary that just failed
+    let remaining = providers;
+    if (primaryFailure) {
+      const [next, ...rest] = providers.fallbacks;
+      if (!next) {
+        callbacks.onError(primaryFailure);
+        return;
+      }
+      remaining = { primary: next, fallbacks: rest };
+    }
     try {
-      const response = await this.generateResponse(messages, options);
+      const response = await this.generateResponse(messages, options, remaining);
       callbacks.onComplete(response);
     } catch (error) {
       callbacks.onError(error instanceof Error ? error : new Error('All providers failed'));
     }
   }
 
+  /**
+   * Provider a request would start with, unless routing picks another one for its content
+   */
   getCurrentProvider(): LLMProvider {
-    return this.primaryProvider;
+    return LLMFactory.getProvider(this.selectedProviderType);
   }
 
-  switchProvider(type: 'openai' | 'anthropic' | 'local' | 'auto'): void {
-    this.primaryProvider = LLMFactory.getProvider(type);
+  switchProvider(type: LLMProviderType): void {
+    this.selectedProviderType = type;
     AuditService.getInstance().log('settings_change', `Switched to ${type} LLM provider`);
   }
 }
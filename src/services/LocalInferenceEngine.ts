@@ -0,0 +1,165 @@
+import { AIMessage } from '../types/ai';
+import { getMessageText } from '../api/message-format';
+
+/**
+ * Contract between LocalLLMProvider and an on-device inference backend.
+ *
+ * Native engines (Core ML, llama.cpp Turbo Module...) implement this interface and are
+ * installed with LocalLLMProvider.setEngine(), without any change to ResilientLLMService.
+ */
+
+export interface LocalModelDescriptor {
+  id: string;
+  name: string;
+  version: string;
+  quantization?: string;
+  sizeBytes?: number;
+  contextLength?: number;
+  // Location of the weights on disk, when the engine loads them from a file
+  path?: string;
+}
+
+export interface LocalGenerationOptions {
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+  // Receives each decoded text delta as soon as the engine produces it
+  onToken?: (token: string) => void;
+}
+
+export interface LocalGenerationResult {
+  text: string;
+  promptTokens: number;
+  completionTokens: number;
+  stopReason: 'end' | 'max_tokens' | 'aborted';
+}
+
+export interface LocalInferenceEngine {
+  readonly name: string;
+  // Canned answers rather than a model's: fine to try the chat, useless for any other generation
+  readonly isReference: boolean;
+
+  loadModel(model: LocalModelDescriptor): Promise<void>;
+  unloadModel(): Promise<void>;
+  isModelLoaded(): boolean;
+  getLoadedModel(): LocalModelDescriptor | null;
+
+  tokenize(text: string): Promise<number[]>;
+  generate(messages: AIMessage[], options: LocalGenerationOptions): Promise<LocalGenerationResult>;
+
+  // Maximum number of tokens (prompt + completion) the loaded model accepts
+  getContextLength(): number;
+  // Approximate resident memory of the loaded model, in bytes
+  getMemoryFootprint(): number;
+}
+
+export const DEFAULT_LOCAL_MODEL: LocalModelDescriptor = {
+  id: 'phi-3-mini-4k-instruct-q4',
+  name: 'Phi-3 Mini',
+  version: 'phi-3-mini-4k-instruct',
+  quantization: 'Q4',
+  sizeBytes: 2.4 * 1024 * 1024 * 1024,
+  contextLength: 4096,
+};
+
+const REFERENCE_RESPONSES = [
+  "Je comprends votre question. En tant qu'assistant IA privé fonctionnant entièrement sur votre appareil, je peux vous aider de manière sécurisée.",
+  "Voici une réponse générée localement sur votre appareil. Vos données restent privées et ne quittent jamais votre iPhone.",
+  "Excellente question ! En mode local, je traite vos demandes sans connexion internet, garantissant une confidentialité absolue.",
+  "Je traite cette demande directement sur votre appareil. Cela peut prendre un peu plus de temps, mais vos données restent entièrement privées.",
+];
+
+/**
+ * Deterministic pure-TypeScript engine used until a native engine is installed, and in tests.
+ * The same messages always produce the same tokens and the same answer.
+ */
+export class ReferenceInferenceEngine implements LocalInferenceEngine {
+  readonly name = 'reference';
+  readonly isReference = true;
+  private model: LocalModelDescriptor | null = null;
+  private readonly vocabularySize = 32000;
+  private readonly tokenDelayMs: number;
+
+  constructor(options: { tokenDelayMs?: number } = {}) {
+    this.tokenDelayMs = options.tokenDelayMs ?? 0;
+  }
+
+  async loadModel(model: LocalModelDescriptor): Promise<void> {
+    this.model = model;
+  }
+
+  async unloadModel(): Promise<void> {
+    this.model = null;
+  }
+
+  isModelLoaded(): boolean {
+    return this.model !== null;
+  }
+
+  getLoadedModel(): LocalModelDescriptor | null {
+    return this.model;
+  }
+
+  async tokenize(text: string): Promise<number[]> {
+    return this.splitPieces(text).map(piece => this.hash(piece) % this.vocabularySize);
+  }
+
+  async generate(messages: AIMessage[], options: LocalGenerationOptions): Promise<LocalGenerationResult> {
+    if (!this.model) {
+      throw new Error('No model loaded');
+    }
+
+    let promptTokens = 0;
+    for (const message of messages) {
+      promptTokens += (await this.tokenize(getMessageText(message.content))).length;
+    }
+
+    const lastMessage = getMessageText(messages[messages.length - 1]?.content || '');
+    const response = REFERENCE_RESPONSES[this.hash(lastMessage) % REFERENCE_RESPONSES.length];
+    const pieces = this.splitPieces(response);
+
+    let text = '';
+    let completionTokens = 0;
+    for (const piece of pieces) {
+      if (options.signal?.aborted) {
+        return { text, promptTokens, completionTokens, stopReason: 'aborted' };
+      }
+      if (completionTokens >= options.maxTokens) {
+        return { text, promptTokens, completionTokens, stopReason: 'max_tokens' };
+      }
+
+      text += piece;
+      completionTokens++;
+      options.onToken?.(piece);
+
+      if (this.tokenDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.tokenDelayMs));
+      }
+    }
+
+    return { text, promptTokens, completionTokens, stopReason: 'end' };
+  }
+
+  getContextLength(): number {
+    return this.model?.contextLength || DEFAULT_LOCAL_MODEL.contextLength!;
+  }
+
+  getMemoryFootprint(): number {
+    return this.model?.sizeBytes || 0;
+  }
+
+  // Words keep their leading whitespace so that joining pieces restores the original text
+  private splitPieces(text: string): string[] {
+    return text.match(/\s*[\p{L}\p{N}']+|\s*[^\s\p{L}\p{N}']|\s+$/gu) || [];
+  }
+
+  // FNV-1a, 32-bit
+  private hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,153 @@
+import { DatabaseCipher } from './DatabaseCipher';
+
+/**
+ * Full-text search over memories without keeping their text in clear.
+ *
+ * The FTS5 index holds blind tokens (keyed hashes) of the normalized words instead of the words,
+ * so it works whether the contents are encrypted or not. This comes with limits:
+ * - words match exactly once accents and case are folded; there is no stemming
+ * - prefix queries need at least MIN_PREFIX_LENGTH letters and only the first
+ *   MAX_PREFIX_LENGTH letters of a prefix are compared
+ * - snippets are built after decrypting the matching memories, not by SQLite
+ * - the index still shows how often the same (unknown) word appears across memories
+ */
+
+// Surround the matched terms in search snippets
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+const MIN_PREFIX_LENGTH = 3;
+const MAX_PREFIX_LENGTH = 8;
+// Words shown in a snippet, a few of them before the first match
+const SNIPPET_WORDS = 16;
+const SNIPPET_WORDS_BEFORE = 4;
+const ELLIPSIS = '…';
+
+export interface SearchTerm {
+  // Several words form a phrase, which must appear in this order
+  words: string[];
+  prefix: boolean;
+}
+
+export interface IndexColumns {
+  terms: string;
+  prefixes: string;
+}
+
+export function normalizeWord(word: string): string {
+  return word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function findWords(text: string): Array<{ word: string; start: number; end: number }> {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), match => ({
+    word: normalizeWord(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+/**
+ * Parse what the user typed: every word must match, "quoted words" match as a phrase and a
+ * trailing * matches by prefix. Anything else is treated as plain text.
+ */
+export function parseSearchQuery(input: string): SearchTerm[] {
+  const words = (text: string) => findWords(text).map(found => found.word);
+  const terms: SearchTerm[] = [];
+
+  for (const match of input.matchAll(/"([^"]*)"|(\S+)/g)) {
+    if (match[1] !== undefined) {
+      const phrase = words(match[1]);
+      if (phrase.length > 0) terms.push({ words: phrase, prefix: false });
+      continue;
+    }
+
+    const prefix = match[2].endsWith('*');
+    const parts = words(match[2]);
+    parts.forEach((word, index) => {
+      // Prefixes too short to be indexed match as whole words
+      const isPrefix = prefix && index === parts.length - 1 && word.length >= MIN_PREFIX_LENGTH;
+      terms.push({ words: [word], prefix: isPrefix });
+    });
+  }
+
+  return terms;
+}
+
+/**
+ * Columns of the FTS5 row of a memory: its words in order, and the prefixes of its words
+ */
+export function buildIndexColumns(text: string, cipher: DatabaseCipher): IndexColumns {
+  const words = findWords(text).map(found => found.word);
+  const prefixes = new Set<string>();
+  for (const word of words) {
+    for (let length = MIN_PREFIX_LENGTH; length <= Math.min(word.length, MAX_PREFIX_LENGTH); length++) {
+      prefixes.add(word.slice(0, length));
+    }
+  }
+
+  return {
+    terms: words.map(word => cipher.blindToken(`w:${word}`)).join(' '),
+    prefixes: Array.from(prefixes, prefix => cipher.blindToken(`p:${prefix}`)).join(' '),
+  };
+}
+
+export function buildMatchExpression(terms: SearchTerm[], cipher: DatabaseCipher): string | null {
+  if (terms.length === 0) return null;
+
+  return terms
+    .map(term => term.prefix
+      ? `prefixes : "${cipher.blindToken(`p:${term.words[0].slice(0, MAX_PREFIX_LENGTH)}`)}"`
+      : `terms : "${term.words.map(word => cipher.blindToken(`w:${word}`)).join(' ')}"`)
+    .join(' AND ');
+}
+
+function matchesWord(word: string, term: SearchTerm): boolean {
+  return term.prefix ? word.startsWith(term.words[0]) : term.words.includes(word);
+}
+
+/**
+ * Whether the text contains every term; used when SQLite has no FTS5
+ */
+export function matchesTerms(text: string, terms: SearchTerm[]): boolean {
+  const words = findWords(text).map(found => found.word);
+  return terms.every(term => {
+    if (term.words.length === 1) {
+      return words.some(word => matchesWord(word, term));
+    }
+    return words.some((_, start) => term.words.every((word, offset) => words[start + offset] === word));
+  });
+}
+
+/**
+ * Excerpt of the text around the first match, with the matched words between highlight markers
+ */
+export function buildSnippet(text: string, terms: SearchTerm[]): string {
+  const words = findWords(text);
+  if (words.length === 0) return text;
+
+  const matched = words.map(({ word }) => terms.some(term => matchesWord(word, term)));
+  const firstMatch = Math.max(0, matched.indexOf(true));
+  const first = Math.max(0, Math.min(firstMatch - SNIPPET_WORDS_BEFORE, words.length - SNIPPET_WORDS));
+  const last = Math.min(words.length, first + SNIPPET_WORDS) - 1;
+
+  let snippet = first > 0 ? ELLIPSIS : '';
+  let position = first > 0 ? words[first].start : 0;
+  for (let i = first; i <= last; i++) {
+    snippet += text.slice(position, words[i].start);
+    const word = text.slice(words[i].start, words[i].end);
+    snippet += matched[i] ? `${HIGHLIGHT_START}${word}${HIGHLIGHT_END}` : word;
+    position = words[i].end;
+  }
+  snippet += last < words.length - 1 ? `${text.slice(position, words[last + 1].start).trimEnd()}${ELLIPSIS}` : text.slice(position);
+
+  return snippet;
+}
+
+// Split a snippet into plain and highlighted segments
+export function splitHighlights(snippet: string): Array<{ text: string; highlighted: boolean }> {
+  const segments: Array<{ text: string; highlighted: boolean }> = [];
+  for (const [index, part] of snippet.split(new RegExp(`${HIGHLIGHT_START}|${HIGHLIGHT_END}`)).entries()) {
+    if (part) segments.push({ text: part, highlighted: index % 2 === 1 });
+  }
+  return segments;
+}
@@ -1,11 +1,65 @@
 import * as SQLite from 'expo-sqlite';
 import * as Crypto from 'expo-crypto';
 import { MemoryEntry } from '../types/core';
+import { MemoryItem, MemorySearchQuery, MemorySearchResult, RestoreMode } from '../types/service';
 import { AuditService } from './AuditService';
+import FeatureFlagService from './FeatureFlagService';
+import { Embedder, HashingEmbedder, blobToVector, cosineSimilarity, vectorToBlob } from './Embedder';
+import { DatabaseCipher, ENCRYPTED_PREFIX, isEncryptionEnabled, loadDatabaseCipher } from './DatabaseCipher';
+import {
+  SearchTerm,
+  buildIndexColumns,
+  buildMatchExpression,
+  buildSnippet,
+  matchesTerms,
+  parseSearchQuery,
+} from './MemoryIndex';
+import { base64ToBytes, bytesToBase64, bytesToUtf8, utf8ToBytes } from '../utils/encoding';
 
+// Below this cosine similarity a memory shares too little with the query to be worth returning
+const MIN_RELEVANCE_SCORE = 0.15;
+// Memories embedded per batch when filling in missing vectors
+const EMBEDDING_BATCH_SIZE = 32;
+// Rows indexed or encrypted per transaction during migrations
+const MIGRATION_BATCH_SIZE = 100;
+// Without FTS5, text search decrypts and filters at most this many recent memories
+const MAX_SCANNED_MEMORIES = 1000;
+
+export const DEFAULT_MEMORY_CATEGORY = 'general';
+const DEFAULT_PAGE_SIZE = 20;
+const SCHEMA_VERSION = 1;
+
+// Chronological pages continue after the last memory shown; ranked ones from a position
+type MemoryCursor = { createdAt: number; id: string } | { offset: number };
+
+function encodeCursor(cursor: MemoryCursor): string {
+  return bytesToBase64(utf8ToBytes(JSON.stringify(cursor)));
+}
+
+function decodeCursor(cursor: string): MemoryCursor | null {
+  try {
+    return JSON.parse(bytesToUtf8(base64ToBytes(cursor)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Long-term memories in SQLite.
+ *
+ * While ENHANCED_ENCRYPTION is on, contents, metadata and embedding vectors are encrypted
+ * (see DatabaseCipher) and existing rows are encrypted in the background. Creation dates and
+ * categories stay in clear for sorting and filtering; text search goes through the blind
+ * index described in MemoryIndex.
+ */
 export class MemoryService {
   private static instance: MemoryService;
   private db: SQLite.SQLiteDatabase | null = null;
+  private cipher: DatabaseCipher | null = null;
+  private initialization: Promise<void> | null = null;
+  private embedder: Embedder = new HashingEmbedder();
+  // Text search falls back to decrypting and filtering when the SQLite build lacks FTS5
+  private ftsAvailable = false;
 
   public static getInstance(): MemoryService {
     if (!MemoryService.instance) {
@@ -18,46 +72,185 @@ export class MemoryService {
     this.initialize();
   }
 
-  private async initialize(): Promise<void> {
+  // Shared by concurrent callers; retried on the next call after a failure
+  private initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.openDatabase().catch(error => {
+        console.error('Failed to initialize memory database:', error);
+        this.initialization = null;
+      });
+    }
+    return this.initialization;
+  }
+
+  private async openDatabase(): Promise<void> {
+    const db = await SQLite.openDatabaseAsync('mongars_memory.db');
+
+    await db.execAsync(`
+      PRAGMA journal_mode = WAL;
+      CREATE TABLE IF NOT EXISTS memories (
+        id TEXT PRIMARY KEY,
+        content TEXT NOT NULL,
+        metadata TEXT,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_memory_created ON memories(created_at);
+      DROP INDEX IF EXISTS idx_memory_content;
+      CREATE TABLE IF NOT EXISTS memory_embeddings (
+        memory_id TEXT PRIMARY KEY,
+        model TEXT NOT NULL,
+        vector BLOB NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_memory_embeddings_model ON memory_embeddings(model);
+    `);
+
+    const versionRow = await db.getFirstAsync('PRAGMA user_version');
+    if (((versionRow as any)?.user_version ?? 0) < 1) {
+      // Categories in clear for filtering, encryption state of the vectors, and a full-text
+      // index that no longer holds the contents
+      await db.withTransactionAsync(() => db.execAsync(`
+        ALTER TABLE memories ADD COLUMN category TEXT NOT NULL DEFAULT '${DEFAULT_MEMORY_CATEGORY}';
+        UPDATE memories SET category = COALESCE(NULLIF(json_extract(metadata, '$.type'), ''), '${DEFAULT_MEMORY_CATEGORY}');
+        CREATE INDEX IF NOT EXISTS idx_memory_category ON memories(category, created_at);
+        ALTER TABLE memory_embeddings ADD COLUMN encrypted INTEGER NOT NULL DEFAULT 0;
+        DROP TRIGGER IF EXISTS memories_fts_insert;
+        DROP TRIGGER IF EXISTS memories_fts_delete;
+        DROP TRIGGER IF EXISTS memories_fts_update;
+        DROP TABLE IF EXISTS memories_fts;
+        PRAGMA user_version = ${SCHEMA_VERSION};
+      `));
+    }
+
+    await FeatureFlagService.getInstance().initialize();
+    this.cipher = await loadDatabaseCipher(db, 'memory_db');
+    this.db = db;
+
+    await this.initializeFullTextSearch();
+    this.encryptExistingMemories().catch(error => {
+      console.error('Failed to encrypt existing memories:', error);
+    });
+  }
+
+  /**
+   * Full-text index of the memories, maintained by the app since SQLite cannot compute the
+   * blind tokens. Memories missing from it (saved before it existed) are indexed here.
+   */
+  private async initializeFullTextSearch(): Promise<void> {
     try {
-      this.db = await SQLite.openDatabaseAsync('mongars_memory.db');
-      
-      await this.db.execAsync(`
-        PRAGMA journal_mode = WAL;
-        CREATE TABLE IF NOT EXISTS memories (
-          id TEXT PRIMARY KEY,
-          content TEXT NOT NULL,
-          metadata TEXT,
-          created_at INTEGER NOT NULL
-        );
-        CREATE INDEX IF NOT EXISTS idx_memory_created ON memories(created_at);
-        CREATE INDEX IF NOT EXISTS idx_memory_content ON memories(content);
+      await this.db!.execAsync(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(memory_id UNINDEXED, terms, prefixes);
       `);
+
+      for (;;) {
+        const rows = await this.db!.getAllAsync(
+          `SELECT id, content FROM memories
+           WHERE id NOT IN (SELECT memory_id FROM memories_fts) LIMIT ?`,
+          [MIGRATION_BATCH_SIZE]
+        );
+        if (rows.length === 0) break;
+
+        await this.db!.withTransactionAsync(async () => {
+          for (const row of rows as any[]) {
+            await this.indexMemory(row.id, this.cipher!.decrypt(row.content));
+          }
+        });
+      }
+      this.ftsAvailable = true;
     } catch (error) {
-      console.error('Failed to initialize memory database:', error);
+      console.error('Failed to initialize memory full-text search:', error);
     }
   }
 
-  async saveMemory(content: string, metadata: Record<string, any> = {}): Promise<string> {
-    if (!this.db) {
-      await this.initialize();
+  // Rows written before encryption was enabled, or while it was off
+  private async encryptExistingMemories(): Promise<void> {
+    if (!isEncryptionEnabled()) return;
+
+    let encrypted = 0;
+    for (;;) {
+      const rows = await this.db!.getAllAsync(
+        'SELECT id, content, metadata FROM memories WHERE substr(content, 1, ?) != ? LIMIT ?',
+        [ENCRYPTED_PREFIX.length, ENCRYPTED_PREFIX, MIGRATION_BATCH_SIZE]
+      );
+      if (rows.length === 0) break;
+
+      // Exclusive, so that writes made by the app meanwhile stay out of the transaction
+      await this.db!.withExclusiveTransactionAsync(async (txn) => {
+        for (const row of rows as any[]) {
+          await txn.runAsync(
+            'UPDATE memories SET content = ?, metadata = ? WHERE id = ?',
+            [this.cipher!.encrypt(row.content), this.cipher!.encrypt(row.metadata || '{}'), row.id]
+          );
+        }
+      });
+      encrypted += rows.length;
+    }
+
+    for (;;) {
+      const rows = await this.db!.getAllAsync(
+        'SELECT memory_id, vector FROM memory_embeddings WHERE encrypted = 0 LIMIT ?',
+        [MIGRATION_BATCH_SIZE]
+      );
+      if (rows.length === 0) break;
+
+      await this.db!.withExclusiveTransactionAsync(async (txn) => {
+        for (const row of rows as any[]) {
+          await txn.runAsync(
+            'UPDATE memory_embeddings SET vector = ?, encrypted = 1 WHERE memory_id = ?',
+            [this.cipher!.encryptBytes(row.vector), row.memory_id]
+          );
+        }
+      });
     }
 
+    if (encrypted > 0) {
+      AuditService.getInstance().log('settings_change', `Existing memories encrypted: ${encrypted}`);
+    }
+  }
+
+  private async indexMemory(id: string, content: string): Promise<void> {
+    const { terms, prefixes } = buildIndexColumns(content, this.cipher!);
+    await this.db!.runAsync(
+      'INSERT INTO memories_fts (memory_id, terms, prefixes) VALUES (?, ?, ?)',
+      [id, terms, prefixes]
+    );
+  }
+
+  async saveMemory(content: string, metadata: Record<string, any> = {}): Promise<string> {
+    await this.initialize();
+
     try {
       const id = await Crypto.digestStringAsync(
         Crypto.CryptoDigestAlgorithm.SHA256,
         content + Date.now().toString(),
         { encoding: Crypto.CryptoEncoding.HEX }
       );
-      
+
       const createdAt = Date.now();
       const metadataJson = JSON.stringify(metadata);
-      
+
       await this.db!.runAsync(
-        'INSERT INTO memories (id, content, metadata, created_at) VALUES (?, ?, ?, ?)',
-        [id, content, metadataJson, createdAt]
+        'INSERT INTO memories (id, content, metadata, created_at, category) VALUES (?, ?, ?, ?, ?)',
+        [
+          id,
+          this.cipher!.encryptIfEnabled(content),
+          this.cipher!.encryptIfEnabled(metadataJson),
+          createdAt,
+          metadata.type || DEFAULT_MEMORY_CATEGORY,
+        ]
       );
 
+      if (this.ftsAvailable) {
+        await this.indexMemory(id, content);
+      }
+
+      // A memory left without a vector is embedded on the next semantic search
+      try {
+        const [vector] = await this.embedder.embed([content]);
+        await this.storeEmbedding(id, vector);
+      } catch (error) {
+        console.error('Failed to embed memory:', error);
+      }
+
       AuditService.getInstance().log('memory_write', `Memory saved: ${id.substring(0, 8)}...`);
       return id;
     } catch (error) {
@@ -67,40 +260,261 @@ export class MemoryService {
   }
 
   async getMemories(query?: string, limit: number = 100): Promise<MemoryEntry[]> {
-    if (!this.db) {
-      await this.initialize();
-    }
+    await this.initialize();
 
     try {
-      let sql = 'SELECT * FROM memories';
-      const params: any[] = [];
-
       if (query && query.trim()) {
-        sql += ' WHERE content LIKE ?';
-        params.push(`%${query}%`);
+        const result = await this.search({ query, limit });
+        return result.items.map(item => ({
+          id: item.id,
+          content: item.content,
+          metadata: item.metadata,
+          createdAt: new Date(item.timestamp),
+          snippet: item.snippet,
+        }));
       }
 
-      sql += ' ORDER BY created_at DESC LIMIT ?';
-      params.push(limit);
-
-      const result = await this.db!.getAllAsync(sql, params);
-      
-      return result.map((row: any) => ({
-        id: row.id,
-        content: row.content,
-        metadata: JSON.parse(row.metadata || '{}'),
-        createdAt: new Date(row.created_at)
-      }));
+      const result = await this.db!.getAllAsync(
+        'SELECT * FROM memories ORDER BY created_at DESC LIMIT ?',
+        [limit]
+      );
+
+      return result.map((row: any) => this.toMemoryEntry(row));
     } catch (error) {
       console.error('Failed to get memories:', error);
       return [];
     }
   }
 
-  async getMemoryById(id: string): Promise<MemoryEntry | null> {
-    if (!this.db) {
-      await this.initialize();
+  /**
+   * One page of memories, filtered by category and date. Memories matching the text come best
+   * match first; without text, most recent first.
+   */
+  async search(searchQuery: MemorySearchQuery): Promise<MemorySearchResult> {
+    await this.initialize();
+
+    const startTime = Date.now();
+    const limit = searchQuery.limit ?? DEFAULT_PAGE_SIZE;
+    const cursor = searchQuery.cursor ? decodeCursor(searchQuery.cursor) : null;
+
+    const filters: string[] = [];
+    const filterParams: any[] = [];
+    if (searchQuery.categories?.length) {
+      filters.push(`m.category IN (${searchQuery.categories.map(() => '?').join(', ')})`);
+      filterParams.push(...searchQuery.categories);
+    }
+    if (searchQuery.dateRange) {
+      filters.push('m.created_at BETWEEN ? AND ?');
+      filterParams.push(searchQuery.dateRange.start.getTime(), searchQuery.dateRange.end.getTime());
+    }
+
+    try {
+      const terms = parseSearchQuery(searchQuery.query);
+      if (terms.length > 0 && !this.ftsAvailable) {
+        return await this.scanMemories(terms, filters, filterParams, searchQuery, cursor, startTime);
+      }
+
+      const ranked = terms.length > 0;
+      let from = 'memories m';
+      let columns = 'm.*';
+      const conditions = [...filters];
+      const params = [...filterParams];
+      if (ranked) {
+        from = 'memories_fts JOIN memories m ON m.id = memories_fts.memory_id';
+        // Whole words weigh more than prefixes
+        columns = 'm.*, bm25(memories_fts, 0.0, 1.0, 0.5) AS rank';
+        conditions.unshift('memories_fts MATCH ?');
+        params.unshift(buildMatchExpression(terms, this.cipher!));
+      }
+
+      const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+      const countRow = await this.db!.getFirstAsync(`SELECT COUNT(*) AS count FROM ${from}${where}`, params);
+      const totalCount = (countRow as any)?.count || 0;
+
+      // One extra row tells whether another page follows
+      let sql: string;
+      let pageParams: any[];
+      let offset = 0;
+      if (ranked) {
+        offset = cursor && 'offset' in cursor ? cursor.offset : searchQuery.offset ?? 0;
+        sql = `SELECT ${columns} FROM ${from}${where} ORDER BY rank, m.id LIMIT ? OFFSET ?`;
+        pageParams = [...params, limit + 1, offset];
+      } else if (cursor && 'createdAt' in cursor) {
+        const after = '(m.created_at < ? OR (m.created_at = ? AND m.id < ?))';
+        sql = `SELECT ${columns} FROM ${from} WHERE ${[...conditions, after].join(' AND ')}
+               ORDER BY m.created_at DESC, m.id DESC LIMIT ?`;
+        pageParams = [...params, cursor.createdAt, cursor.createdAt, cursor.id, limit + 1];
+      } else {
+        offset = searchQuery.offset ?? 0;
+        sql = `SELECT ${columns} FROM ${from}${where} ORDER BY m.created_at DESC, m.id DESC LIMIT ? OFFSET ?`;
+        pageParams = [...params, limit + 1, offset];
+      }
+
+      const rows = await this.db!.getAllAsync(sql, pageParams);
+      const hasMore = rows.length > limit;
+      const page = rows.slice(0, limit) as any[];
+      const items = page.map(row => {
+        const item = this.toMemoryItem(row);
+        if (!ranked) return item;
+        // BM25 scores are negative, lower meaning a better match
+        return { ...item, relevanceScore: -row.rank, snippet: buildSnippet(item.content, terms) };
+      });
+
+      let nextCursor: string | undefined;
+      if (hasMore) {
+        const last = page[page.length - 1];
+        nextCursor = encodeCursor(ranked ? { offset: offset + limit } : { createdAt: last.created_at, id: last.id });
+      }
+
+      return { items, totalCount, hasMore, searchTime: Date.now() - startTime, nextCursor };
+    } catch (error) {
+      console.error('Failed to search memories:', error);
+      return { items: [], totalCount: 0, hasMore: false, searchTime: Date.now() - startTime };
+    }
+  }
+
+  // Text search without FTS5: the most recent memories are decrypted and filtered in memory
+  private async scanMemories(
+    terms: SearchTerm[],
+    filters: string[],
+    filterParams: any[],
+    searchQuery: MemorySearchQuery,
+    cursor: MemoryCursor | null,
+    startTime: number
+  ): Promise<MemorySearchResult> {
+    const limit = searchQuery.limit ?? DEFAULT_PAGE_SIZE;
+    const offset = cursor && 'offset' in cursor ? cursor.offset : searchQuery.offset ?? 0;
+    const where = filters.length > 0 ? ` WHERE ${filters.join(' AND ')}` : '';
+
+    const rows = await this.db!.getAllAsync(
+      `SELECT m.* FROM memories m${where} ORDER BY m.created_at DESC LIMIT ?`,
+      [...filterParams, MAX_SCANNED_MEMORIES]
+    );
+    const matches = rows
+      .map(row => this.toMemoryItem(row))
+      .filter(item => matchesTerms(item.content, terms));
+
+    const items = matches
+      .slice(offset, offset + limit)
+      .map(item => ({ ...item, snippet: buildSnippet(item.content, terms) }));
+    const hasMore = matches.length > offset + limit;
+
+    return {
+      items,
+      totalCount: matches.length,
+      hasMore,
+      searchTime: Date.now() - startTime,
+      nextCursor: hasMore ? encodeCursor({ offset: offset + limit }) : undefined,
+    };
+  }
+
+  /**
+   * Categories in use, with their number of memories, most used first
+   */
+  async getCategories(): Promise<Array<{ category: string; count: number }>> {
+    await this.initialize();
+
+    try {
+      const rows = await this.db!.getAllAsync(
+        'SELECT category, COUNT(*) AS count FROM memories GROUP BY category ORDER BY count DESC'
+      );
+      return rows.map((row: any) => ({ category: row.category, count: row.count }));
+    } catch (error) {
+      console.error('Failed to get memory categories:', error);
+      return [];
     }
+  }
+
+  private toMemoryItem(row: any, extra: Partial<MemoryItem> = {}): MemoryItem {
+    return {
+      id: row.id,
+      content: this.cipher!.decrypt(row.content),
+      metadata: JSON.parse(this.cipher!.decrypt(row.metadata || '{}')),
+      timestamp: row.created_at,
+      category: row.category || DEFAULT_MEMORY_CATEGORY,
+      ...extra,
+    };
+  }
+
+  private toMemoryEntry(row: any): MemoryEntry {
+    return {
+      id: row.id,
+      content: this.cipher!.decrypt(row.content),
+      metadata: JSON.parse(this.cipher!.decrypt(row.metadata || '{}')),
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  /**
+   * Replace the embedder used for semantic search; stored vectors from another embedder
+   * are recomputed on the next search
+   */
+  setEmbedder(embedder: Embedder): void {
+    this.embedder = embedder;
+  }
+
+  /**
+   * Memories closest in meaning to the query, most relevant first
+   */
+  async searchSimilar(query: string, limit: number = 5): Promise<MemoryItem[]> {
+    await this.initialize();
+    if (!query.trim()) return [];
+
+    try {
+      await this.embedMissingMemories();
+
+      const [queryVector] = await this.embedder.embed([query]);
+      const rows = await this.db!.getAllAsync(
+        `SELECT m.id, m.content, m.metadata, m.created_at, m.category, e.vector, e.encrypted
+         FROM memories m JOIN memory_embeddings e ON e.memory_id = m.id
+         WHERE e.model = ?`,
+        [this.embedder.id]
+      );
+
+      return rows
+        .map((row: any) => {
+          const blob = row.encrypted ? this.cipher!.decryptBytes(row.vector) : row.vector;
+          return { row, score: cosineSimilarity(queryVector, blobToVector(blob)) };
+        })
+        .filter(({ score }) => score >= MIN_RELEVANCE_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ row, score }) => this.toMemoryItem(row, { relevanceScore: score }));
+    } catch (error) {
+      console.error('Failed to search memories:', error);
+      return [];
+    }
+  }
+
+  // Memories saved before embeddings existed, or embedded by another embedder
+  private async embedMissingMemories(): Promise<void> {
+    for (;;) {
+      const rows = await this.db!.getAllAsync(
+        `SELECT m.id, m.content FROM memories m
+         LEFT JOIN memory_embeddings e ON e.memory_id = m.id AND e.model = ?
+         WHERE e.memory_id IS NULL LIMIT ?`,
+        [this.embedder.id, EMBEDDING_BATCH_SIZE]
+      );
+      if (rows.length === 0) return;
+
+      const vectors = await this.embedder.embed(rows.map((row: any) => this.cipher!.decrypt(row.content)));
+      for (let i = 0; i < rows.length; i++) {
+        await this.storeEmbedding((rows[i] as any).id, vectors[i]);
+      }
+    }
+  }
+
+  private async storeEmbedding(memoryId: string, vector: Float32Array): Promise<void> {
+    const encrypted = isEncryptionEnabled();
+    const blob = encrypted ? this.cipher!.encryptBytes(vectorToBlob(vector)) : vectorToBlob(vector);
+    await this.db!.runAsync(
+      'INSERT OR REPLACE INTO memory_embeddings (memory_id, model, vector, encrypted) VALUES (?, ?, ?, ?)',
+      [memoryId, this.embedder.id, blob, encrypted ? 1 : 0]
+    );
+  }
+
+  async getMemoryById(id: string): Promise<MemoryEntry | null> {
+    await this.initialize();
 
     try {
       const result = await this.db!.getFirstAsync(
@@ -108,14 +522,7 @@ export class MemoryService {
         [id]
       );
 
-      if (!result) return null;
-
-      return {
-        id: (result as any).id,
-        content: (result as any).content,
-        metadata: JSON.parse((result as any).metadata || '{}'),
-        createdAt: new Date((result as any).created_at)
-      };
+      return result ? this.toMemoryEntry(result) : null;
     } catch (error) {
       console.error('Failed to get memory by id:', error);
       return null;
@@ -123,12 +530,14 @@ export class MemoryService {
   }
 
   async deleteMemory(id: string): Promise<boolean> {
-    if (!this.db) {
-      await this.initialize();
-    }
+    await this.initialize();
 
     try {
       await this.db!.runAsync('DELETE FROM memories WHERE id = ?', [id]);
+      await this.db!.runAsync('DELETE FROM memory_embeddings WHERE memory_id = ?', [id]);
+      if (this.ftsAvailable) {
+        await this.db!.runAsync('DELETE FROM memories_fts WHERE memory_id = ?', [id]);
+      }
       AuditService.getInstance().log('memory_delete', `Memory deleted: ${id.substring(0, 8)}...`);
       return true;
     } catch (error) {
@@ -138,23 +547,77 @@ export class MemoryService {
   }
 
   async clearAllMemories(): Promise<void> {
-    if (!this.db) {
-      await this.initialize();
-    }
+    await this.initialize();
 
     try {
+      if (this.ftsAvailable) {
+        await this.db!.runAsync('DELETE FROM memories_fts');
+      }
       await this.db!.runAsync('DELETE FROM memories');
-      AuditService.getInstance().log('panic_wipe', 'All memories cleared');
+      await this.db!.runAsync('DELETE FROM memory_embeddings');
+      AuditService.getInstance().log('memory_delete', 'All memories cleared');
     } catch (error) {
       console.error('Failed to clear memories:', error);
       throw error;
     }
   }
 
+  /**
+   * Every memory, oldest first, decrypted for a backup
+   */
+  async exportMemories(): Promise<MemoryItem[]> {
+    await this.initialize();
+
+    const rows = await this.db!.getAllAsync('SELECT * FROM memories ORDER BY created_at, id');
+    return rows.map(row => this.toMemoryItem(row));
+  }
+
+  /**
+   * Add memories from a backup, keeping their ids and dates. Merging skips the ones already on
+   * the device; replacing deletes the device's memories first. Returns the number added.
+   */
+  async importMemories(memories: MemoryItem[], mode: RestoreMode): Promise<number> {
+    await this.initialize();
+
+    let imported = 0;
+    await this.db!.withTransactionAsync(async () => {
+      if (mode === 'replace') {
+        if (this.ftsAvailable) {
+          await this.db!.runAsync('DELETE FROM memories_fts');
+        }
+        await this.db!.runAsync('DELETE FROM memories');
+        await this.db!.runAsync('DELETE FROM memory_embeddings');
+      }
+
+      for (const memory of memories) {
+        const result = await this.db!.runAsync(
+          'INSERT OR IGNORE INTO memories (id, content, metadata, created_at, category) VALUES (?, ?, ?, ?, ?)',
+          [
+            memory.id,
+            this.cipher!.encryptIfEnabled(memory.content),
+            this.cipher!.encryptIfEnabled(JSON.stringify(memory.metadata)),
+            memory.timestamp,
+            memory.category || memory.metadata.type || DEFAULT_MEMORY_CATEGORY,
+          ]
+        );
+        if (result.changes === 0) continue;
+
+        if (this.ftsAvailable) {
+          await this.indexMemory(memory.id, memory.content);
+        }
+        imported++;
+      }
+    });
+
+    // Vectors are computed on the next semantic search
+    AuditService.getInstance().log('data_import', `Memories imported from backup: ${imported}`, {
+      metadata: { mode, imported },
+    });
+    return imported;
+  }
+
   async getMemoryStats(): Promise<{ totalMemories: number; totalSize: number }> {
-    if (!this.db) {
-      await this.initialize();
-    }
+    await this.initialize();
 
     try {
       const result = await this.db!.getFirstAsync(
@@ -170,4 +633,4 @@ export class MemoryService {
       return { totalMemories: 0, totalSize: 0 };
     }
   }
-}
\ No newline at end of file
+}
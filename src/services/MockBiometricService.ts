@@ -30,7 +30,9 @@ export class MockBiometricService {
             text: "Échec",
             style: "cancel",
             onPress: () => {
-              AuditService.getInstance().log('auth_failed', 'Mock authentication failed');
+              AuditService.getInstance().log('auth_failed', 'Mock authentication failed', {
+                metadata: { method: 'biometric', mock: true },
+              });
               resolve({ success: false, error: 'Authentification refusée' });
             }
           },
@@ -38,7 +40,9 @@ export class MockBiometricService {
             text: "Succès",
             onPress: () => {
               this.isUnlocked = true;
-              AuditService.getInstance().log('auth_success', 'Mock authentication successful');
+              AuditService.getInstance().log('auth_success', 'Mock authentication successful', {
+                metadata: { method: 'biometric', mock: true },
+              });
               resolve({ success: true });
             }
           }
@@ -63,7 +63,9 @@ class MockGitHubService {
   async getRepository(): Promise<GitHubRepo> {
     await this.delay();
     
-    AuditService.getInstance().log('memory_write', 'Mock GitHub API: getRepository');
+    AuditService.getInstance().log('api_call', 'Mock GitHub API: getRepository', {
+      metadata: { provider: 'github', mock: true },
+    });
     
     return {
       name: PROJECT_CONSTANTS.REPO,
@@ -84,7 +86,9 @@ class MockGitHubService {
   async createIssue(title: string, body: string, labels?: string[]): Promise<GitHubIssue> {
     await this.delay();
     
-    AuditService.getInstance().log('memory_write', `Mock GitHub: Created issue "${title}"`);
+    AuditService.getInstance().log('api_call', `Mock GitHub: Created issue "${title}"`, {
+      metadata: { provider: 'github', mock: true },
+    });
     
     return {
       id: Date.now(),
@@ -102,7 +106,9 @@ class MockGitHubService {
   async getIssues(state: 'open' | 'closed' | 'all' = 'open'): Promise<GitHubIssue[]> {
     await this.delay();
     
-    AuditService.getInstance().log('memory_write', `Mock GitHub: getIssues (${state})`);
+    AuditService.getInstance().log('api_call', `Mock GitHub: getIssues (${state})`, {
+      metadata: { provider: 'github', mock: true },
+    });
     
     const mockIssues: GitHubIssue[] = [
       {
@@ -144,7 +150,9 @@ class MockGitHubService {
   async getReleases(): Promise<GitHubRelease[]> {
     await this.delay();
     
-    AuditService.getInstance().log('memory_write', 'Mock GitHub: getReleases');
+    AuditService.getInstance().log('api_call', 'Mock GitHub: getReleases', {
+      metadata: { provider: 'github', mock: true },
+    });
     
     return [
       {
@@ -175,7 +183,9 @@ class MockGitHubService {
   ): Promise<GitHubRelease> {
     await this.delay();
     
-    AuditService.getInstance().log('memory_write', `Mock GitHub: Created release "${name}"`);
+    AuditService.getInstance().log('api_call', `Mock GitHub: Created release "${name}"`, {
+      metadata: { provider: 'github', mock: true },
+    });
     
     return {
       id: Date.now(),
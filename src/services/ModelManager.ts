@@ -0,0 +1,442 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { sha256 } from '@noble/hashes/sha2';
+import * as FileSystem from 'expo-file-system';
+import { AuditService } from './AuditService';
+import EgressGuard from './EgressGuard';
+import { AppConfig } from './SecretsManager';
+import { LLMFactory, LocalLLMProvider } from './LLMProvider';
+import { LocalModelDescriptor } from './LocalInferenceEngine';
+import { base64ToBytes, bytesToHex } from '../utils/encoding';
+
+export interface ModelManifest {
+  id: string;
+  name: string;
+  version: string;
+  url: string;
+  sizeBytes: number;
+  sha256: string;
+  quantization?: string;
+  contextLength?: number;
+  description?: string;
+}
+
+export interface ModelManifestSource {
+  fetchManifests(): Promise<ModelManifest[]>;
+}
+
+export interface InstalledModel {
+  manifest: ModelManifest;
+  path: string;
+  installedAt: number;
+}
+
+export type ModelStatus = 'available' | 'downloading' | 'paused' | 'installed';
+
+export interface ModelCatalogEntry {
+  manifest: ModelManifest;
+  status: ModelStatus;
+  installed?: InstalledModel;
+}
+
+export interface ModelDownloadProgress {
+  modelId: string;
+  bytesWritten: number;
+  totalBytes: number;
+  progress: number; // 0..1
+}
+
+export interface ModelDiskUsage {
+  modelsBytes: number;
+  partialDownloadsBytes: number;
+  freeBytes: number;
+}
+
+interface ModelManagerState {
+  installed: Record<string, InstalledModel>;
+  pausedDownloads: Record<string, FileSystem.DownloadPauseState>;
+}
+
+const MODEL_MANAGER_STATE_KEY = 'model_manager_state';
+// Bytes of a model file read per step while verifying its checksum
+const HASH_CHUNK_BYTES = 4 * 1024 * 1024;
+const DEFAULT_MANIFEST_URL = process.env.EXPO_PUBLIC_MODEL_CATALOG_URL || `${AppConfig.API_BASE_URL}/models/index.json`;
+
+/**
+ * Manifest index served over HTTP as `{ "models": [...] }` or a bare array.
+ * Point it at a local file server to exercise the download flow in tests.
+ */
+export class HttpManifestSource implements ModelManifestSource {
+  constructor(private readonly indexUrl: string) {}
+
+  async fetchManifests(): Promise<ModelManifest[]> {
+    EgressGuard.getInstance().assertAllowed({ destination: 'model_download', target: this.indexUrl });
+    const response = await fetch(this.indexUrl);
+    if (!response.ok) {
+      throw new Error(`Model catalog request failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return Array.isArray(data) ? data : data.models;
+  }
+}
+
+class ModelManager {
+  private static instance: ModelManager;
+  private manifestSource: ModelManifestSource;
+  private manifests: ModelManifest[] = [];
+  private state: ModelManagerState = { installed: {}, pausedDownloads: {} };
+  private stateLoaded = false;
+  private activeDownloads: Map<string, FileSystem.DownloadResumable> = new Map();
+  private readonly modelsDirectory = `${FileSystem.documentDirectory}models/`;
+
+  public static getInstance(): ModelManager {
+    if (!ModelManager.instance) {
+      ModelManager.instance = new ModelManager();
+    }
+    return ModelManager.instance;
+  }
+
+  private constructor() {
+    this.manifestSource = new HttpManifestSource(DEFAULT_MANIFEST_URL);
+  }
+
+  setManifestSource(source: ModelManifestSource): void {
+    this.manifestSource = source;
+    this.manifests = [];
+  }
+
+  /**
+   * List the catalog with the local status of each model. Installed models stay
+   * listed when the catalog cannot be reached.
+   */
+  async listModels(refresh = false): Promise<ModelCatalogEntry[]> {
+    await this.loadState();
+
+    if (refresh || this.manifests.length === 0) {
+      try {
+        this.manifests = this.validateManifests(await this.manifestSource.fetchManifests());
+      } catch (error) {
+        console.warn('Failed to fetch model catalog:', error);
+      }
+    }
+
+    const manifests = [...this.manifests];
+    Object.values(this.state.installed).forEach(installed => {
+      if (!manifests.some(manifest => manifest.id === installed.manifest.id)) {
+        manifests.push(installed.manifest);
+      }
+    });
+
+    return manifests.map(manifest => ({
+      manifest,
+      status: this.getStatus(manifest.id),
+      installed: this.state.installed[manifest.id],
+    }));
+  }
+
+  /**
+   * Download a model, resuming a paused download when possible, then verify its checksum.
+   * Resolves to null when the download was paused or cancelled before completion.
+   */
+  async downloadModel(
+    modelId: string,
+    onProgress?: (progress: ModelDownloadProgress) => void
+  ): Promise<InstalledModel | null> {
+    await this.loadState();
+
+    if (this.activeDownloads.has(modelId)) {
+      throw new Error(`Model ${modelId} is already downloading`);
+    }
+
+    const manifest = await this.getManifest(modelId);
+    await FileSystem.makeDirectoryAsync(this.modelsDirectory, { intermediates: true });
+
+    const freeBytes = await FileSystem.getFreeDiskStorageAsync();
+    if (freeBytes < manifest.sizeBytes) {
+      throw new Error(`Not enough free space for ${manifest.name}`);
+    }
+
+    EgressGuard.getInstance().assertAllowed({ destination: 'model_download', target: manifest.url });
+
+    const partialUri = this.getPartialUri(modelId);
+    const pauseState = this.state.pausedDownloads[modelId];
+    const download = FileSystem.createDownloadResumable(
+      manifest.url,
+      partialUri,
+      {},
+      (data) => {
+        const totalBytes = data.totalBytesExpectedToWrite > 0 ? data.totalBytesExpectedToWrite : manifest.sizeBytes;
+        onProgress?.({
+          modelId,
+          bytesWritten: data.totalBytesWritten,
+          totalBytes,
+          progress: totalBytes > 0 ? data.totalBytesWritten / totalBytes : 0,
+        });
+      },
+      pauseState?.resumeData
+    );
+
+    this.activeDownloads.set(modelId, download);
+    let result: FileSystem.FileSystemDownloadResult | undefined;
+    try {
+      result = pauseState?.resumeData ? await download.resumeAsync() : await download.downloadAsync();
+    } finally {
+      this.activeDownloads.delete(modelId);
+    }
+
+    // downloadAsync resolves without a result when the task was paused or cancelled
+    if (!result) {
+      return null;
+    }
+
+    delete this.state.pausedDownloads[modelId];
+    await this.saveState();
+
+    if (result.status < 200 || result.status >= 300) {
+      await FileSystem.deleteAsync(partialUri, { idempotent: true });
+      throw new Error(`Model download failed: HTTP ${result.status}`);
+    }
+
+    const checksum = await this.computeSha256(partialUri);
+    if (checksum !== manifest.sha256.toLowerCase()) {
+      await FileSystem.deleteAsync(partialUri, { idempotent: true });
+      AuditService.getInstance().log('model_upgrade', `Model ${modelId} rejected: checksum mismatch`, {
+        severity: 'high',
+        metadata: { modelId, version: manifest.version },
+      });
+      throw new Error(`Checksum mismatch for ${manifest.name}`);
+    }
+
+    const path = this.getModelUri(manifest);
+    const previous = this.state.installed[modelId];
+    if (previous) {
+      await FileSystem.deleteAsync(previous.path, { idempotent: true });
+    }
+    await FileSystem.moveAsync({ from: partialUri, to: path });
+
+    const installed: InstalledModel = { manifest, path, installedAt: Date.now() };
+    this.state.installed[modelId] = installed;
+    await this.saveState();
+
+    AuditService.getInstance().log(
+      'model_upgrade',
+      previous
+        ? `Model ${modelId} upgraded from ${previous.manifest.version} to ${manifest.version}`
+        : `Model ${modelId} ${manifest.version} installed`,
+      { metadata: { modelId, version: manifest.version, previousVersion: previous?.manifest.version } }
+    );
+
+    return installed;
+  }
+
+  /**
+   * Pause an active download; the next downloadModel call resumes it, even after a restart
+   */
+  async pauseDownload(modelId: string): Promise<void> {
+    const download = this.activeDownloads.get(modelId);
+    if (!download) return;
+
+    this.state.pausedDownloads[modelId] = await download.pauseAsync();
+    await this.saveState();
+  }
+
+  async cancelDownload(modelId: string): Promise<void> {
+    await this.loadState();
+
+    const download = this.activeDownloads.get(modelId);
+    if (download) {
+      await download.cancelAsync();
+      this.activeDownloads.delete(modelId);
+    }
+
+    delete this.state.pausedDownloads[modelId];
+    await this.saveState();
+    await FileSystem.deleteAsync(this.getPartialUri(modelId), { idempotent: true });
+  }
+
+  /**
+   * Recompute the checksum of an installed model and compare it with its manifest
+   */
+  async verifyModel(modelId: string): Promise<boolean> {
+    await this.loadState();
+
+    const installed = this.state.installed[modelId];
+    if (!installed) {
+      throw new Error(`Model ${modelId} is not installed`);
+    }
+
+    const valid = (await this.computeSha256(installed.path)) === installed.manifest.sha256.toLowerCase();
+    if (!valid) {
+      AuditService.getInstance().log('model_upgrade', `Model ${modelId} failed integrity verification`, {
+        severity: 'high',
+        metadata: { modelId },
+      });
+    }
+    return valid;
+  }
+
+  async deleteModel(modelId: string): Promise<void> {
+    await this.loadState();
+
+    const installed = this.state.installed[modelId];
+    if (!installed) return;
+
+    await FileSystem.deleteAsync(installed.path, { idempotent: true });
+    delete this.state.installed[modelId];
+    await this.saveState();
+
+    AuditService.getInstance().log('model_upgrade', `Model ${modelId} ${installed.manifest.version} removed`, {
+      metadata: { modelId, version: installed.manifest.version },
+    });
+  }
+
+  async getDiskUsage(): Promise<ModelDiskUsage> {
+    await this.loadState();
+
+    let modelsBytes = 0;
+    for (const installed of Object.values(this.state.installed)) {
+      modelsBytes += await this.getFileSize(installed.path);
+    }
+
+    let partialDownloadsBytes = 0;
+    for (const modelId of Object.keys(this.state.pausedDownloads)) {
+      partialDownloadsBytes += await this.getFileSize(this.getPartialUri(modelId));
+    }
+
+    return {
+      modelsBytes,
+      partialDownloadsBytes,
+      freeBytes: await FileSystem.getFreeDiskStorageAsync(),
+    };
+  }
+
+  async getInstalledModels(): Promise<InstalledModel[]> {
+    await this.loadState();
+    return Object.values(this.state.installed);
+  }
+
+  /**
+   * Make an installed model the one LocalLLMProvider loads
+   */
+  async activateModel(modelId: string): Promise<void> {
+    await this.loadState();
+
+    const installed = this.state.installed[modelId];
+    if (!installed) {
+      throw new Error(`Model ${modelId} is not installed`);
+    }
+
+    await (LLMFactory.getProvider('local') as LocalLLMProvider).setModel(this.toModelDescriptor(installed));
+    AuditService.getInstance().log('model_upgrade', `Model ${modelId} ${installed.manifest.version} activated`, {
+      metadata: { modelId, version: installed.manifest.version },
+    });
+  }
+
+  toModelDescriptor(installed: InstalledModel): LocalModelDescriptor {
+    return {
+      id: installed.manifest.id,
+      name: installed.manifest.name,
+      version: installed.manifest.version,
+      quantization: installed.manifest.quantization,
+      sizeBytes: installed.manifest.sizeBytes,
+      contextLength: installed.manifest.contextLength,
+      path: installed.path,
+    };
+  }
+
+  private getStatus(modelId: string): ModelStatus {
+    if (this.activeDownloads.has(modelId)) return 'downloading';
+    if (this.state.pausedDownloads[modelId]) return 'paused';
+    if (this.state.installed[modelId]) return 'installed';
+    return 'available';
+  }
+
+  private async getManifest(modelId: string): Promise<ModelManifest> {
+    let manifest = this.manifests.find(m => m.id === modelId);
+    if (!manifest) {
+      await this.listModels(true);
+      manifest = this.manifests.find(m => m.id === modelId);
+    }
+    if (!manifest) {
+      throw new Error(`Unknown model: ${modelId}`);
+    }
+    return manifest;
+  }
+
+  private validateManifests(manifests: unknown): ModelManifest[] {
+    if (!Array.isArray(manifests)) {
+      throw new Error('Invalid model catalog');
+    }
+
+    return manifests.filter((manifest): manifest is ModelManifest => {
+      const valid =
+        typeof manifest?.id === 'string' &&
+        /^[\w.-]+$/.test(manifest.id) &&
+        typeof manifest.name === 'string' &&
+        typeof manifest.version === 'string' &&
+        typeof manifest.url === 'string' &&
+        typeof manifest.sizeBytes === 'number' &&
+        typeof manifest.sha256 === 'string' &&
+        /^[a-f0-9]{64}$/i.test(manifest.sha256);
+
+      if (!valid) {
+        console.warn('Ignoring invalid model manifest:', manifest?.id);
+      }
+      return valid;
+    });
+  }
+
+  // Hashed a chunk at a time: read whole, a model file would not fit in a JavaScript string
+  private async computeSha256(uri: string): Promise<string> {
+    const size = await this.getFileSize(uri);
+    const hash = sha256.create();
+    for (let position = 0; position < size; position += HASH_CHUNK_BYTES) {
+      const base64 = await FileSystem.readAsStringAsync(uri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position,
+        length: Math.min(HASH_CHUNK_BYTES, size - position),
+      });
+      hash.update(base64ToBytes(base64));
+    }
+    return bytesToHex(hash.digest());
+  }
+
+  private async getFileSize(uri: string): Promise<number> {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists ? info.size : 0;
+  }
+
+  private getPartialUri(modelId: string): string {
+    return `${this.modelsDirectory}${modelId}.partial`;
+  }
+
+  private getModelUri(manifest: ModelManifest): string {
+    const extension = manifest.url.split('?')[0].match(/\.(\w+)$/)?.[1] || 'bin';
+    return `${this.modelsDirectory}${manifest.id}-${manifest.version}.${extension}`;
+  }
+
+  private async loadState(): Promise<void> {
+    if (this.stateLoaded) return;
+
+    try {
+      const stored = await AsyncStorage.getItem(MODEL_MANAGER_STATE_KEY);
+      if (stored) {
+        this.state = { installed: {}, pausedDownloads: {}, ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.error('Failed to load model manager state:', error);
+    }
+
+    this.stateLoaded = true;
+  }
+
+  private async saveState(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(MODEL_MANAGER_STATE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.error('Failed to save model manager state:', error);
+    }
+  }
+}
+
+export default ModelManager;
@@ -55,6 +55,8 @@ class PerformanceMonitor {
   private sessionId: string;
   private thresholds: PerformanceThresholds;
   private startTimes: Map<string, number> = new Map();
+  private cacheHits = 0;
+  private cacheMisses = 0;
 
   public static getInstance(): PerformanceMonitor {
     if (!PerformanceMonitor.instance) {
@@ -122,6 +124,24 @@ class PerformanceMonitor {
     this.logSignificantEvents(fullMetric);
   }
 
+  // Record the outcome of a response cache lookup
+  recordCacheLookup(hit: boolean): void {
+    if (hit) {
+      this.cacheHits++;
+    } else {
+      this.cacheMisses++;
+    }
+  }
+
+  getCacheStats(): { hits: number; misses: number; hitRate: number } {
+    const total = this.cacheHits + this.cacheMisses;
+    return {
+      hits: this.cacheHits,
+      misses: this.cacheMisses,
+      hitRate: total > 0 ? this.cacheHits / total : 0,
+    };
+  }
+
   // Check if a metric exceeds thresholds
   private checkThreshold(metricType: keyof PerformanceMetrics, value: number): void {
     const threshold = this.thresholds[metricType as keyof PerformanceThresholds];
@@ -132,7 +152,7 @@ class PerformanceMonitor {
     if (exceeded) {
       const message = `Performance threshold exceeded: ${metricType} = ${value}ms (threshold: ${threshold}ms)`;
       console.warn(message);
-      AuditService.getInstance().log('performance_warning', message);
+      AuditService.getInstance().log('performance_warning', message, { metadata: { metric: metricType, value, threshold } });
       
       if (__DEV__) {
         // In development, also log to help developers
@@ -284,22 +304,25 @@ class PerformanceMonitor {
     // Log particularly interesting performance events
     if (metric.inferenceTime && metric.inferenceTime > 0) {
       AuditService.getInstance().log(
-        'performance_metric', 
-        `LLM inference completed in ${metric.inferenceTime}ms`
+        'performance_metric',
+        `LLM inference completed in ${metric.inferenceTime}ms`,
+        { metadata: { metric: 'inferenceTime', value: metric.inferenceTime } }
       );
     }
 
     if (metric.coldStartTime && metric.coldStartTime > 0) {
       AuditService.getInstance().log(
-        'performance_metric', 
-        `App cold start: ${metric.coldStartTime}ms`
+        'performance_metric',
+        `App cold start: ${metric.coldStartTime}ms`,
+        { metadata: { metric: 'coldStartTime', value: metric.coldStartTime } }
       );
     }
 
     if (metric.apiResponseTime && metric.apiResponseTime > 0) {
       AuditService.getInstance().log(
-        'performance_metric', 
-        `API response time: ${metric.apiResponseTime}ms`
+        'performance_metric',
+        `API response time: ${metric.apiResponseTime}ms`,
+        { metadata: { metric: 'apiResponseTime', value: metric.apiResponseTime } }
       );
     }
   }
@@ -313,6 +336,8 @@ class PerformanceMonitor {
   clearMetrics(): void {
     this.metrics = [];
     this.startTimes.clear();
+    this.cacheHits = 0;
+    this.cacheMisses = 0;
   }
 
   // Update thresholds
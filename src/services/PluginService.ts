@@ -0,0 +1,363 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AuditService } from './AuditService';
+import { BUILTIN_PLUGINS } from './BuiltinPlugins';
+import { Plugin } from '../types/core';
+
+export const PLUGIN_PERMISSION_LABELS = {
+  'memory.read': 'Lire vos mémoires',
+  'memory.write': 'Enregistrer des mémoires',
+  'network': 'Accéder à Internet',
+  'location': 'Accéder à votre position',
+  'notifications': 'Envoyer des notifications',
+} as const;
+
+export type PluginPermission = keyof typeof PLUGIN_PERMISSION_LABELS;
+
+export interface PluginManifest {
+  id: string;
+  name: string;
+  description: string;
+  version: string;
+  permissions: PluginPermission[];
+  // Phrases that trigger the plugin when they open an utterance, matched case- and accent-insensitively
+  intents: string[];
+}
+
+export interface PluginInvocation {
+  utterance: string;
+  intent: string;
+  // The utterance after the matched intent phrase
+  argument: string;
+}
+
+export interface PluginDefinition {
+  manifest: PluginManifest;
+  execute(invocation: PluginInvocation): Promise<string>;
+}
+
+export interface InstalledPlugin extends Omit<Plugin, 'permissions'> {
+  permissions: PluginPermission[];
+  grantedPermissions: PluginPermission[];
+  installedAt: number;
+}
+
+export interface PluginIntentMatch {
+  plugin: InstalledPlugin;
+  invocation: PluginInvocation;
+}
+
+export interface ConsentRequest {
+  plugin: InstalledPlugin;
+  permissions: PluginPermission[];
+}
+
+// Shows the consent dialog; resolves true when the user grants every requested permission
+export type ConsentPrompt = (request: ConsentRequest) => Promise<boolean>;
+
+export class PluginManifestError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid plugin manifest: ${errors.join('; ')}`);
+    this.name = 'PluginManifestError';
+  }
+}
+
+const INSTALLED_PLUGINS_KEY = 'installed_plugins';
+
+/**
+ * Check a manifest before it is installed
+ * @throws PluginManifestError listing every problem found
+ */
+export function validatePluginManifest(manifest: any): PluginManifest {
+  const errors: string[] = [];
+  const isText = (value: unknown, maxLength: number) =>
+    typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+
+  if (!manifest || typeof manifest !== 'object') {
+    throw new PluginManifestError(['manifest must be an object']);
+  }
+  if (typeof manifest.id !== 'string' || !/^[a-z0-9][a-z0-9._-]{1,63}$/.test(manifest.id)) {
+    errors.push('id must be 2-64 lowercase letters, digits, dots, dashes or underscores');
+  }
+  if (!isText(manifest.name, 50)) {
+    errors.push('name must be a non-empty string of at most 50 characters');
+  }
+  if (typeof manifest.description !== 'string' || manifest.description.length > 300) {
+    errors.push('description must be a string of at most 300 characters');
+  }
+  if (typeof manifest.version !== 'string' || !/^\d+\.\d+\.\d+(-[\w.]+)?$/.test(manifest.version)) {
+    errors.push('version must follow semantic versioning (e.g. 1.0.0)');
+  }
+
+  if (!Array.isArray(manifest.permissions)) {
+    errors.push('permissions must be an array');
+  } else {
+    manifest.permissions.forEach((permission: unknown) => {
+      if (typeof permission !== 'string' || !(permission in PLUGIN_PERMISSION_LABELS)) {
+        errors.push(`unknown permission: ${String(permission)}`);
+      }
+    });
+    if (new Set(manifest.permissions).size !== manifest.permissions.length) {
+      errors.push('permissions must not repeat');
+    }
+  }
+
+  if (!Array.isArray(manifest.intents) || manifest.intents.length === 0) {
+    errors.push('intents must be a non-empty array');
+  } else {
+    manifest.intents.forEach((intent: unknown, index: number) => {
+      if (!isText(intent, 100) || normalizeText(intent as string).trim().length === 0) {
+        errors.push(`intent ${index} must be a phrase of at most 100 characters`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new PluginManifestError(errors);
+  }
+  return manifest as PluginManifest;
+}
+
+// Lowercase, without accents or punctuation, one character for each UTF-16 unit of the input
+function normalizeText(text: string): string {
+  return text
+    .split('')
+    .map(char => {
+      const folded = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+      return folded.length === 1 && /[a-z0-9]/.test(folded) ? folded : ' ';
+    })
+    .join('');
+}
+
+// Words that may precede an intent: addressing the assistant, or politeness
+const LEADING_WORDS = [
+  'monvox', 'hey', 'he', 'eh', 'ok', 'allo', 'salut', 'bonjour', 'dis', 'dis moi',
+  'svp', 'stp', 's il te plait', 's il vous plait',
+];
+const LEADING_WORDS_PATTERN = `^\\s*(?:(?:${LEADING_WORDS.map(words => words.replace(/ /g, '\\s+')).join('|')})\\s+)*`;
+
+/**
+ * Runs plugins whose intents match what the user says, once the user has consented
+ * to the permissions each plugin declares.
+ */
+class PluginService {
+  private static instance: PluginService;
+  private definitions: Map<string, PluginDefinition> = new Map();
+  private installed: Map<string, InstalledPlugin> = new Map();
+  private loaded = false;
+  private consentPrompt: ConsentPrompt | null = null;
+
+  public static getInstance(): PluginService {
+    if (!PluginService.instance) {
+      PluginService.instance = new PluginService();
+    }
+    return PluginService.instance;
+  }
+
+  private constructor() {
+    BUILTIN_PLUGINS.forEach(definition => {
+      this.definitions.set(definition.manifest.id, definition);
+    });
+  }
+
+  setConsentPrompt(prompt: ConsentPrompt | null): void {
+    this.consentPrompt = prompt;
+  }
+
+  async loadPlugins(): Promise<InstalledPlugin[]> {
+    if (!this.loaded) {
+      try {
+        const stored = await AsyncStorage.getItem(INSTALLED_PLUGINS_KEY);
+        if (stored) {
+          (JSON.parse(stored) as InstalledPlugin[]).forEach(plugin => this.installed.set(plugin.id, plugin));
+        }
+      } catch (error) {
+        console.error('Failed to load plugins:', error);
+      }
+      this.loaded = true;
+    }
+    return Array.from(this.installed.values());
+  }
+
+  // Plugins that ship with the app and are not installed yet
+  async getAvailablePlugins(): Promise<PluginManifest[]> {
+    await this.loadPlugins();
+    return Array.from(this.definitions.values())
+      .map(definition => definition.manifest)
+      .filter(manifest => !this.installed.has(manifest.id));
+  }
+
+  async install(pluginId: string): Promise<InstalledPlugin> {
+    await this.loadPlugins();
+    const definition = this.definitions.get(pluginId);
+    if (!definition) {
+      throw new Error(`No runtime available for plugin ${pluginId}`);
+    }
+
+    const manifest = validatePluginManifest(definition.manifest);
+    const plugin: InstalledPlugin = {
+      ...manifest,
+      enabled: true,
+      grantedPermissions: [],
+      installedAt: Date.now(),
+    };
+    this.installed.set(plugin.id, plugin);
+    await this.save();
+
+    AuditService.getInstance().log(
+      'plugin_installed',
+      `Plugin ${plugin.id} ${plugin.version} installed (permissions: ${plugin.permissions.join(', ') || 'none'})`,
+      { metadata: { pluginId: plugin.id, version: plugin.version, permissions: plugin.permissions } }
+    );
+    return plugin;
+  }
+
+  async uninstall(pluginId: string): Promise<void> {
+    await this.loadPlugins();
+    if (this.installed.delete(pluginId)) {
+      await this.save();
+      AuditService.getInstance().log('settings_change', `Plugin ${pluginId} uninstalled`, { metadata: { pluginId } });
+    }
+  }
+
+  async setEnabled(pluginId: string, enabled: boolean): Promise<void> {
+    await this.updatePlugin(pluginId, { enabled });
+    AuditService.getInstance().log('settings_change', `Plugin ${pluginId} ${enabled ? 'enabled' : 'disabled'}`, {
+      metadata: { pluginId, enabled },
+    });
+  }
+
+  async revokePermissions(pluginId: string): Promise<void> {
+    await this.updatePlugin(pluginId, { grantedPermissions: [] });
+    AuditService.getInstance().log('settings_change', `Permissions revoked for plugin ${pluginId}`, {
+      metadata: { pluginId },
+    });
+  }
+
+  /**
+   * Find the enabled plugin whose intent phrase opens the utterance, after any leading words such
+   * as « monVOX » or « s'il te plaît »; longer phrases win. An intent later in a sentence is left
+   * to the model, so « À quelle heure ferme l'épicerie ? » is not answered with the time.
+   */
+  async matchIntent(utterance: string): Promise<PluginIntentMatch | null> {
+    await this.loadPlugins();
+    const normalized = normalizeText(utterance);
+    let best: (PluginIntentMatch & { length: number }) | null = null;
+
+    for (const plugin of this.installed.values()) {
+      if (!plugin.enabled || !this.definitions.has(plugin.id)) continue;
+
+      for (const intent of plugin.intents) {
+        const words = normalizeText(intent).trim().split(/\s+/);
+        const match = new RegExp(`${LEADING_WORDS_PATTERN}${words.join('\\s+')}(?=\\s|$)`).exec(normalized);
+        if (!match || (best && best.length >= words.length)) continue;
+
+        best = {
+          plugin,
+          length: words.length,
+          invocation: {
+            utterance,
+            intent,
+            argument: utterance.slice(match.index + match[0].length).replace(/^[\s,:;.!?-]+/, '').trim(),
+          },
+        };
+      }
+    }
+
+    return best && { plugin: best.plugin, invocation: best.invocation };
+  }
+
+  /**
+   * Run the plugin matching an utterance, if any
+   * @returns The plugin's answer, or null when no plugin handles the utterance
+   */
+  async handleUtterance(utterance: string): Promise<string | null> {
+    const match = await this.matchIntent(utterance);
+    if (!match) {
+      return null;
+    }
+
+    const { plugin, invocation } = match;
+    if (!(await this.ensurePermissions(plugin))) {
+      return `Le plugin « ${plugin.name} » n'a pas été exécuté : permissions refusées.`;
+    }
+
+    const startTime = Date.now();
+    try {
+      const response = await this.definitions.get(plugin.id)!.execute(invocation);
+      AuditService.getInstance().log(
+        'plugin_executed',
+        `Plugin ${plugin.id} handled intent "${invocation.intent}" in ${Date.now() - startTime}ms`,
+        { metadata: { pluginId: plugin.id, intent: invocation.intent, durationMs: Date.now() - startTime } }
+      );
+      return response;
+    } catch (error) {
+      AuditService.getInstance().log('plugin_executed', `Plugin ${plugin.id} failed: ${error}`, {
+        severity: 'medium',
+        metadata: { pluginId: plugin.id, intent: invocation.intent },
+      });
+      console.error(`Plugin ${plugin.id} failed:`, error);
+      return `Le plugin « ${plugin.name} » a rencontré une erreur.`;
+    }
+  }
+
+  async clearAll(): Promise<void> {
+    this.installed.clear();
+    try {
+      await AsyncStorage.removeItem(INSTALLED_PLUGINS_KEY);
+    } catch (error) {
+      console.error('Failed to clear plugins:', error);
+    }
+  }
+
+  /**
+   * Ask for the permissions the plugin declares but has not been granted yet
+   */
+  private async ensurePermissions(plugin: InstalledPlugin): Promise<boolean> {
+    const missing = plugin.permissions.filter(permission => !plugin.grantedPermissions.includes(permission));
+    if (missing.length === 0) {
+      return true;
+    }
+
+    let granted = false;
+    if (this.consentPrompt) {
+      try {
+        granted = await this.consentPrompt({ plugin, permissions: missing });
+      } catch (error) {
+        console.error('Consent prompt failed:', error);
+      }
+    }
+
+    if (!granted) {
+      AuditService.getInstance().log('consent_denied', `Plugin ${plugin.id} denied: ${missing.join(', ')}`, {
+        metadata: { pluginId: plugin.id, permissions: missing },
+      });
+      return false;
+    }
+
+    await this.updatePlugin(plugin.id, { grantedPermissions: [...plugin.grantedPermissions, ...missing] });
+    AuditService.getInstance().log('consent_granted', `Plugin ${plugin.id} granted: ${missing.join(', ')}`, {
+      metadata: { pluginId: plugin.id, permissions: missing },
+    });
+    return true;
+  }
+
+  private async updatePlugin(pluginId: string, changes: Partial<InstalledPlugin>): Promise<void> {
+    await this.loadPlugins();
+    const plugin = this.installed.get(pluginId);
+    if (!plugin) {
+      throw new Error(`Plugin ${pluginId} is not installed`);
+    }
+    this.installed.set(pluginId, { ...plugin, ...changes });
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(INSTALLED_PLUGINS_KEY, JSON.stringify(Array.from(this.installed.values())));
+    } catch (error) {
+      console.error('Failed to save plugins:', error);
+    }
+  }
+}
+
+export default PluginService;
@@ -0,0 +1,399 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import FeatureFlagService, { FeatureFlags } from './FeatureFlagService';
+import { AuditService } from './AuditService';
+import EgressGuard from './EgressGuard';
+import { estimateContentTokens } from './Tokenizer';
+import { LLMFactory, LLMProvider, LLMProviderType, LocalEndpointProvider } from './LLMProvider';
+import { AIMediaType, AIMessage } from '../types/ai';
+import { getMediaTypes } from '../api/message-format';
+
+export type RoutableProviderType = Exclude<LLMProviderType, 'auto'>;
+
+// standard: any provider; sensitive: stays on the user's network; private: stays on the device
+export type PrivacyLevel = 'standard' | 'sensitive' | 'private';
+
+export interface RoutingPolicy {
+  // Tie-break order between eligible providers
+  preferredProviders: RoutableProviderType[];
+  defaultPrivacyLevel: PrivacyLevel;
+  // Providers slower or less reliable than this are tried after the others
+  maxLatencyMs: number;
+  maxErrorRate: number;
+  // 0 disables the budget
+  dailyBudgetUsd: number;
+  costPer1kTokensUsd: Record<RoutableProviderType, number>;
+  contextWindows: Record<RoutableProviderType, number>;
+}
+
+export interface RoutingRequest {
+  messages: AIMessage[];
+  maxTokens?: number;
+  privacyLevel?: PrivacyLevel;
+}
+
+export interface RoutingDecision {
+  providerType: RoutableProviderType;
+  provider: LLMProvider;
+  fallbacks: LLMProvider[];
+  privacyLevel: PrivacyLevel;
+  estimatedTokens: number;
+  reasons: string[];
+  rejected: Array<{ providerType: RoutableProviderType; reason: string }>;
+  timestamp: number;
+}
+
+export interface ProviderStats {
+  requests: number;
+  failures: number;
+  // Exponential moving averages, so recent requests weigh more
+  averageLatencyMs: number;
+  errorRate: number;
+}
+
+interface NetworkState {
+  isConnected: boolean;
+  isInternetReachable: boolean;
+}
+
+interface DailySpend {
+  date: string;
+  usd: number;
+}
+
+export const DEFAULT_ROUTING_POLICY: RoutingPolicy = {
+  preferredProviders: ['anthropic', 'openai', 'local_endpoint', 'local', 'grok'],
+  defaultPrivacyLevel: 'standard',
+  maxLatencyMs: 15000,
+  maxErrorRate: 0.5,
+  dailyBudgetUsd: 0,
+  costPer1kTokensUsd: {
+    anthropic: 0.009,
+    openai: 0.006,
+    grok: 0.006,
+    local_endpoint: 0,
+    local: 0,
+  },
+  contextWindows: {
+    anthropic: 200000,
+    openai: 128000,
+    grok: 131072,
+    local_endpoint: 8192,
+    local: 4096,
+  },
+};
+
+const ROUTING_POLICY_KEY = 'provider_routing_policy';
+const DAILY_SPEND_KEY = 'provider_routing_spend';
+const ROUTABLE_PROVIDERS: RoutableProviderType[] = ['anthropic', 'openai', 'grok', 'local_endpoint', 'local'];
+const PRIVACY_RANK: Record<PrivacyLevel, number> = { standard: 0, sensitive: 1, private: 2 };
+const STATS_SMOOTHING = 0.3;
+const MIN_SAMPLES_FOR_HEALTH = 3;
+
+/**
+ * Selects the provider chain for each request from the conversation's privacy level, prompt size,
+ * measured provider health, cost budget and network availability.
+ * Every decision carries the reasons behind it and is written to the audit log.
+ */
+class ProviderRouter {
+  private static instance: ProviderRouter;
+  private policy: RoutingPolicy = DEFAULT_ROUTING_POLICY;
+  private stats: Map<RoutableProviderType, ProviderStats> = new Map();
+  private spend: DailySpend = { date: '', usd: 0 };
+  private network: NetworkState = { isConnected: true, isInternetReachable: true };
+  private lastDecision: RoutingDecision | null = null;
+  private loaded = false;
+
+  public static getInstance(): ProviderRouter {
+    if (!ProviderRouter.instance) {
+      ProviderRouter.instance = new ProviderRouter();
+    }
+    return ProviderRouter.instance;
+  }
+
+  private constructor() {}
+
+  async loadPolicy(): Promise<RoutingPolicy> {
+    if (this.loaded) return this.policy;
+
+    try {
+      const [storedPolicy, storedSpend] = await Promise.all([
+        AsyncStorage.getItem(ROUTING_POLICY_KEY),
+        AsyncStorage.getItem(DAILY_SPEND_KEY),
+      ]);
+      if (storedPolicy) {
+        this.policy = this.mergePolicy(JSON.parse(storedPolicy));
+      }
+      if (storedSpend) {
+        this.spend = JSON.parse(storedSpend);
+      }
+    } catch (error) {
+      console.error('Failed to load routing policy:', error);
+    }
+
+    this.loaded = true;
+    return this.policy;
+  }
+
+  getPolicy(): RoutingPolicy {
+    return this.policy;
+  }
+
+  async updatePolicy(changes: Partial<RoutingPolicy>): Promise<RoutingPolicy> {
+    await this.loadPolicy();
+    this.policy = this.mergePolicy({ ...this.policy, ...changes });
+
+    try {
+      await AsyncStorage.setItem(ROUTING_POLICY_KEY, JSON.stringify(this.policy));
+    } catch (error) {
+      console.error('Failed to save routing policy:', error);
+    }
+
+    AuditService.getInstance().log('settings_change', `Routing policy updated: ${Object.keys(changes).join(', ')}`);
+    return this.policy;
+  }
+
+  async resetPolicy(): Promise<RoutingPolicy> {
+    this.policy = DEFAULT_ROUTING_POLICY;
+    await AsyncStorage.removeItem(ROUTING_POLICY_KEY);
+    AuditService.getInstance().log('settings_change', 'Routing policy reset to defaults');
+    return this.policy;
+  }
+
+  /**
+   * Route a request, refreshing network state first, and audit the decision
+   */
+  async route(request: RoutingRequest): Promise<RoutingDecision> {
+    await this.loadPolicy();
+    await this.refreshNetworkState();
+
+    const decision = this.evaluate(request);
+    this.lastDecision = decision;
+    AuditService.getInstance().log('llm_routing', this.explain(decision), {
+      metadata: { providerType: decision.providerType, privacyLevel: decision.privacyLevel },
+    });
+    return decision;
+  }
+
+  /**
+   * Provider the policy would pick right now for an empty conversation, without side effects
+   */
+  peekProvider(): LLMProvider {
+    return this.evaluate({ messages: [] }).provider;
+  }
+
+  getLastDecision(): RoutingDecision | null {
+    return this.lastDecision;
+  }
+
+  getStats(): Record<string, ProviderStats> {
+    return Object.fromEntries(this.stats);
+  }
+
+  getDailySpend(): number {
+    return this.spend.date === this.today() ? this.spend.usd : 0;
+  }
+
+  /**
+   * Feed the outcome of a request back into latency, error rate and spend tracking
+   */
+  recordOutcome(provider: LLMProvider, outcome: { success: boolean; latencyMs: number; totalTokens?: number }): void {
+    const providerType = this.getProviderType(provider);
+    if (!providerType) return;
+
+    const previous = this.stats.get(providerType);
+    const errorSample = outcome.success ? 0 : 1;
+    this.stats.set(providerType, {
+      requests: (previous?.requests || 0) + 1,
+      failures: (previous?.failures || 0) + errorSample,
+      averageLatencyMs: previous && outcome.success
+        ? previous.averageLatencyMs + STATS_SMOOTHING * (outcome.latencyMs - previous.averageLatencyMs)
+        : previous?.averageLatencyMs || outcome.latencyMs,
+      errorRate: previous
+        ? previous.errorRate + STATS_SMOOTHING * (errorSample - previous.errorRate)
+        : errorSample,
+    });
+
+    const cost = ((outcome.totalTokens || 0) / 1000) * this.policy.costPer1kTokensUsd[providerType];
+    if (cost > 0) {
+      this.spend = { date: this.today(), usd: this.getDailySpend() + cost };
+      AsyncStorage.setItem(DAILY_SPEND_KEY, JSON.stringify(this.spend)).catch(error => {
+        console.error('Failed to save routing spend:', error);
+      });
+    }
+  }
+
+  explain(decision: RoutingDecision): string {
+    const skipped = decision.rejected.map(r => `${r.providerType}: ${r.reason}`).join('; ');
+    return [
+      `${decision.providerType} selected (${decision.reasons.join('; ')})`,
+      `privacy=${decision.privacyLevel}, ~${decision.estimatedTokens} tokens`,
+      skipped && `skipped ${skipped}`,
+    ].filter(Boolean).join(' | ');
+  }
+
+  private evaluate(request: RoutingRequest): RoutingDecision {
+    const flags = FeatureFlagService.getInstance();
+    const reasons: string[] = [];
+    const rejected: RoutingDecision['rejected'] = [];
+
+    let privacyLevel = request.privacyLevel || this.policy.defaultPrivacyLevel;
+    if (flags.isEnabled(FeatureFlags.STRICT_LOCAL_MODE) && PRIVACY_RANK[privacyLevel] < PRIVACY_RANK.sensitive) {
+      privacyLevel = 'sensitive';
+      reasons.push('strict local mode');
+    }
+
+    const promptTokens = request.messages.reduce((sum, m) => sum + estimateContentTokens(m.content), 0);
+    const mediaTypes = getMediaTypes(request.messages);
+    const estimatedTokens = promptTokens + (request.maxTokens || 1024);
+
+    const order = [
+      ...this.policy.preferredProviders,
+      ...ROUTABLE_PROVIDERS.filter(type => !this.policy.preferredProviders.includes(type)),
+    ];
+    if (flags.isEnabled(FeatureFlags.LOCAL_LLM)) {
+      order.splice(order.indexOf('local'), 1);
+      order.unshift('local');
+      reasons.push('on-device LLM enabled');
+    }
+
+    const healthy: RoutableProviderType[] = [];
+    const degraded: RoutableProviderType[] = [];
+
+    for (const providerType of order) {
+      const rejection = this.checkEligibility(providerType, privacyLevel, estimatedTokens, mediaTypes);
+      if (rejection) {
+        rejected.push({ providerType, reason: rejection });
+        continue;
+      }
+
+      const stats = this.stats.get(providerType);
+      if (stats && stats.requests >= MIN_SAMPLES_FOR_HEALTH &&
+          (stats.errorRate > this.policy.maxErrorRate || stats.averageLatencyMs > this.policy.maxLatencyMs)) {
+        degraded.push(providerType);
+      } else {
+        healthy.push(providerType);
+      }
+    }
+
+    const chain = [...healthy, ...degraded];
+    let providerType = chain[0];
+    if (!providerType) {
+      // The on-device model is the last resort: it needs no network and has no cost
+      providerType = 'local';
+      reasons.push('no eligible provider, using on-device model');
+    } else if (degraded.includes(providerType)) {
+      reasons.push('all eligible providers degraded');
+    } else {
+      reasons.push(healthy.length > 1 ? `preferred over ${healthy.slice(1).join(', ')}` : 'only eligible provider');
+    }
+    if (degraded.length > 0 && providerType !== degraded[0]) {
+      reasons.push(`deprioritized ${degraded.join(', ')} (latency/errors)`);
+    }
+
+    return {
+      providerType,
+      provider: LLMFactory.getProvider(providerType),
+      fallbacks: chain.filter(type => type !== providerType).map(type => LLMFactory.getProvider(type)),
+      privacyLevel,
+      estimatedTokens,
+      reasons,
+      rejected,
+      timestamp: Date.now(),
+    };
+  }
+
+  private checkEligibility(
+    providerType: RoutableProviderType,
+    privacyLevel: PrivacyLevel,
+    estimatedTokens: number,
+    mediaTypes: AIMediaType[]
+  ): string | null {
+    const provider = LLMFactory.getProvider(providerType);
+    const isOnNetwork = providerType === 'local_endpoint';
+    const unreadable = mediaTypes.find(type => !provider.media[type]);
+
+    if (privacyLevel === 'private' && (!provider.isLocal || isOnNetwork)) {
+      return 'privacy level requires on-device processing';
+    }
+    if (privacyLevel === 'sensitive' && !provider.isLocal) {
+      return 'privacy level forbids cloud providers';
+    }
+    if (unreadable) {
+      return `cannot read ${unreadable}`;
+    }
+    if (providerType === 'grok' && !FeatureFlagService.getInstance().isEnabled(FeatureFlags.GROK_FALLBACK)) {
+      return 'disabled';
+    }
+    if (isOnNetwork) {
+      const config = (provider as LocalEndpointProvider).getConfig();
+      if (!config?.baseUrl) {
+        return 'not configured';
+      }
+      if (!EgressGuard.getInstance().isAllowed({ destination: 'local_network', target: config.baseUrl })) {
+        return 'address outside the local network';
+      }
+    }
+
+    if (provider.requiresNetwork) {
+      if (!this.network.isConnected) {
+        return 'offline';
+      }
+      if (!isOnNetwork && !this.network.isInternetReachable) {
+        return 'internet unreachable';
+      }
+    }
+
+    if (estimatedTokens > this.getContextWindow(providerType)) {
+      return `prompt exceeds ${this.getContextWindow(providerType)} token context`;
+    }
+
+    const cost = (estimatedTokens / 1000) * this.policy.costPer1kTokensUsd[providerType];
+    if (this.policy.dailyBudgetUsd > 0 && cost > 0 && this.getDailySpend() + cost > this.policy.dailyBudgetUsd) {
+      return 'daily budget exhausted';
+    }
+
+    return null;
+  }
+
+  private getContextWindow(providerType: RoutableProviderType): number {
+    if (providerType === 'local') {
+      return LLMFactory.getProvider('local').getContextLimit();
+    }
+    return this.policy.contextWindows[providerType];
+  }
+
+  private getProviderType(provider: LLMProvider): RoutableProviderType | undefined {
+    return ROUTABLE_PROVIDERS.find(type => LLMFactory.getProvider(type) === provider);
+  }
+
+  private async refreshNetworkState(): Promise<void> {
+    try {
+      const state = await NetInfo.fetch();
+      this.network = {
+        isConnected: state.isConnected !== false,
+        // null means "not determined yet", which should not block cloud providers
+        isInternetReachable: state.isInternetReachable !== false,
+      };
+    } catch (error) {
+      console.warn('Failed to read network state:', error);
+    }
+  }
+
+  private mergePolicy(policy: Partial<RoutingPolicy>): RoutingPolicy {
+    return {
+      ...DEFAULT_ROUTING_POLICY,
+      ...policy,
+      preferredProviders: (policy.preferredProviders || DEFAULT_ROUTING_POLICY.preferredProviders)
+        .filter(type => ROUTABLE_PROVIDERS.includes(type)),
+      costPer1kTokensUsd: { ...DEFAULT_ROUTING_POLICY.costPer1kTokensUsd, ...policy.costPer1kTokensUsd },
+      contextWindows: { ...DEFAULT_ROUTING_POLICY.contextWindows, ...policy.contextWindows },
+    };
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+}
+
+export default ProviderRouter;
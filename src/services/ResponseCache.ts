@@ -0,0 +1,308 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SQLite from 'expo-sqlite';
+import * as Crypto from 'expo-crypto';
+import SecretsManager from './SecretsManager';
+import PerformanceMonitor from './PerformanceMonitor';
+import { AuditService } from './AuditService';
+import { LLMOptions, LLMResponse } from './LLMProvider';
+import { AIMessage } from '../types/ai';
+import { getMediaTypes, getMessageText } from '../api/message-format';
+import { LRUCache } from '../utils/performance';
+import { decryptString, encryptString } from '../utils/crypto';
+
+export interface ResponseCacheConfig {
+  enabled: boolean;
+  ttlMs: number;
+  maxEntries: number;
+  // Total size of the encrypted payloads on disk
+  maxBytes: number;
+  // Provider names (LLMProvider.name) whose responses are never cached
+  disabledProviders: string[];
+  // Sampling above temperature 0 gives a different answer each time, so caching it is opt-in
+  allowNonZeroTemperature: boolean;
+}
+
+export const DEFAULT_RESPONSE_CACHE_CONFIG: ResponseCacheConfig = {
+  enabled: true,
+  ttlMs: 24 * 60 * 60 * 1000, // 24 hours
+  maxEntries: 500,
+  maxBytes: 5 * 1024 * 1024, // 5 MB
+  disabledProviders: [],
+  allowNonZeroTemperature: false,
+};
+
+// Temperature the providers use when the request does not set one
+const DEFAULT_TEMPERATURE = 0.7;
+const RESPONSE_CACHE_CONFIG_KEY = 'response_cache_config';
+
+interface CachedResponse {
+  response: LLMResponse;
+  expiresAt: number;
+}
+
+/**
+ * Persistent cache of LLM responses: an in-memory LRU in front of an SQLite table
+ * whose payloads are encrypted with a device key held in the keychain.
+ */
+class ResponseCache {
+  private static instance: ResponseCache;
+  private db: SQLite.SQLiteDatabase | null = null;
+  private memory = new LRUCache<string, CachedResponse>(50);
+  private config: ResponseCacheConfig = DEFAULT_RESPONSE_CACHE_CONFIG;
+  private configLoaded = false;
+
+  public static getInstance(): ResponseCache {
+    if (!ResponseCache.instance) {
+      ResponseCache.instance = new ResponseCache();
+    }
+    return ResponseCache.instance;
+  }
+
+  private constructor() {}
+
+  private async initialize(): Promise<void> {
+    try {
+      this.db = await SQLite.openDatabaseAsync('mongars_response_cache.db');
+
+      await this.db.execAsync(`
+        PRAGMA journal_mode = WAL;
+        CREATE TABLE IF NOT EXISTS response_cache (
+          key TEXT PRIMARY KEY,
+          provider TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          created_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL,
+          last_accessed INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_response_cache_accessed ON response_cache(last_accessed);
+      `);
+    } catch (error) {
+      console.error('Failed to initialize response cache database:', error);
+    }
+  }
+
+  async loadConfig(): Promise<ResponseCacheConfig> {
+    if (this.configLoaded) return this.config;
+
+    try {
+      const stored = await AsyncStorage.getItem(RESPONSE_CACHE_CONFIG_KEY);
+      if (stored) {
+        this.config = { ...DEFAULT_RESPONSE_CACHE_CONFIG, ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.error('Failed to load response cache config:', error);
+    }
+
+    this.configLoaded = true;
+    return this.config;
+  }
+
+  async updateConfig(changes: Partial<ResponseCacheConfig>): Promise<ResponseCacheConfig> {
+    await this.loadConfig();
+    this.config = { ...this.config, ...changes };
+
+    try {
+      await AsyncStorage.setItem(RESPONSE_CACHE_CONFIG_KEY, JSON.stringify(this.config));
+    } catch (error) {
+      console.error('Failed to save response cache config:', error);
+    }
+
+    AuditService.getInstance().log('settings_change', `Response cache settings updated: ${Object.keys(changes).join(', ')}`);
+    await this.enforceLimits();
+    return this.config;
+  }
+
+  isCacheable(providerName: string, messages: AIMessage[], options?: LLMOptions): boolean {
+    if (!this.config.enabled || this.config.disabledProviders.includes(providerName)) {
+      return false;
+    }
+    // Questions about a photo are rarely asked twice, and its data would be hashed on every lookup
+    if (getMediaTypes(messages).length > 0) {
+      return false;
+    }
+    // Tools read the current state (date, memories), so the same question can need a new answer
+    if (options?.tools?.length) {
+      return false;
+    }
+    return (options?.temperature ?? DEFAULT_TEMPERATURE) === 0 || this.config.allowNonZeroTemperature;
+  }
+
+  /**
+   * Look up a response; records a hit or miss for every cacheable request
+   */
+  async get(providerName: string, messages: AIMessage[], options?: LLMOptions): Promise<LLMResponse | null> {
+    await this.loadConfig();
+    if (!this.isCacheable(providerName, messages, options)) {
+      return null;
+    }
+
+    const startTime = Date.now();
+    const key = await this.buildKey(providerName, messages, options);
+    let cached = this.memory.get(key);
+
+    if (!cached || cached.expiresAt <= Date.now()) {
+      cached = (await this.readEntry(key)) || undefined;
+    }
+
+    PerformanceMonitor.getInstance().recordCacheLookup(!!cached);
+    if (!cached) {
+      return null;
+    }
+
+    return {
+      ...cached.response,
+      isFromCache: true,
+      processingTime: Date.now() - startTime,
+    };
+  }
+
+  async set(providerName: string, messages: AIMessage[], options: LLMOptions | undefined, response: LLMResponse): Promise<void> {
+    await this.loadConfig();
+    if (!this.isCacheable(providerName, messages, options) || response.isFromCache) {
+      return;
+    }
+
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    try {
+      const key = await this.buildKey(providerName, messages, options);
+      const now = Date.now();
+      const entry: CachedResponse = { response, expiresAt: now + this.config.ttlMs };
+      const encryptionKey = await SecretsManager.getInstance().getOrCreateEncryptionKey('response_cache');
+      const payload = encryptString(JSON.stringify(response), encryptionKey);
+
+      await this.db!.runAsync(
+        `INSERT OR REPLACE INTO response_cache (key, provider, payload, size, created_at, expires_at, last_accessed)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [key, providerName, payload, payload.length, now, entry.expiresAt, now]
+      );
+      this.memory.set(key, entry);
+
+      await this.enforceLimits();
+    } catch (error) {
+      console.error('Failed to cache response:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    try {
+      await this.db!.runAsync('DELETE FROM response_cache');
+      AuditService.getInstance().log('settings_change', 'Response cache cleared');
+    } catch (error) {
+      console.error('Failed to clear response cache:', error);
+    }
+  }
+
+  async getStats(): Promise<{ entries: number; sizeBytes: number }> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    try {
+      const result = await this.db!.getFirstAsync(
+        'SELECT COUNT(*) as count, COALESCE(SUM(size), 0) as size FROM response_cache WHERE expires_at > ?',
+        [Date.now()]
+      );
+      return {
+        entries: (result as any)?.count || 0,
+        sizeBytes: (result as any)?.size || 0,
+      };
+    } catch (error) {
+      console.error('Failed to get response cache stats:', error);
+      return { entries: 0, sizeBytes: 0 };
+    }
+  }
+
+  private async readEntry(key: string): Promise<CachedResponse | null> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    try {
+      const now = Date.now();
+      const row = await this.db!.getFirstAsync(
+        'SELECT payload, expires_at FROM response_cache WHERE key = ? AND expires_at > ?',
+        [key, now]
+      );
+      if (!row) return null;
+
+      const encryptionKey = await SecretsManager.getInstance().getOrCreateEncryptionKey('response_cache');
+      const entry: CachedResponse = {
+        response: JSON.parse(decryptString((row as any).payload, encryptionKey)),
+        expiresAt: (row as any).expires_at,
+      };
+
+      await this.db!.runAsync('UPDATE response_cache SET last_accessed = ? WHERE key = ?', [now, key]);
+      this.memory.set(key, entry);
+      return entry;
+    } catch (error) {
+      // An entry that no longer decrypts (key reset, corruption) is simply dropped
+      console.warn('Failed to read cached response:', error);
+      await this.db!.runAsync('DELETE FROM response_cache WHERE key = ?', [key]).catch(() => {});
+      return null;
+    }
+  }
+
+  /**
+   * Drop expired entries, then the least recently used ones until both limits are met
+   */
+  private async enforceLimits(): Promise<void> {
+    if (!this.db) return;
+
+    try {
+      await this.db.runAsync('DELETE FROM response_cache WHERE expires_at <= ?', [Date.now()]);
+
+      const rows = await this.db.getAllAsync(
+        'SELECT key, size FROM response_cache ORDER BY last_accessed DESC'
+      );
+
+      let totalBytes = 0;
+      const evicted: string[] = [];
+      rows.forEach((row: any, index: number) => {
+        totalBytes += row.size;
+        if (index >= this.config.maxEntries || totalBytes > this.config.maxBytes) {
+          evicted.push(row.key);
+        }
+      });
+
+      for (const key of evicted) {
+        await this.db.runAsync('DELETE FROM response_cache WHERE key = ?', [key]);
+      }
+      if (evicted.length > 0) {
+        this.memory.clear();
+      }
+    } catch (error) {
+      console.error('Failed to enforce response cache limits:', error);
+    }
+  }
+
+  // Whitespace and casing of roles do not change the answer, so they do not split the cache
+  private async buildKey(providerName: string, messages: AIMessage[], options?: LLMOptions): Promise<string> {
+    const normalized = {
+      provider: providerName,
+      model: options?.model || null,
+      temperature: options?.temperature ?? DEFAULT_TEMPERATURE,
+      maxTokens: options?.maxTokens || null,
+      systemPrompt: options?.systemPrompt?.trim() || null,
+      summary: options?.conversationSummary?.content || null,
+      messages: messages.map(message => [message.role.toLowerCase(), getMessageText(message.content).trim().replace(/\s+/g, ' ')]),
+    };
+
+    return await Crypto.digestStringAsync(
+      Crypto.CryptoDigestAlgorithm.SHA256,
+      JSON.stringify(normalized),
+      { encoding: Crypto.CryptoEncoding.HEX }
+    );
+  }
+}
+
+export default ResponseCache;
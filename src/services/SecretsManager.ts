@@ -1,6 +1,13 @@
 import * as Keychain from 'react-native-keychain';
 import * as Crypto from 'expo-crypto';
 import { AuditService } from './AuditService';
+import EgressGuard from './EgressGuard';
+import { decryptString, encryptString, generateEncryptionKey } from '../utils/crypto';
+import { base64ToBytes, bytesToBase64, bytesToUtf8 } from '../utils/encoding';
+
+// Version tag of stored credentials: AES-256-GCM with a keychain key. Older entries have no
+// tag (base64 never contains ':') and were XOR-obfuscated with a hash of the device ID.
+const CREDENTIALS_ENVELOPE_V2 = 'v2:';
 
 // Tier 1: Build-time, non-sensitive configuration
 export const AppConfig = {
@@ -23,6 +30,13 @@ export interface UserCredentials {
   };
 }
 
+export class SecretsDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretsDecryptionError';
+  }
+}
+
 // Tier 3: Application secrets (handled via backend proxy)
 export interface BackendProxyRequest {
   provider: 'openai' | 'anthropic' | 'grok';
@@ -49,6 +63,11 @@ class SecretsManager {
   private keyPrefix = 'mongars_';
   private sessionToken: string | null = null;
   private sessionExpiry: number | null = null;
+  private encryptionKeys: Map<string, Promise<Uint8Array>> = new Map();
+  // Keys created by this launch, which cannot have encrypted anything stored before it
+  private createdEncryptionKeys: Set<string> = new Set();
+  // Updates of the list of key names are applied one at a time
+  private keyNamesQueue: Promise<void> = Promise.resolve();
 
   public static getInstance(): SecretsManager {
     if (!SecretsManager.instance) {
@@ -77,7 +96,7 @@ class SecretsManager {
       return true;
     } catch (error) {
       console.error('Failed to store user credentials:', error);
-      AuditService.getInstance().log('auth_failed', `Failed to store credentials: ${error}`);
+      AuditService.getInstance().log('app_error', `Failed to store credentials: ${error}`);
       return false;
     }
   }
@@ -90,15 +109,23 @@ class SecretsManager {
         return null;
       }
 
-      // Decrypt the credentials
-      const decryptedData = await this.decryptData(credentials.password);
-      const userCredentials = JSON.parse(decryptedData) as UserCredentials;
+      let userCredentials: UserCredentials;
+      if (credentials.password.startsWith(CREDENTIALS_ENVELOPE_V2)) {
+        userCredentials = JSON.parse(await this.decryptData(credentials.password)) as UserCredentials;
+      } else {
+        // Re-stored with the current scheme so the legacy format is read only once
+        userCredentials = await this.readLegacyCredentials(credentials.password);
+        if (!(await this.storeUserCredentials(userCredentials))) {
+          throw new Error('Failed to migrate legacy credentials');
+        }
+        AuditService.getInstance().log('settings_change', 'User credentials migrated to authenticated encryption');
+      }
 
       AuditService.getInstance().log('auth_success', 'User credentials retrieved');
       return userCredentials;
     } catch (error) {
       console.error('Failed to retrieve user credentials:', error);
-      AuditService.getInstance().log('auth_failed', `Failed to retrieve credentials: ${error}`);
+      AuditService.getInstance().log('app_error', `Failed to retrieve credentials: ${error}`);
       return null;
     }
   }
@@ -113,8 +140,80 @@ class SecretsManager {
     }
   }
 
+  // Tier 2: Data encryption keys, generated on the device and kept in the keychain
+  async getOrCreateEncryptionKey(name: string): Promise<Uint8Array> {
+    // Share the pending lookup so concurrent callers cannot each create a different key
+    let key = this.encryptionKeys.get(name);
+    if (!key) {
+      key = this.loadOrCreateEncryptionKey(name);
+      this.encryptionKeys.set(name, key);
+      key.catch(() => this.encryptionKeys.delete(name));
+    }
+    return key;
+  }
+
+  private async loadOrCreateEncryptionKey(name: string): Promise<Uint8Array> {
+    const server = `${this.keyPrefix}${name}_key`;
+    const stored = await Keychain.getInternetCredentials(server);
+
+    // Keys created before their names were recorded are recorded when next loaded
+    await this.recordEncryptionKeyName(name);
+
+    if (stored && typeof stored !== 'boolean') {
+      return base64ToBytes(stored.password);
+    }
+
+    const key = generateEncryptionKey();
+    await Keychain.setInternetCredentials(server, 'key', bytesToBase64(key));
+    this.createdEncryptionKeys.add(name);
+    AuditService.getInstance().log('settings_change', `Encryption key created: ${name}`, { metadata: { key: name } });
+    return key;
+  }
+
+  /**
+   * Whether the key was created by this launch rather than found in the keychain, e.g. because
+   * an emergency wipe removed the previous one
+   */
+  isNewEncryptionKey(name: string): boolean {
+    return this.createdEncryptionKeys.has(name);
+  }
+
+  // Names of the keys in the keychain, so that an emergency wipe can find every one of them
+  private async getEncryptionKeyNames(): Promise<string[]> {
+    const stored = await Keychain.getInternetCredentials(`${this.keyPrefix}encryption_key_names`);
+    return stored && typeof stored !== 'boolean' ? JSON.parse(stored.password) : [];
+  }
+
+  private recordEncryptionKeyName(name: string): Promise<void> {
+    const update = this.keyNamesQueue.then(async () => {
+      const names = await this.getEncryptionKeyNames();
+      if (!names.includes(name)) {
+        await Keychain.setInternetCredentials(
+          `${this.keyPrefix}encryption_key_names`,
+          'keys',
+          JSON.stringify([...names, name])
+        );
+      }
+    });
+    this.keyNamesQueue = update.catch(() => undefined);
+    return update;
+  }
+
+  // Tier 2: Small values kept in the keychain, out of reach of whoever can edit the databases
+  async getSecureValue(name: string): Promise<string | null> {
+    const stored = await Keychain.getInternetCredentials(`${this.keyPrefix}${name}`);
+    return stored && typeof stored !== 'boolean' ? stored.password : null;
+  }
+
+  async setSecureValue(name: string, value: string): Promise<void> {
+    await Keychain.setInternetCredentials(`${this.keyPrefix}${name}`, 'value', value);
+  }
+
   // Tier 3: Backend proxy for application secrets
   async callSecureAPI(request: BackendProxyRequest): Promise<BackendProxyResponse> {
+    // Thrown rather than returned so callers cannot mistake a refusal for a backend outage
+    EgressGuard.getInstance().assertAllowed({ destination: 'backend_proxy', target: AppConfig.API_BASE_URL });
+
     try {
       // Ensure we have a valid session token
       await this.ensureValidSession();
@@ -143,7 +242,9 @@ class SecretsManager {
 
       const data = await response.json();
       
-      AuditService.getInstance().log('memory_write', `Secure API call to ${request.provider} via proxy`);
+      AuditService.getInstance().log('api_call', `Secure API call to ${request.provider} via proxy`, {
+        metadata: { provider: request.provider, endpoint: request.endpoint },
+      });
       
       return {
         success: true,
@@ -153,7 +254,9 @@ class SecretsManager {
 
     } catch (error) {
       console.error('Secure API call failed:', error);
-      AuditService.getInstance().log('auth_failed', `Proxy API call failed: ${error}`);
+      AuditService.getInstance().log('api_error', `Proxy API call failed: ${error}`, {
+        metadata: { provider: request.provider, endpoint: request.endpoint },
+      });
       
       return {
         success: false,
@@ -242,45 +345,46 @@ class SecretsManager {
     }
   }
 
-  // Encryption helpers for Tier 2 storage
+  // Encryption helpers for Tier 2 storage; failures throw rather than store or return plaintext
   private async encryptData(data: string): Promise<string> {
-    try {
-      // In a production environment, you would use a more sophisticated encryption scheme
-      // For now, we'll use a simple base64 encoding with a device-specific salt
-      const deviceId = await this.getDeviceId();
-      const salt = await Crypto.digestStringAsync(
-        Crypto.CryptoDigestAlgorithm.SHA256,
-        deviceId
-      );
-      
-      // Simple XOR encryption with salt (not cryptographically secure, but better than plaintext)
-      const encrypted = this.xorEncrypt(data, salt);
-      return Buffer.from(encrypted).toString('base64');
-    } catch (error) {
-      console.error('Encryption failed:', error);
-      // Fallback to base64 encoding
-      return Buffer.from(data).toString('base64');
-    }
+    const key = await this.getOrCreateEncryptionKey('credentials');
+    return CREDENTIALS_ENVELOPE_V2 + encryptString(data, key);
   }
 
   private async decryptData(encryptedData: string): Promise<string> {
+    const key = await this.getOrCreateEncryptionKey('credentials');
     try {
-      const decoded = Buffer.from(encryptedData, 'base64').toString();
-      const deviceId = await this.getDeviceId();
-      const salt = await Crypto.digestStringAsync(
-        Crypto.CryptoDigestAlgorithm.SHA256,
-        deviceId
-      );
-      
-      return this.xorEncrypt(decoded, salt); // XOR is symmetric
+      return decryptString(encryptedData.slice(CREDENTIALS_ENVELOPE_V2.length), key);
     } catch (error) {
-      console.error('Decryption failed:', error);
-      // Fallback to base64 decoding
-      return Buffer.from(encryptedData, 'base64').toString();
+      throw new SecretsDecryptionError(`Stored credentials could not be decrypted: ${error}`);
+    }
+  }
+
+  /**
+   * Credentials written before authenticated encryption: XOR with the SHA-256 of the device ID,
+   * or bare base64 when that step had failed. Only accepted if they decode to valid JSON.
+   */
+  private async readLegacyCredentials(encryptedData: string): Promise<UserCredentials> {
+    const decoded = bytesToUtf8(base64ToBytes(encryptedData));
+    const salt = await Crypto.digestStringAsync(
+      Crypto.CryptoDigestAlgorithm.SHA256,
+      await this.getDeviceId()
+    );
+
+    for (const candidate of [this.xorDecode(decoded, salt), decoded]) {
+      try {
+        const parsed = JSON.parse(candidate);
+        if (parsed && typeof parsed.userId === 'string') {
+          return parsed as UserCredentials;
+        }
+      } catch {
+        // Try the next format
+      }
     }
+    throw new SecretsDecryptionError('Stored credentials are in an unknown format');
   }
 
-  private xorEncrypt(data: string, key: string): string {
+  private xorDecode(data: string, key: string): string {
     let result = '';
     for (let i = 0; i < data.length; i++) {
       result += String.fromCharCode(
@@ -290,22 +394,31 @@ class SecretsManager {
     return result;
   }
 
-  // Emergency wipe for panic mode
+  // Emergency wipe for panic mode: without the encryption keys, wiped ciphertext and backups
+  // copied off the device can no longer be decrypted. AuditService.clearAll() runs next and
+  // records the wipe in a log sealed with new keys.
   async emergencyWipe(): Promise<void> {
     try {
       // Clear all keychain entries
+      const servers = ['user_credentials', 'device_id'];
       try {
-        await Keychain.resetGenericPassword({ service: this.keyPrefix + 'user_credentials' });
-        await Keychain.resetGenericPassword({ service: this.keyPrefix + 'device_id' });
+        await this.keyNamesQueue;
+        servers.push(...(await this.getEncryptionKeyNames()).map(name => `${name}_key`), 'encryption_key_names');
       } catch (keychainError) {
-        // Keychain might not have these entries, continue with wipe
+        console.error('Failed to list encryption keys:', keychainError);
+      }
+      for (const server of servers) {
+        try {
+          await Keychain.resetInternetCredentials({ server: this.keyPrefix + server });
+        } catch (keychainError) {
+          // Keychain might not have this entry, continue with wipe
+        }
       }
+      this.encryptionKeys.clear();
       
       // Clear session
       this.sessionToken = null;
       this.sessionExpiry = null;
-      
-      AuditService.getInstance().log('panic_wipe', 'Emergency wipe completed - all secrets cleared');
     } catch (error) {
       console.error('Emergency wipe failed:', error);
     }
@@ -0,0 +1,103 @@
+import { LocalInferenceEngine } from './LocalInferenceEngine';
+import { AIMediaType, AIMessage } from '../types/ai';
+import { getMessageText, toContentParts } from '../api/message-format';
+
+/**
+ * Token counting used to keep prompts inside each model's context window.
+ *
+ * Cloud providers do not expose their tokenizers on the device, so their counts come from
+ * a heuristic calibrated on BPE vocabularies; the on-device engine counts exactly.
+ */
+
+export interface Tokenizer {
+  readonly name: string;
+  countTokens(text: string): Promise<number>;
+}
+
+// Used when a model is not listed below
+export const DEFAULT_CONTEXT_LIMIT = 8192;
+
+// Matched by prefix against the model identifier, most specific first
+const MODEL_CONTEXT_LIMITS: Array<[string, number]> = [
+  ['claude-', 200000],
+  ['gpt-4.1', 1047576],
+  ['gpt-4o', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo', 16385],
+  ['o4-mini', 200000],
+  ['o3', 200000],
+  ['grok-3', 131072],
+  ['llama-3', 8192],
+  ['llama3', 8192],
+  ['mistral', 32768],
+  ['phi-3-mini-128k', 131072],
+  ['phi-3', 4096],
+  ['qwen2', 32768],
+];
+
+export function getModelContextLimit(model: string, fallback: number = DEFAULT_CONTEXT_LIMIT): number {
+  const id = model.toLowerCase();
+  const match = MODEL_CONTEXT_LIMITS.find(([prefix]) => id.startsWith(prefix) || id.includes(`/${prefix}`));
+  return match ? match[1] : fallback;
+}
+
+/**
+ * Synchronous estimate: short words are usually one token, longer ones split every ~4 characters,
+ * and each punctuation mark or symbol is its own token
+ */
+export function estimateTokens(text: string): number {
+  const pieces = text.match(/[\p{L}\p{N}']+|[^\s\p{L}\p{N}']/gu) || [];
+  return pieces.reduce((count, piece) => count + Math.max(1, Math.ceil(piece.length / 4)), 0);
+}
+
+// Providers bill media by size; these cover a ~1500px image and a short voice clip
+export const MEDIA_TOKEN_ESTIMATES: Record<AIMediaType, number> = {
+  image: 1600,
+  audio: 1000,
+};
+
+// Tokens of everything in the content but its text
+export function estimatePartTokens(content: AIMessage['content']): number {
+  return toContentParts(content).reduce((count, part) => {
+    switch (part.type) {
+      case 'text':
+        return count;
+      case 'tool_call':
+        return count + estimateTokens(`${part.name} ${JSON.stringify(part.arguments)}`);
+      case 'tool_result':
+        return count + estimateTokens(part.content);
+      default:
+        return count + MEDIA_TOKEN_ESTIMATES[part.type];
+    }
+  }, 0);
+}
+
+export function estimateContentTokens(content: AIMessage['content']): number {
+  return estimateTokens(getMessageText(content)) + estimatePartTokens(content);
+}
+
+export class HeuristicTokenizer implements Tokenizer {
+  readonly name = 'heuristic';
+
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+}
+
+/**
+ * Exact counts from the on-device engine's own vocabulary
+ */
+export class EngineTokenizer implements Tokenizer {
+  readonly name: string;
+
+  constructor(private readonly engine: LocalInferenceEngine) {
+    this.name = `engine:${engine.name}`;
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return (await this.engine.tokenize(text)).length;
+  }
+}
+
+export const heuristicTokenizer = new HeuristicTokenizer();
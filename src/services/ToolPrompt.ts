@@ -0,0 +1,108 @@
+import { AIMessage, AIToolCall, AIToolDefinition } from '../types/ai';
+import { getMessageText, parseToolCall, toContentParts } from '../api/message-format';
+
+/**
+ * Tool calling for models without a native tool API: the tools are described in the system
+ * prompt, the model answers with <tool_call> tags, and tool turns are written back as text.
+ */
+
+const TOOL_CALL_PATTERN = /<tool_call>\s*([\s\S]*?)\s*<\/tool_call>/g;
+
+export function buildToolPrompt(tools: AIToolDefinition[]): string {
+  const descriptions = tools
+    .map(tool => `- ${tool.name} : ${tool.description}\n  Paramètres : ${JSON.stringify(tool.parameters)}`)
+    .join('\n');
+
+  return `Tu as accès aux outils suivants :
+${descriptions}
+
+Pour utiliser un outil, réponds uniquement avec :
+<tool_call>{"name": "nom_de_l_outil", "arguments": {...}}</tool_call>
+Le résultat te sera envoyé dans un bloc <tool_result>. Si aucun outil n'est utile, réponds normalement.`;
+}
+
+/**
+ * Write tool calls and results as text the model can read
+ */
+export function renderToolMessages(messages: AIMessage[]): AIMessage[] {
+  return messages.map(message => {
+    if (typeof message.content === 'string') {
+      return message;
+    }
+
+    const hasToolParts = message.content.some(part => part.type === 'tool_call' || part.type === 'tool_result');
+    if (!hasToolParts) {
+      return message;
+    }
+
+    const content = toContentParts(message.content).map(part => {
+      switch (part.type) {
+        case 'tool_call':
+          return `<tool_call>${JSON.stringify({ name: part.name, arguments: part.arguments })}</tool_call>`;
+        case 'tool_result':
+          return `<tool_result name="${part.name}"${part.isError ? ' error="true"' : ''}>${part.content}</tool_result>`;
+        default:
+          return getMessageText([part]);
+      }
+    });
+    return { ...message, content: content.filter(Boolean).join('\n') };
+  });
+}
+
+/**
+ * Extract the tool calls from a model's answer
+ * @returns The calls, and the answer's text without them
+ */
+export function parseToolCalls(text: string): { text: string; toolCalls: AIToolCall[] } {
+  const toolCalls: AIToolCall[] = [];
+
+  for (const match of text.matchAll(TOOL_CALL_PATTERN)) {
+    try {
+      const { name, arguments: args } = JSON.parse(match[1]);
+      if (typeof name === 'string') {
+        toolCalls.push(parseToolCall({
+          id: `call_${Date.now()}_${toolCalls.length}`,
+          name,
+          arguments: JSON.stringify(args ?? {}),
+        }));
+      }
+    } catch {
+      // A malformed call is left in the text, where the user can see it
+    }
+  }
+
+  if (toolCalls.length === 0) {
+    return { text, toolCalls };
+  }
+  return { text: text.replace(TOOL_CALL_PATTERN, '').trim(), toolCalls };
+}
+
+/**
+ * Forward streamed tokens until a tool call starts, holding back anything that may open the tag
+ */
+export function filterToolCallTokens(onToken: (token: string) => void): (token: string) => void {
+  const tag = '<tool_call>';
+  let pending = '';
+  let inToolCall = false;
+
+  return (token: string) => {
+    if (inToolCall) return;
+    pending += token;
+
+    const start = pending.indexOf(tag);
+    if (start >= 0) {
+      if (start > 0) onToken(pending.slice(0, start));
+      inToolCall = true;
+      return;
+    }
+
+    let held = Math.min(tag.length - 1, pending.length);
+    while (held > 0 && !tag.startsWith(pending.slice(pending.length - held))) {
+      held--;
+    }
+    if (pending.length > held) {
+      onToken(pending.slice(0, pending.length - held));
+      pending = pending.slice(pending.length - held);
+    }
+  };
+}
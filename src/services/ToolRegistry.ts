@@ -0,0 +1,143 @@
+import { AuditService } from './AuditService';
+import { BUILTIN_TOOLS } from './BuiltinTools';
+import { AIJSONSchema, AIToolCall, AIToolDefinition, AIToolResultPart } from '../types/ai';
+
+export interface ToolContext {
+  signal?: AbortSignal;
+}
+
+export interface Tool<TArgs = any> extends AIToolDefinition {
+  // The result is sent to the model as JSON, or as is when it is a string
+  execute(args: TArgs, context: ToolContext): Promise<unknown>;
+}
+
+// Raised for arguments that do not match the tool's parameter schema
+export class ToolArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolArgumentError';
+  }
+}
+
+// Results are cut to this length so a large answer cannot fill the context window
+const MAX_RESULT_LENGTH = 4000;
+
+/**
+ * Validate a value against a tool parameter schema
+ * @throws ToolArgumentError naming the first invalid path
+ */
+export function validateToolArguments(schema: AIJSONSchema, value: unknown, path = 'arguments'): void {
+  const actualType = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+  const matches = schema.type === 'integer'
+    ? Number.isInteger(value)
+    : actualType === schema.type;
+  if (!matches) {
+    throw new ToolArgumentError(`${path} must be of type ${schema.type}, got ${actualType}`);
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    throw new ToolArgumentError(`${path} must be one of ${schema.enum.join(', ')}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      throw new ToolArgumentError(`${path} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      throw new ToolArgumentError(`${path} must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, index) => validateToolArguments(schema.items!, item, `${path}[${index}]`));
+  }
+  if (schema.type === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        throw new ToolArgumentError(`${path}.${key} is required`);
+      }
+    }
+    for (const [key, property] of Object.entries(schema.properties || {})) {
+      if (object[key] !== undefined) {
+        validateToolArguments(property, object[key], `${path}.${key}`);
+      }
+    }
+  }
+}
+
+/**
+ * Tools the assistant's model can call. Every invocation, successful or not, is audited.
+ */
+class ToolRegistry {
+  private static instance: ToolRegistry;
+  private tools: Map<string, Tool> = new Map();
+
+  public static getInstance(): ToolRegistry {
+    if (!ToolRegistry.instance) {
+      ToolRegistry.instance = new ToolRegistry();
+    }
+    return ToolRegistry.instance;
+  }
+
+  private constructor() {
+    BUILTIN_TOOLS.forEach(tool => this.register(tool));
+  }
+
+  register(tool: Tool): void {
+    if (!/^[a-zA-Z0-9_-]{1,64}$/.test(tool.name)) {
+      throw new Error(`Invalid tool name: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
+  getTool(name: string): Tool | undefined {
+    return this.tools.get(name);
+  }
+
+  // Definitions sent to the model, without the implementations
+  getDefinitions(): AIToolDefinition[] {
+    return Array.from(this.tools.values()).map(({ name, description, parameters }) => ({ name, description, parameters }));
+  }
+
+  /**
+   * Run a tool call; failures are returned as error results for the model to read
+   */
+  async execute(call: AIToolCall, context: ToolContext = {}): Promise<AIToolResultPart> {
+    const startTime = Date.now();
+    const tool = this.tools.get(call.name);
+
+    try {
+      if (!tool) {
+        throw new Error(`Unknown tool: ${call.name}`);
+      }
+      validateToolArguments(tool.parameters, call.arguments);
+
+      const result = await tool.execute(call.arguments, context);
+      const content = typeof result === 'string' ? result : JSON.stringify(result ?? null);
+
+      AuditService.getInstance().log(
+        'plugin_executed',
+        `Tool ${call.name} executed in ${Date.now() - startTime}ms`,
+        { metadata: { tool: call.name, durationMs: Date.now() - startTime } }
+      );
+      return { type: 'tool_result', callId: call.id, name: call.name, content: this.limitLength(content) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      AuditService.getInstance().log('plugin_executed', `Tool ${call.name} failed: ${message}`, {
+        severity: 'medium',
+        metadata: { tool: call.name },
+      });
+      return { type: 'tool_result', callId: call.id, name: call.name, content: message, isError: true };
+    }
+  }
+
+  private limitLength(content: string): string {
+    return content.length > MAX_RESULT_LENGTH ? `${content.slice(0, MAX_RESULT_LENGTH)}…` : content;
+  }
+}
+
+export default ToolRegistry;
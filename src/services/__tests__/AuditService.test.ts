@@ -0,0 +1,235 @@
+import type { Database, SqlJsStatic } from "sql.js";
+
+// The asm.js build, since the WebAssembly one fails to start under jest
+const initSqlJs: typeof import("sql.js").default = require("sql.js/dist/sql-asm.js");
+
+// Survive jest.resetModules(), which stands for closing and relaunching the app
+const mockDatabases = new Map<string, Database>();
+const mockKeychain = new Map<string, { username: string; password: string }>();
+let mockSql: SqlJsStatic;
+
+jest.mock("expo-sqlite", () => {
+  class MockDatabase {
+    private readonly db: Database;
+
+    constructor(db: Database) {
+      this.db = db;
+    }
+
+    async execAsync(source: string) {
+      this.db.exec(source);
+    }
+
+    async runAsync(source: string, params: any[] = []) {
+      this.db.run(source, params);
+      return { changes: this.db.getRowsModified(), lastInsertRowId: 0 };
+    }
+
+    async getAllAsync(source: string, params: any[] = []) {
+      const statement = this.db.prepare(source);
+      statement.bind(params);
+      const rows = [];
+      while (statement.step()) rows.push(statement.getAsObject());
+      statement.free();
+      return rows;
+    }
+
+    async getFirstAsync(source: string, params: any[] = []) {
+      return (await this.getAllAsync(source, params))[0] ?? null;
+    }
+
+    async withTransactionAsync(task: () => Promise<void>) {
+      this.db.exec("BEGIN");
+      try {
+        await task();
+        this.db.exec("COMMIT");
+      } catch (error) {
+        this.db.exec("ROLLBACK");
+        throw error;
+      }
+    }
+
+    async withExclusiveTransactionAsync(task: (txn: MockDatabase) => Promise<void>) {
+      await this.withTransactionAsync(() => task(this));
+    }
+  }
+
+  return {
+    openDatabaseAsync: async (name: string) => {
+      if (!mockDatabases.has(name)) mockDatabases.set(name, new mockSql.Database());
+      return new MockDatabase(mockDatabases.get(name)!);
+    },
+  };
+});
+
+jest.mock("react-native-keychain", () => ({
+  getInternetCredentials: async (server: string) => mockKeychain.get(server) ?? false,
+  setInternetCredentials: async (server: string, username: string, password: string) => {
+    mockKeychain.set(server, { username, password });
+  },
+  resetInternetCredentials: async ({ server }: { server: string }) => {
+    mockKeychain.delete(server);
+  },
+}));
+
+jest.mock("expo-crypto", () => {
+  const { createHash, randomBytes, randomUUID } = jest.requireActual("crypto");
+  return {
+    CryptoDigestAlgorithm: { SHA256: "SHA-256" },
+    getRandomBytes: (length: number) => new Uint8Array(randomBytes(length)),
+    digestStringAsync: async (_algorithm: string, data: string) => createHash("sha256").update(data).digest("hex"),
+    randomUUID: () => randomUUID(),
+  };
+});
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+jest.mock("expo-sharing", () => ({}));
+jest.mock("expo-file-system/next", () => ({}));
+
+type Services = {
+  audit: import("../AuditService").AuditService;
+  secrets: import("../SecretsManager").default;
+};
+
+function launch(): Services {
+  jest.resetModules();
+  return {
+    audit: require("../AuditService").AuditService.getInstance(),
+    secrets: require("../SecretsManager").default.getInstance(),
+  };
+}
+
+beforeAll(async () => {
+  mockSql = await initSqlJs();
+});
+
+beforeEach(() => {
+  mockDatabases.clear();
+  mockKeychain.clear();
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+async function logSomeEvents(audit: Services["audit"]) {
+  await audit.log("memory_write", "Mémoire ajoutée", { metadata: { memoryId: "m1" } });
+  await audit.log("settings_change", "Thème modifié");
+  await audit.log("api_call", "Appel au fournisseur");
+}
+
+describe("AuditService after a panic wipe", () => {
+  it("starts a log that verifies and reads after relaunch", async () => {
+    const before = launch();
+    await logSomeEvents(before.audit);
+    expect((await before.audit.verifyIntegrity()).valid).toBe(true);
+
+    await before.secrets.emergencyWipe();
+    await before.audit.clearAll();
+    await before.audit.log("settings_change", "Réglages réinitialisés");
+
+    const after = launch();
+    const report = await after.audit.verifyIntegrity();
+    expect(report).toMatchObject({ valid: true, checkedEntries: expect.any(Number) });
+    expect(report.checkedEntries).toBeGreaterThanOrEqual(2);
+
+    const events = await after.audit.getRecentEvents(100);
+    expect(events.map(event => event.type)).toContain("panic_wipe");
+    expect(events.map(event => event.type)).not.toContain("memory_write");
+    expect(events.find(event => event.type === "panic_wipe")?.message).toMatch(/Panic wipe/);
+  });
+
+  it("discards the entries sealed with wiped keys when the app closed before the log was cleared", async () => {
+    const before = launch();
+    await logSomeEvents(before.audit);
+    await before.secrets.emergencyWipe();
+
+    const after = launch();
+    await after.audit.log("settings_change", "Premier lancement après l'effacement");
+
+    expect((await after.audit.verifyIntegrity()).valid).toBe(true);
+    const events = await after.audit.getRecentEvents(100);
+    expect(events.map(event => event.type)).not.toContain("memory_write");
+    expect(events.map(event => event.message)).toContain("Premier lancement après l'effacement");
+  });
+
+  it("keeps the log of a relaunch without a wipe", async () => {
+    const before = launch();
+    await logSomeEvents(before.audit);
+
+    const after = launch();
+    expect(await after.audit.verifyIntegrity()).toMatchObject({ valid: true });
+    expect((await after.audit.getRecentEvents(100)).map(event => event.type)).toContain("memory_write");
+  });
+});
+
+describe("AuditService.verifyIntegrity", () => {
+  function auditTable() {
+    return mockDatabases.get("mongars_audit.db")!;
+  }
+
+  async function launchWithEvents(count: number) {
+    const { audit } = launch();
+    for (let i = 0; i < count; i++) {
+      await audit.log("api_call", `Appel ${i}`);
+    }
+    return audit;
+  }
+
+  it("reports a log emptied while the app was closed", async () => {
+    await launchWithEvents(5);
+    auditTable().run("DELETE FROM audit_log");
+    auditTable().run("DELETE FROM audit_checkpoints");
+
+    expect(await launch().audit.verifyIntegrity()).toMatchObject({ valid: false, failure: "truncated" });
+  });
+
+  it("reports the oldest entries removed up to a checkpoint", async () => {
+    await launchWithEvents(60);
+    auditTable().run("DELETE FROM audit_log WHERE seq <= 50");
+
+    expect(await launch().audit.verifyIntegrity()).toMatchObject({
+      valid: false,
+      failure: "missing_entries",
+      firstBrokenSeq: 1,
+    });
+  });
+
+  it("keeps reporting the newest entries removed after more are logged", async () => {
+    await launchWithEvents(10);
+    auditTable().run("DELETE FROM audit_log WHERE seq > 5");
+
+    const { audit } = launch();
+    await audit.log("api_call", "Appel après la suppression");
+    expect(await audit.verifyIntegrity()).toMatchObject({ valid: false, failure: "missing_entries" });
+  });
+
+  it("accepts the entries pruned by the retention policy", async () => {
+    const audit = await launchWithEvents(20);
+    await audit.updateRetentionPolicy({ maxEntries: 10 });
+
+    const report = await launch().audit.verifyIntegrity();
+    expect(report).toMatchObject({ valid: true });
+    expect(report.checkedEntries).toBeLessThan(20);
+  });
+});
+
+describe("AuditService reading unreadable entries", () => {
+  it("marks the entry that no longer decrypts instead of dropping the others", async () => {
+    const { audit } = launch();
+    await logSomeEvents(audit);
+    mockDatabases.get("mongars_audit.db")!.run("UPDATE audit_log SET message = 'enc:v1:AAAA' WHERE type = 'settings_change'");
+
+    const events = await audit.getRecentEvents(100);
+    expect(events.map(event => event.message)).toEqual(
+      expect.arrayContaining(["Mémoire ajoutée", "Appel au fournisseur", "Entrée illisible"]),
+    );
+    expect(events.find(event => event.message === "Entrée illisible")).toMatchObject({
+      type: "app_error",
+      metadata: { unreadable: true, type: "settings_change" },
+    });
+
+    const backup = await audit.getEventsForBackup();
+    expect(backup.map(event => event.message)).toContain("Mémoire ajoutée");
+    expect(backup.map(event => event.message)).not.toContain("Thème modifié");
+  });
+});
@@ -8,7 +8,8 @@ interface AppState {
   isAuthenticated: boolean;
   hasCompletedOnboarding: boolean;
   
-  // Messages
+  // Messages of the active conversation, which is reopened on launch
+  activeConversationId: string | null;
   messages: AssistantMessage[];
   isGenerating: boolean;
   
@@ -22,7 +23,10 @@ interface AppState {
   setOnboardingComplete: (complete: boolean) => void;
   addMessage: (message: AssistantMessage) => void;
   updateLastMessage: (content: string) => void;
-  clearMessages: () => void;
+  markLastMessageInterrupted: () => void;
+  openConversation: (id: string, messages: AssistantMessage[]) => void;
+  setActiveConversationId: (id: string) => void;
+  startNewConversation: () => void;
   setGenerating: (generating: boolean) => void;
   setDarkMode: (dark: boolean) => void;
   setTTSEnabled: (enabled: boolean) => void;
@@ -36,6 +40,7 @@ export const useAppStore = create<AppState>()(
       // Initial state
       isAuthenticated: false,
       hasCompletedOnboarding: false,
+      activeConversationId: null,
       messages: [],
       isGenerating: false,
       isDarkMode: false,
@@ -63,8 +68,23 @@ export const useAppStore = create<AppState>()(
           )
         })),
       
-      clearMessages: () => 
-        set({ messages: [] }),
+      markLastMessageInterrupted: () => 
+        set((state) => ({
+          messages: state.messages.map((msg, index) => 
+            index === state.messages.length - 1 
+              ? { ...msg, interrupted: true }
+              : msg
+          )
+        })),
+      
+      openConversation: (id, messages) => 
+        set({ activeConversationId: id, messages }),
+      
+      setActiveConversationId: (id) => 
+        set({ activeConversationId: id }),
+      
+      startNewConversation: () => 
+        set({ activeConversationId: null, messages: [] }),
       
       setGenerating: (generating) => 
         set({ isGenerating: generating }),
@@ -82,6 +102,7 @@ export const useAppStore = create<AppState>()(
         set({
           isAuthenticated: false,
           hasCompletedOnboarding: false,
+          activeConversationId: null,
           messages: [],
           isGenerating: false,
           isDarkMode: false,
@@ -97,6 +118,7 @@ export const useAppStore = create<AppState>()(
         isDarkMode: state.isDarkMode,
         ttsEnabled: state.ttsEnabled,
         biometricEnabled: state.biometricEnabled,
+        activeConversationId: state.activeConversationId,
       }),
     }
   )
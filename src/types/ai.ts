@@ -1,16 +1,86 @@
+export interface AITextPart {
+  type: "text";
+  text: string;
+}
+
+// Chat APIs read images as base64 data or as an http(s) URL; device file URIs need the data
+export interface AIImagePart {
+  type: "image";
+  mediaType: "image/jpeg" | "image/png" | "image/gif" | "image/webp";
+  uri?: string;
+  base64?: string;
+}
+
+// Reference to a recording; only audio-capable models accept it, as base64 data
+export interface AIAudioPart {
+  type: "audio";
+  mediaType: "audio/wav" | "audio/mpeg" | "audio/mp4";
+  uri: string;
+  base64?: string;
+}
+
+// A tool the model asked to run, in an assistant message
+export interface AIToolCallPart {
+  type: "tool_call";
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// The outcome of a tool call, sent back in the following user message
+export interface AIToolResultPart {
+  type: "tool_result";
+  callId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+}
+
+export type AIContentPart = AITextPart | AIImagePart | AIAudioPart | AIToolCallPart | AIToolResultPart;
+
+export type AIMediaType = (AIImagePart | AIAudioPart)["type"];
+
+export type AIToolCall = Omit<AIToolCallPart, "type">;
+
 export interface AIMessage {
   role: "user" | "assistant" | "system";
-  content: string;
+  // Plain text, or text mixed with media and tool parts
+  content: string | AIContentPart[];
+}
+
+// The subset of JSON Schema used to describe tool parameters
+export interface AIJSONSchema {
+  type: "string" | "number" | "integer" | "boolean" | "object" | "array";
+  description?: string;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  items?: AIJSONSchema;
+  properties?: Record<string, AIJSONSchema>;
+  required?: string[];
+}
+
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  parameters: AIJSONSchema & { type: "object" };
 }
 
 export interface AIRequestOptions {
   temperature?: number;
   maxTokens?: number;
   model?: string;
+  // Sent ahead of any system messages in the conversation
+  systemPrompt?: string;
+  tools?: AIToolDefinition[];
+  // "none" asks for a text answer even though tools are defined
+  toolChoice?: "auto" | "none";
+  signal?: AbortSignal;
 }
 
 export interface AIResponse {
   content: string;
+  toolCalls?: AIToolCall[];
   usage?: {
     promptTokens: number;
     completionTokens: number;
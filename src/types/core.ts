@@ -1,37 +1,41 @@
+export interface MessageAttachment {
+  id: string;
+  type: 'image';
+  // File in the app's document directory
+  uri: string;
+  mimeType: 'image/jpeg';
+  width: number;
+  height: number;
+}
+
 export interface AssistantMessage {
   id: string;
   content: string;
   isUser: boolean;
   timestamp: Date;
+  interrupted?: boolean;
+  attachments?: MessageAttachment[];
 }
 
-export interface MemoryEntry {
+export interface Conversation {
   id: string;
-  content: string;
-  metadata: Record<string, any>;
+  title: string;
   createdAt: Date;
+  updatedAt: Date;
+  pinned: boolean;
+  archived: boolean;
+  messageCount: number;
+  // Excerpt of the first matching message, set by search
+  snippet?: string;
 }
 
-export interface AuditEvent {
+export interface MemoryEntry {
   id: string;
-  action: AuditAction;
-  detail: string;
-  timestamp: Date;
-}
-
-export enum AuditAction {
-  MODEL_UPGRADE = 'model_upgrade',
-  PLUGIN_INSTALLED = 'plugin_installed',
-  PLUGIN_EXECUTED = 'plugin_executed',
-  CONSENT_GRANTED = 'consent_granted',
-  CONSENT_DENIED = 'consent_denied',
-  MEMORY_WRITE = 'memory_write',
-  MEMORY_DELETE = 'memory_delete',
-  PANIC_WIPE = 'panic_wipe',
-  SETTINGS_CHANGE = 'settings_change',
-  AUTHENTICATION_SUCCESS = 'auth_success',
-  AUTHENTICATION_FAILED = 'auth_failed',
-  UNKNOWN = 'unknown'
+  content: string;
+  metadata: Record<string, any>;
+  createdAt: Date;
+  // Excerpt around the matched terms, set by full-text search
+  snippet?: string;
 }
 
 export interface Plugin {
@@ -61,10 +61,13 @@ export interface MemorySearchQuery {
   query: string;
   limit?: number;
   offset?: number;
+  // nextCursor of the previous page; takes precedence over offset
+  cursor?: string;
   dateRange?: {
     start: Date;
     end: Date;
   };
+  // Metadata types; memories without one are in the "general" category
   categories?: string[];
 }
 
@@ -73,6 +76,7 @@ export interface MemorySearchResult {
   totalCount: number;
   hasMore: boolean;
   searchTime: number;
+  nextCursor?: string;
 }
 
 export interface MemoryItem {
@@ -82,6 +86,8 @@ export interface MemoryItem {
   timestamp: number;
   category: string;
   relevanceScore?: number;
+  // Excerpt around the matched terms, set by full-text search
+  snippet?: string;
 }
 
 // LLM Provider Types
@@ -126,13 +132,30 @@ export type AuditEventType =
   | 'memory_read' 
   | 'memory_write' 
   | 'memory_delete'
+  | 'conversation_delete'
   | 'settings_change' 
   | 'panic_wipe' 
   | 'app_error'
   | 'api_call'
   | 'biometric_used'
   | 'data_export'
-  | 'data_import';
+  | 'data_import'
+  | 'api_error'
+  | 'provider_fallback'
+  | 'llm_routing'
+  | 'egress_blocked'
+  | 'generation_interrupted'
+  | 'tts_used'
+  | 'model_upgrade'
+  | 'plugin_installed'
+  | 'plugin_executed'
+  | 'consent_granted'
+  | 'consent_denied'
+  | 'performance_warning'
+  | 'performance_metric'
+  | 'audit_rotation';
+
+export type AuditSeverity = 'low' | 'medium' | 'high' | 'critical';
 
 export interface AuditEvent {
   id: string;
@@ -140,11 +163,72 @@ export interface AuditEvent {
   message: string;
   timestamp: number;
   metadata?: Record<string, any>;
-  severity: 'low' | 'medium' | 'high' | 'critical';
+  severity: AuditSeverity;
   userId?: string;
   ipAddress?: string;
 }
 
+export interface AuditLogOptions {
+  // Defaults to the usual severity of the event type
+  severity?: AuditSeverity;
+  metadata?: Record<string, any>;
+}
+
+export interface AuditEventFilter {
+  types?: AuditEventType[];
+  severities?: AuditSeverity[];
+  // Timestamp bounds, both inclusive
+  since?: number;
+  until?: number;
+}
+
+export interface AuditRetentionPolicy {
+  // null keeps entries whatever their age, or however many there are
+  maxAgeDays: number | null;
+  maxEntries: number | null;
+}
+
+export type AuditExportFormat = 'jsonl' | 'csv';
+
+export type AuditIntegrityFailure =
+  | 'missing_entries'
+  | 'broken_link'
+  | 'modified_entry'
+  | 'unreadable_entry'
+  | 'invalid_checkpoint'
+  | 'truncated';
+
+export interface AuditIntegrityReport {
+  valid: boolean;
+  checkedEntries: number;
+  checkedCheckpoints: number;
+  // Sequence number of the first entry that fails verification
+  firstBrokenSeq?: number;
+  failure?: AuditIntegrityFailure;
+  verifiedAt: number;
+}
+
+// Conversation Service Types
+export interface ConversationListQuery {
+  // Matched against the titles and the messages
+  query?: string;
+  // Archived conversations are listed apart from the others
+  archived?: boolean;
+}
+
+// Backup Types
+// merge adds what is missing from the device; replace swaps the device's data for the backup's
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupSummary {
+  createdAt: number;
+  memories: number;
+  auditEvents: number;
+  conversations: number;
+  messages: number;
+  flagOverrides: number;
+}
+
 // Error Handling Types
 export interface ServiceError {
   code: string;
@@ -0,0 +1,72 @@
+import { sha256 } from "@noble/hashes/sha2";
+import { hmacSha256, pbkdf2Sha256 } from "../crypto";
+import { bytesToHex, utf8ToBytes } from "../encoding";
+
+jest.mock("expo-crypto", () => ({}));
+
+// Known-answer vectors: FIPS 180-2 for SHA-256, RFC 4231 for HMAC, RFC 7914 for PBKDF2
+describe("SHA-256", () => {
+  it.each([
+    ["", "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"],
+    ["abc", "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"],
+    [
+      "abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq",
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1",
+    ],
+  ])("hashes %j", (message, expected) => {
+    expect(bytesToHex(sha256(utf8ToBytes(message)))).toBe(expected);
+  });
+
+  it("hashes a million bytes fed in chunks, as model files are", () => {
+    const hash = sha256.create();
+    const chunk = utf8ToBytes("a".repeat(1000));
+    for (let i = 0; i < 1000; i++) {
+      hash.update(chunk.subarray(0, 333)).update(chunk.subarray(333));
+    }
+    expect(bytesToHex(hash.digest())).toBe("cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0");
+  });
+});
+
+describe("hmacSha256", () => {
+  it.each([
+    [
+      "a key of 20 bytes",
+      new Uint8Array(20).fill(0x0b),
+      "Hi There",
+      "b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7",
+    ],
+    [
+      "a key shorter than the output",
+      utf8ToBytes("Jefe"),
+      "what do ya want for nothing?",
+      "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+    ],
+    [
+      "a key longer than a block",
+      new Uint8Array(131).fill(0xaa),
+      "Test Using Larger Than Block-Size Key - Hash Key First",
+      "60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54",
+    ],
+  ])("matches RFC 4231 with %s", async (_case, key, message, expected) => {
+    expect(bytesToHex(await hmacSha256(key, utf8ToBytes(message)))).toBe(expected);
+  });
+});
+
+describe("pbkdf2Sha256", () => {
+  it.each([
+    [
+      "passwd",
+      "salt",
+      1,
+      "55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783",
+    ],
+    [
+      "Password",
+      "NaCl",
+      80000,
+      "4ddcd8f60b98be21830cee5ef22701f9641a4418d04c0414aeff08876b34ab56a1d425a1225833549adb841b51c9b3176a272bdebba1d078478f62b397f33c8d",
+    ],
+  ])("matches RFC 7914 for %j with %j over %d iterations", async (passphrase, salt, iterations, expected) => {
+    expect(bytesToHex(await pbkdf2Sha256(passphrase, utf8ToBytes(salt), iterations, 64))).toBe(expected);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Authenticated encryption helpers (AES-256-GCM), and the hashes built on SHA-256
+ */
+
+import { gcm } from '@noble/ciphers/aes';
+import { hmac } from '@noble/hashes/hmac';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import * as Crypto from 'expo-crypto';
+import { base64ToBytes, bytesToBase64, bytesToUtf8, utf8ToBytes } from './encoding';
+
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 12;
+
+/**
+ * Generate a random 256-bit key
+ */
+export function generateEncryptionKey(): Uint8Array {
+  return Crypto.getRandomBytes(KEY_LENGTH);
+}
+
+/**
+ * Encrypt bytes; the random nonce is prepended to the ciphertext and authentication tag
+ */
+export function encryptBytes(plaintext: Uint8Array, key: Uint8Array): Uint8Array {
+  const nonce = Crypto.getRandomBytes(NONCE_LENGTH);
+  const ciphertext = gcm(key, nonce).encrypt(plaintext);
+
+  const payload = new Uint8Array(NONCE_LENGTH + ciphertext.length);
+  payload.set(nonce);
+  payload.set(ciphertext, NONCE_LENGTH);
+  return payload;
+}
+
+/**
+ * Decrypt bytes produced by encryptBytes; throws if the payload was tampered with
+ */
+export function decryptBytes(payload: Uint8Array, key: Uint8Array): Uint8Array {
+  if (payload.length <= NONCE_LENGTH) {
+    throw new Error('Encrypted payload is too short');
+  }
+  return gcm(key, payload.subarray(0, NONCE_LENGTH)).decrypt(payload.subarray(NONCE_LENGTH));
+}
+
+/**
+ * Encrypt a string into base64 text suitable for SQLite or AsyncStorage
+ */
+export function encryptString(plaintext: string, key: Uint8Array): string {
+  return bytesToBase64(encryptBytes(utf8ToBytes(plaintext), key));
+}
+
+export function decryptString(payload: string, key: Uint8Array): string {
+  return bytesToUtf8(decryptBytes(base64ToBytes(payload), key));
+}
+
+// Milliseconds PBKDF2 may run before yielding to the event loop
+const PBKDF2_ASYNC_TICK_MS = 10;
+
+/**
+ * HMAC-SHA256 (RFC 2104)
+ */
+export async function hmacSha256(key: Uint8Array, message: Uint8Array): Promise<Uint8Array> {
+  return hmac(sha256, key, message);
+}
+
+/**
+ * PBKDF2-HMAC-SHA256 (RFC 8018) for passphrase-derived keys. It runs in JavaScript and yields to
+ * the event loop regularly, so that the UI stays responsive during a long derivation.
+ */
+export async function pbkdf2Sha256(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number,
+  length: number = KEY_LENGTH
+): Promise<Uint8Array> {
+  return pbkdf2Async(sha256, utf8ToBytes(passphrase), salt, {
+    c: iterations,
+    dkLen: length,
+    asyncTick: PBKDF2_ASYNC_TICK_MS,
+  });
+}
@@ -0,0 +1,115 @@
+/**
+ * Binary encoding helpers that do not depend on Node's Buffer
+ */
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = new Map(Array.from(BASE64_ALPHABET).map((char, index) => [char, index]));
+
+/**
+ * Encode bytes as standard (padded) base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let result = '';
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    result += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63];
+    result += i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=';
+    result += i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=';
+  }
+
+  return result;
+}
+
+/**
+ * Decode standard base64, with or without padding
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[\s=]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+
+  for (let i = 0; i < clean.length; i += 4) {
+    const values = [0, 1, 2, 3].map(offset => {
+      const char = clean[i + offset];
+      if (char === undefined) return 0;
+      const value = BASE64_LOOKUP.get(char);
+      if (value === undefined) {
+        throw new Error(`Invalid base64 character: ${char}`);
+      }
+      return value;
+    });
+    const chunk = (values[0] << 18) | (values[1] << 12) | (values[2] << 6) | values[3];
+
+    bytes[byteIndex++] = (chunk >> 16) & 255;
+    if (i + 2 < clean.length) bytes[byteIndex++] = (chunk >> 8) & 255;
+    if (i + 3 < clean.length) bytes[byteIndex++] = chunk & 255;
+  }
+
+  return bytes;
+}
+
+/**
+ * Encode bytes as lowercase hexadecimal
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Encode a string as UTF-8, independently of TextEncoder support in the JS engine
+ */
+export function utf8ToBytes(text: string): Uint8Array {
+  const bytes: number[] = [];
+
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 63));
+    } else if (codePoint < 0x10000) {
+      bytes.push(0xe0 | (codePoint >> 12), 0x80 | ((codePoint >> 6) & 63), 0x80 | (codePoint & 63));
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 63),
+        0x80 | ((codePoint >> 6) & 63),
+        0x80 | (codePoint & 63)
+      );
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decode UTF-8 bytes into a string
+ */
+export function bytesToUtf8(bytes: Uint8Array): string {
+  let result = '';
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    let codePoint: number;
+
+    if (byte < 0x80) {
+      codePoint = byte;
+      i += 1;
+    } else if (byte < 0xe0) {
+      codePoint = ((byte & 31) << 6) | (bytes[i + 1] & 63);
+      i += 2;
+    } else if (byte < 0xf0) {
+      codePoint = ((byte & 15) << 12) | ((bytes[i + 1] & 63) << 6) | (bytes[i + 2] & 63);
+      i += 3;
+    } else {
+      codePoint = ((byte & 7) << 18) | ((bytes[i + 1] & 63) << 12) | ((bytes[i + 2] & 63) << 6) | (bytes[i + 3] & 63);
+      i += 4;
+    }
+
+    result += String.fromCodePoint(codePoint);
+  }
+
+  return result;
+}